@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createReadStream, promises as fs } from 'fs'
+import { Readable } from 'stream'
+import { validateSession } from '@/lib/auth'
+import { getBackupDownload } from '@/lib/backups'
+
+interface RouteContext {
+  params: Promise<{
+    backupId: string
+  }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { backupId } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const download = await getBackupDownload(backupId, session.user.id)
+    const stat = download ? await fs.stat(download.path).catch(() => null) : null
+    if (!download || !stat) {
+      return NextResponse.json(
+        { error: 'Backup not found' },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(Readable.toWeb(createReadStream(download.path)) as ReadableStream, {
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Content-Length': stat.size.toString(),
+        'Content-Disposition': `attachment; filename="${download.filename}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Download backup error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { restoreBackup } from '@/lib/backups'
+
+interface RouteContext {
+  params: Promise<{
+    backupId: string
+  }>
+}
+
+// Restores into an existing project ({ projectId }) or a new one ({ name, description })
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { backupId } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const { projectId, name, description = '' } = await request.json()
+
+    if (!projectId && (!name || typeof name !== 'string')) {
+      return NextResponse.json(
+        { error: 'Either a target project or a name for a new project is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await restoreBackup(
+      backupId,
+      session.user.id,
+      projectId ? { projectId } : { name, description }
+    )
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { project: result.project, job: result.job },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Restore backup error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { deleteBackup } from '@/lib/backups'
+
+interface RouteContext {
+  params: Promise<{
+    backupId: string
+  }>
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { backupId } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const result = await deleteBackup(backupId, session.user.id)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Delete backup error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
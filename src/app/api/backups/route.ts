@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { listAllBackups } from '@/lib/backups'
+
+// Backups of all of the user's projects, including deleted ones
+export async function GET(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const backups = await listAllBackups(session.user.id)
+
+    return NextResponse.json({ backups })
+  } catch (error) {
+    console.error('Get backups error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
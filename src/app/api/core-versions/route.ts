@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { listCoreVersions, addCoreVersion } from '@/lib/core-versions'
+
+export async function GET(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const versions = await listCoreVersions()
+
+    return NextResponse.json({ versions })
+  } catch (error) {
+    console.error('Get core versions error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const { ref } = await request.json()
+
+    if (!ref || typeof ref !== 'string') {
+      return NextResponse.json(
+        { error: 'A tag, branch or commit is required' },
+        { status: 400 }
+      )
+    }
+
+    // The checkout continues in the background; clients poll GET for its status
+    const result = await addCoreVersion(ref)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ version: result.version }, { status: 202 })
+  } catch (error) {
+    console.error('Add core version error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
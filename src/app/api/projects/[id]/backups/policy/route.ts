@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { setBackupPolicy } from '@/lib/backups'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const { schedule, retention, enabled = true } = await request.json()
+
+    if (typeof schedule !== 'string' || typeof retention !== 'number' || typeof enabled !== 'boolean') {
+      return NextResponse.json(
+        { error: 'schedule (cron expression), retention (number) and enabled (boolean) are required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await setBackupPolicy(id, { schedule, retention, enabled })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ policy: result.policy })
+  } catch (error) {
+    console.error('Save backup policy error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getLatestJob } from '@/lib/jobs'
+import { listBackups, getBackupPolicy, queueBackup } from '@/lib/backups'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const [backups, policy, backupJob, restoreJob] = await Promise.all([
+      listBackups(id),
+      getBackupPolicy(id),
+      getLatestJob(id, 'backup'),
+      getLatestJob(id, 'restore'),
+    ])
+
+    return NextResponse.json({ backups, policy, backupJob, restoreJob })
+  } catch (error) {
+    console.error('Get backups error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Backs up now; follow the returned job via the job stream
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const result = await queueBackup(id)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { job: result.job, alreadyRunning: result.alreadyRunning },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Backup project error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { cloneProject } from '@/lib/clone'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const { name, description = '', includeData = false, includeStorage = false } = await request.json()
+
+    if (!name || typeof name !== 'string') {
+      return NextResponse.json(
+        { error: 'Project name is required' },
+        { status: 400 }
+      )
+    }
+
+    if (includeStorage && !includeData) {
+      return NextResponse.json(
+        { error: 'Storage files can only be cloned together with the database' },
+        { status: 400 }
+      )
+    }
+
+    const result = await cloneProject(id, session.user.id, {
+      name,
+      description,
+      includeData: !!includeData,
+      includeStorage: !!includeStorage,
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json(
+      { project: result.project, job: result.job, warnings: result.warnings },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Clone project error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
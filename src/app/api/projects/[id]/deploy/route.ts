@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { validateSession } from '@/lib/auth'
-import { deployProject } from '@/lib/project'
+import { queueDeployProject } from '@/lib/project'
+import { getLatestJob } from '@/lib/jobs'
 
 interface RouteContext {
   params: Promise<{
@@ -8,6 +9,39 @@ interface RouteContext {
   }>
 }
 
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    // Latest deploy job, so a reloaded page can reattach to a running deploy
+    const job = await getLatestJob(id, 'deploy')
+
+    return NextResponse.json({ job })
+  } catch (error) {
+    console.error('Get deploy job error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
 export async function POST(request: NextRequest, { params }: RouteContext) {
   const { id } = await params
   try {
@@ -28,16 +62,19 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
       )
     }
 
-    const result = await deployProject(id)
+    const result = await queueDeployProject(id)
 
     if (!result.success) {
       return NextResponse.json(
         { error: result.error },
-        { status: 500 }
+        { status: result.code === 'invalid_transition' ? 409 : 500 }
       )
     }
 
-    return NextResponse.json({ success: true, publicUrl: result.publicUrl })
+    return NextResponse.json(
+      { success: true, job: result.job },
+      { status: 202 }
+    )
   } catch (error) {
     console.error('Deploy project error:', error)
     return NextResponse.json(
@@ -45,4 +82,4 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { queueRollbackProject } from '@/lib/deployments'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+    deploymentId: string
+  }>
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id, deploymentId } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const result = await queueRollbackProject(id, deploymentId)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.code === 'invalid_transition' ? 409 : 500 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: true, job: result.job },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Roll back project error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { validateSession } from '@/lib/auth'
-import { updateProjectEnvVars } from '@/lib/project'
-import { prisma } from '@/lib/db'
+import { updateProjectEnvVars, getEnvFileDrift, type EnvPatch } from '@/lib/project'
+import { getProjectEnvVars } from '@/lib/env-vars'
 
 interface RouteContext {
   params: Promise<{
@@ -30,17 +30,11 @@ export async function GET(request: NextRequest, { params }: RouteContext) {
     }
 
     // Fetch project environment variables from database
-    const envVars = await prisma.projectEnvVar.findMany({
-      where: { projectId: id }
-    })
+    const envVars = await getProjectEnvVars(id)
+    // Keys that differ in the .env on disk, e.g. after a hand edit
+    const drift = await getEnvFileDrift(id).catch(() => null)
 
-    // Convert to object format
-    const envVarsObject: Record<string, string> = {}
-    envVars.forEach(envVar => {
-      envVarsObject[envVar.key] = envVar.value
-    })
-
-    return NextResponse.json({ envVars: envVarsObject })
+    return NextResponse.json({ envVars, drift })
   } catch (error) {
     console.error('Get env vars error:', error)
     return NextResponse.json(
@@ -72,28 +66,87 @@ export async function POST(request: NextRequest, { params }: RouteContext) {
 
     const envVars = await request.json()
 
-    if (!envVars || typeof envVars !== 'object') {
+    if (!envVars || typeof envVars !== 'object' || Array.isArray(envVars)) {
       return NextResponse.json(
         { error: 'Invalid environment variables' },
         { status: 400 }
       )
     }
 
-    const result = await updateProjectEnvVars(id, envVars)
+    return applyEnvPatch(id, { set: envVars }, session.user.id)
+  } catch (error) {
+    console.error('Update env vars error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Sets and deletes single env vars: { set: { KEY: value }, unset: ['KEY'] }. Keys not named are kept.
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Invalid request body' },
+        { status: 400 }
+      )
+    }
 
-    if (!result.success) {
+    const { set, unset } = body
+    if (set !== undefined && (!set || typeof set !== 'object' || Array.isArray(set))) {
+      return NextResponse.json(
+        { error: 'set must be an object of environment variables' },
+        { status: 400 }
+      )
+    }
+    if (unset !== undefined && (!Array.isArray(unset) || unset.some((key) => typeof key !== 'string'))) {
       return NextResponse.json(
-        { error: result.error },
-        { status: 500 }
+        { error: 'unset must be an array of variable names' },
+        { status: 400 }
       )
     }
 
-    return NextResponse.json({ success: true })
+    return applyEnvPatch(id, { set, unset }, session.user.id)
   } catch (error) {
-    console.error('Update env vars error:', error)
+    console.error('Patch env vars error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
+
+async function applyEnvPatch(projectId: string, patch: EnvPatch, userId: string) {
+  const result = await updateProjectEnvVars(projectId, patch, userId)
+
+  if (!result.success) {
+    return NextResponse.json(
+      { error: result.error, fieldErrors: result.fieldErrors },
+      { status: result.code === 'invalid_env' ? 400 : 500 }
+    )
+  }
+
+  // drift lists the hand edits to .env this write replaced
+  return NextResponse.json({ success: true, version: result.version, drift: result.drift })
+}
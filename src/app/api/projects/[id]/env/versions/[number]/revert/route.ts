@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { revertEnvVersion } from '@/lib/env-history'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+    number: string
+  }>
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id, number } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const version = parseInt(number, 10)
+    if (Number.isNaN(version)) {
+      return NextResponse.json(
+        { error: 'Invalid version number' },
+        { status: 400 }
+      )
+    }
+
+    const result = await revertEnvVersion(id, version, session.user.id)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true, version: result.version, kept: result.kept })
+  } catch (error) {
+    console.error('Revert env version error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
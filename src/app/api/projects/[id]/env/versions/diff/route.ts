@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { diffEnvVersions } from '@/lib/env-history'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+  }>
+}
+
+// Compares two versions: ?from=<number>&to=<number>
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const from = parseInt(request.nextUrl.searchParams.get('from') || '', 10)
+    const to = parseInt(request.nextUrl.searchParams.get('to') || '', 10)
+
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      return NextResponse.json(
+        { error: 'from and to must be version numbers' },
+        { status: 400 }
+      )
+    }
+
+    const result = await diffEnvVersions(id, from, to)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ from, to, changes: result.changes })
+  } catch (error) {
+    console.error('Diff env versions error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { listEnvVersions } from '@/lib/env-history'
+import { prisma } from '@/lib/db'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id },
+      select: { needsRedeploy: true },
+    })
+
+    if (!project) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    const versions = await listEnvVersions(id)
+
+    return NextResponse.json({ versions, needsRedeploy: project.needsRedeploy })
+  } catch (error) {
+    console.error('Get env versions error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createReadStream } from 'fs'
+import { Readable } from 'stream'
+import { validateSession } from '@/lib/auth'
+import { getExportArchive } from '@/lib/archive'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const archive = await getExportArchive(id)
+    if (!archive) {
+      return NextResponse.json(
+        { error: 'No export found; export the project first' },
+        { status: 404 }
+      )
+    }
+
+    return new NextResponse(Readable.toWeb(createReadStream(archive.path)) as ReadableStream, {
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Content-Length': archive.size.toString(),
+        'Content-Disposition': `attachment; filename="${archive.filename}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Download export error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getLatestJob } from '@/lib/jobs'
+import { getExportArchive, queueExportProject } from '@/lib/archive'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const [archive, job] = await Promise.all([
+      getExportArchive(id),
+      getLatestJob(id, 'export'),
+    ])
+
+    return NextResponse.json({
+      archive: archive && { filename: archive.filename, size: archive.size, createdAt: archive.createdAt },
+      job,
+    })
+  } catch (error) {
+    console.error('Get export error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Builds the archive in the background; download it from /export/download once the job succeeds
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const { includeData, includeStorage } = await request.json()
+
+    const result = await queueExportProject(id, {
+      includeData: includeData === true,
+      includeStorage: includeStorage === true,
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { job: result.job, alreadyRunning: result.alreadyRunning },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Export project error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getJob, subscribeToJob, type JobEvent } from '@/lib/jobs'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+    jobId: string
+  }>
+}
+
+export const dynamic = 'force-dynamic'
+
+// Server-Sent Events stream of a job's output: replays the log so far, then follows until done
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id, jobId } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const job = await getJob(jobId)
+    if (!job || job.projectId !== id) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    const encoder = new TextEncoder()
+    let unsubscribe: (() => void) | undefined
+    // Set once either side ends the stream; the controller must not be closed twice
+    let closed = false
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const close = () => {
+          if (closed) return
+          closed = true
+          unsubscribe?.()
+          try {
+            controller.close()
+          } catch {
+            // Already closed by the client disconnecting
+          }
+        }
+
+        const send = (event: JobEvent) => {
+          if (closed) return
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+          if (event.type === 'done') {
+            close()
+          }
+        }
+
+        request.signal.addEventListener('abort', close)
+        unsubscribe = await subscribeToJob(jobId, send)
+        if (closed) unsubscribe()
+      },
+      cancel() {
+        closed = true
+        unsubscribe?.()
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        'Connection': 'keep-alive',
+      },
+    })
+  } catch (error) {
+    console.error('Stream job error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { generateApiKey, generateProjectSecrets } from '@/lib/keys'
+
+// Returns new secrets for the configure form without saving them. With { jwtSecret },
+// only the API keys are returned, signed with that secret.
+export async function POST(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const { jwtSecret } = await request.json()
+
+    if (jwtSecret !== undefined) {
+      if (typeof jwtSecret !== 'string' || jwtSecret.length < 32) {
+        return NextResponse.json(
+          { error: 'JWT_SECRET must be at least 32 characters' },
+          { status: 400 }
+        )
+      }
+      return NextResponse.json({
+        secrets: {
+          ANON_KEY: generateApiKey('anon', jwtSecret),
+          SERVICE_ROLE_KEY: generateApiKey('service_role', jwtSecret),
+        },
+      })
+    }
+
+    return NextResponse.json({ secrets: generateProjectSecrets() })
+  } catch (error) {
+    console.error('Generate secrets error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { checkApiKeys } from '@/lib/keys'
+import { getProjectEnvVars } from '@/lib/env-vars'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+  }>
+}
+
+// Checks that the saved ANON_KEY and SERVICE_ROLE_KEY are signed with the saved JWT_SECRET
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const checks = checkApiKeys(await getProjectEnvVars(id))
+
+    return NextResponse.json({ valid: checks.every((check) => check.valid), checks })
+  } catch (error) {
+    console.error('Verify keys error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
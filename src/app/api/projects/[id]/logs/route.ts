@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getProjectLogs, getLogDownloadName, parseLogOptions, streamProjectLogs } from '@/lib/logs'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/projects/[id]/logs?service=&since=&tail=&follow=1&download=1
+// follow=1 streams new lines over Server-Sent Events, download=1 returns a plain-text attachment
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const searchParams = request.nextUrl.searchParams
+    const { options, error } = parseLogOptions(searchParams)
+    if (!options) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      )
+    }
+
+    if (options.follow) {
+      const encoder = new TextEncoder()
+      const abort = new AbortController()
+      request.signal.addEventListener('abort', () => abort.abort())
+
+      const stream = new ReadableStream({
+        start(controller) {
+          const send = (payload: object) => {
+            if (abort.signal.aborted) return
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`))
+          }
+
+          streamProjectLogs(id, options, (line) => send({ type: 'log', line }), abort.signal)
+            .then(() => send({ type: 'end' }))
+            .catch((e) => send({ type: 'error', error: e instanceof Error ? e.message : 'Unknown error' }))
+            .finally(() => {
+              try {
+                controller.close()
+              } catch {
+                // Already closed by the client disconnecting
+              }
+            })
+        },
+        cancel() {
+          abort.abort()
+        },
+      })
+
+      return new Response(stream, {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache, no-transform',
+          'Connection': 'keep-alive',
+        },
+      })
+    }
+
+    const result = await getProjectLogs(id, options)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 500 }
+      )
+    }
+
+    if (searchParams.get('download') === '1') {
+      const fileName = await getLogDownloadName(id, options.service)
+      return new Response((result.lines || []).join('\n'), {
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+        },
+      })
+    }
+
+    return NextResponse.json({ lines: result.lines })
+  } catch (error) {
+    console.error('Get project logs error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
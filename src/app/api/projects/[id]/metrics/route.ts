@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getProjectMetrics, METRIC_RANGES } from '@/lib/metrics'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+  }>
+}
+
+// GET /api/projects/[id]/metrics?range=1h|6h|24h|7d|30d
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const range = request.nextUrl.searchParams.get('range') || '1h'
+    if (!METRIC_RANGES[range]) {
+      return NextResponse.json(
+        { error: `Invalid range. Use one of: ${Object.keys(METRIC_RANGES).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const result = await getProjectMetrics(id, range)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      range,
+      resolution: result.resolution,
+      project: result.project,
+      services: result.services,
+    })
+  } catch (error) {
+    console.error('Get project metrics error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { queueApplyMigrations } from '@/lib/migrations'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+  }>
+}
+
+// Applies the pending migrations in a background job; follow it via the job stream
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const result = await queueApplyMigrations(id)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { job: result.job, alreadyRunning: result.alreadyRunning },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Apply migrations error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { listMigrations, addMigrations } from '@/lib/migrations'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const result = await listMigrations(id)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ migrations: result.migrations, job: result.job })
+  } catch (error) {
+    console.error('Get migrations error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Uploads migrations: { files: [{ filename, sql }] }
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const { files } = await request.json()
+
+    if (!Array.isArray(files) || files.some((file) => typeof file?.filename !== 'string' || typeof file?.sql !== 'string')) {
+      return NextResponse.json(
+        { error: 'files must be an array of { filename, sql }' },
+        { status: 400 }
+      )
+    }
+
+    const result = await addMigrations(id, files)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.code === 'checksum_mismatch' ? 409 : 400 }
+      )
+    }
+
+    return NextResponse.json({ added: result.added, updated: result.updated, unchanged: result.unchanged })
+  } catch (error) {
+    console.error('Add migrations error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
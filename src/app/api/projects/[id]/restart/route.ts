@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { restartProject } from '@/lib/project'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const result = await restartProject(id)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.code === 'invalid_transition' ? 409 : 500 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      status: result.status,
+      actions: result.actions,
+    })
+  } catch (error) {
+    console.error('Restart project error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { validateSession } from '@/lib/auth'
-import { deleteProject } from '@/lib/project'
+import { trashProject, hardDeleteProject } from '@/lib/trash'
 
 interface RouteContext {
   params: Promise<{
@@ -8,6 +8,7 @@ interface RouteContext {
   }>
 }
 
+// Moves the project to the trash; ?permanent=true&confirm=<project name> deletes it right away
 export async function DELETE(request: NextRequest, { params }: RouteContext) {
   const { id } = await params
   try {
@@ -28,16 +29,30 @@ export async function DELETE(request: NextRequest, { params }: RouteContext) {
       )
     }
 
-    const result = await deleteProject(id)
+    const { searchParams } = request.nextUrl
+    if (searchParams.get('permanent') === 'true') {
+      const result = await hardDeleteProject(id, searchParams.get('confirm'))
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: result.code === 'confirmation_required' ? 400 : result.code === 'invalid_transition' ? 409 : 500 }
+        )
+      }
+
+      return NextResponse.json({ success: true })
+    }
+
+    const result = await trashProject(id)
 
     if (!result.success) {
       return NextResponse.json(
         { error: result.error },
-        { status: 500 }
+        { status: result.code === 'invalid_transition' ? 409 : 500 }
       )
     }
 
-    return NextResponse.json({ success: true })
+    return NextResponse.json({ success: true, purgeAfter: result.purgeAfter })
   } catch (error) {
     console.error('Delete project error:', error)
     return NextResponse.json(
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { queueSecretRotation } from '@/lib/rotation'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+  }>
+}
+
+// Rotates one secret class; follow the returned job via the job stream
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const { secretClass } = await request.json()
+
+    if (typeof secretClass !== 'string') {
+      return NextResponse.json(
+        { error: 'secretClass is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await queueSecretRotation(id, secretClass, session.user.id)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.code === 'invalid_transition' ? 409 : 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { job: result.job, rotation: result.rotation },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Rotate secrets error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
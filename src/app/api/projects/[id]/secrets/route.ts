@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getLatestJob } from '@/lib/jobs'
+import { SECRET_CLASSES, listSecretRotations } from '@/lib/rotation'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+  }>
+}
+
+// Rotatable secret classes and the project's rotation history
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const [rotations, job] = await Promise.all([
+      listSecretRotations(id),
+      getLatestJob(id, 'rotate'),
+    ])
+
+    return NextResponse.json({ classes: SECRET_CLASSES, rotations, job })
+  } catch (error) {
+    console.error('Get secret rotations error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { getEnabledServices, updateProjectServices } from '@/lib/project'
+import { resolveServiceSet } from '@/lib/supabase-services'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const services = await getEnabledServices(id)
+
+    if (!services) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ services })
+  } catch (error) {
+    console.error('Get enabled services error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const { services } = await request.json()
+
+    if (!Array.isArray(services) || services.some((s) => typeof s !== 'string')) {
+      return NextResponse.json(
+        { error: 'services must be an array of service keys' },
+        { status: 400 }
+      )
+    }
+
+    const resolved = resolveServiceSet(services)
+    if (resolved.error) {
+      return NextResponse.json(
+        { error: resolved.error },
+        { status: 400 }
+      )
+    }
+
+    const result = await updateProjectServices(id, services)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true, services: result.services, warnings: result.warnings })
+  } catch (error) {
+    console.error('Update enabled services error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
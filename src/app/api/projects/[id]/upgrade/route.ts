@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { planProjectUpgrade, applyProjectUpgrade } from '@/lib/upgrade'
+
+interface RouteContext {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const target = request.nextUrl.searchParams.get('target')
+    if (!target) {
+      return NextResponse.json(
+        { error: 'target is required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await planProjectUpgrade(id, target)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ plan: result.plan })
+  } catch (error) {
+    console.error('Plan project upgrade error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const { targetVersionId, token } = await request.json()
+
+    if (typeof targetVersionId !== 'string' || typeof token !== 'string') {
+      return NextResponse.json(
+        { error: 'targetVersionId and token are required' },
+        { status: 400 }
+      )
+    }
+
+    const result = await applyProjectUpgrade(id, targetVersionId, token)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.code ? 409 : 500 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: true, job: result.job },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Apply project upgrade error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
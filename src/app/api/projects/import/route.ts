@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { importProject, saveUploadedArchive } from '@/lib/archive'
+
+// The request body is the raw .tar.gz archive; ?name= overrides the archived project name
+export async function POST(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    if (!request.body) {
+      return NextResponse.json(
+        { error: 'Archive file is required' },
+        { status: 400 }
+      )
+    }
+
+    const archiveFile = await saveUploadedArchive(request.body)
+    if (!archiveFile) {
+      return NextResponse.json(
+        { error: 'The upload did not complete' },
+        { status: 400 }
+      )
+    }
+
+    const name = request.nextUrl.searchParams.get('name') ?? undefined
+    const result = await importProject(archiveFile, session.user.id, { name })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(
+      { project: result.project, job: result.job, warnings: result.warnings },
+      { status: result.job ? 202 : 200 }
+    )
+  } catch (error) {
+    console.error('Import project error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
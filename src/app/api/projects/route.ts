@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { validateSession } from '@/lib/auth'
 import { createProject } from '@/lib/project'
+import { createProjectFromTemplate } from '@/lib/templates'
+import { availableActions } from '@/lib/lifecycle'
+import { resolveServiceSet } from '@/lib/supabase-services'
+import { getDefaultCoreVersion, isOutdated, type CoreVersionInfo } from '@/lib/core-versions'
 
 export async function GET(request: NextRequest) {
   try {
@@ -23,11 +27,20 @@ export async function GET(request: NextRequest) {
     }
 
     const projects = await prisma.project.findMany({
-      where: { ownerId: session.user.id },
+      where: { ownerId: session.user.id, status: { not: 'trashed' } },
       orderBy: { createdAt: 'desc' },
+      include: { coreVersion: { select: { id: true, ref: true, commit: true, status: true } } },
     })
+    const defaultVersion = await getDefaultCoreVersion()
 
-    return NextResponse.json({ projects })
+    return NextResponse.json({
+      projects: projects.map((project: { status: string; coreCommit: string | null; coreVersion: CoreVersionInfo | null }) => ({
+        ...project,
+        actions: availableActions(project.status),
+        outdated: isOutdated(project.coreCommit, defaultVersion),
+      })),
+      defaultVersion: defaultVersion ? { id: defaultVersion.id, ref: defaultVersion.ref, commit: defaultVersion.commit } : null,
+    })
   } catch (error) {
     console.error('Get projects error:', error)
     return NextResponse.json(
@@ -56,7 +69,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { name, description = '' } = await request.json()
+    const { name, description = '', services, coreVersionId, templateId } = await request.json()
 
     if (!name) {
       return NextResponse.json(
@@ -65,7 +78,19 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const result = await createProject(name, session.user.id, description)
+    if (services !== undefined) {
+      const resolved = Array.isArray(services) ? resolveServiceSet(services) : { error: 'services must be an array of service keys' }
+      if (resolved.error) {
+        return NextResponse.json(
+          { error: resolved.error },
+          { status: 400 }
+        )
+      }
+    }
+
+    const result = templateId
+      ? await createProjectFromTemplate(templateId, name, session.user.id, description, { services, coreVersionId })
+      : await createProject(name, session.user.id, description, { services, coreVersionId })
 
     if (!result.success) {
       return NextResponse.json(
@@ -74,7 +99,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    return NextResponse.json({ project: result.project })
+    return NextResponse.json({ project: result.project, warnings: result.warnings })
   } catch (error) {
     console.error('Create project error:', error)
     return NextResponse.json(
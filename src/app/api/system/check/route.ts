@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { validateSession } from '@/lib/auth'
+import { getContainerRuntime } from '@/lib/runtime'
 import { exec } from 'child_process'
 import { promisify } from 'util'
 
@@ -44,9 +45,11 @@ async function checkInternetConnectivity(): Promise<boolean> {
     // Ping failed
   }
   
-  // Method 4: Docker registry connectivity (original method as last resort)
+  // Method 4: Registry connectivity through the container engine (original method as last resort)
   try {
-    await execAsync('docker pull alpine:latest', { 
+    const runtime = getContainerRuntime()
+    if (runtime.name === 'simulated') return false
+    await execAsync(`${runtime.name} pull alpine:latest`, { 
       timeout: 30000,
       maxBuffer: 1024 * 1024 * 5 // 5MB buffer for Docker pull
     })
@@ -77,36 +80,18 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Check system prerequisites
+    // Check system prerequisites with the configured container runtime
+    const runtime = getContainerRuntime()
+    const { engine, running, compose } = await runtime.check()
     const checks = {
-      docker: false,
-      dockerCompose: false,
-      internetConnection: false,
-      dockerRunning: false,
+      docker: engine,
+      dockerCompose: compose,
+      dockerRunning: running,
+      // Multi-layered internet connectivity check
+      internetConnection: await checkInternetConnectivity(),
     }
-    
-    try {
-      await execAsync('docker --version')
-      checks.docker = true
-      
-      // Check if Docker daemon is running
-      await execAsync('docker info')
-      checks.dockerRunning = true
-    } catch {
-      // Docker not available or not running
-    }
-    
-    try {
-      await execAsync('docker compose version')
-      checks.dockerCompose = true
-    } catch {
-      // Docker Compose not available
-    }
-    
-    // Multi-layered internet connectivity check
-    checks.internetConnection = await checkInternetConnectivity()
 
-    return NextResponse.json({ checks })
+    return NextResponse.json({ checks, runtime: { name: runtime.name, label: runtime.label } })
   } catch (error) {
     console.error('System check error:', error)
     return NextResponse.json(
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validateSession } from '@/lib/auth'
+import { listTemplates, saveProjectAsTemplate } from '@/lib/templates'
+
+export async function GET(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const templates = await listTemplates(session.user.id)
+
+    return NextResponse.json({ templates })
+  } catch (error) {
+    console.error('Get templates error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Saves an existing project as a template
+export async function POST(request: NextRequest) {
+  try {
+    const sessionToken = request.cookies.get('session')?.value
+    
+    if (!sessionToken) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const session = await validateSession(sessionToken)
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid session' },
+        { status: 401 }
+      )
+    }
+
+    const { projectId, name, description = '', seedSql = '' } = await request.json()
+
+    if (!projectId || typeof projectId !== 'string') {
+      return NextResponse.json(
+        { error: 'A project is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!name || typeof name !== 'string') {
+      return NextResponse.json(
+        { error: 'Template name is required' },
+        { status: 400 }
+      )
+    }
+
+    if (typeof seedSql !== 'string') {
+      return NextResponse.json(
+        { error: 'seedSql must be a string' },
+        { status: 400 }
+      )
+    }
+
+    const result = await saveProjectAsTemplate(projectId, session.user.id, { name, description, seedSql })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ template: result.template, skipped: result.skipped })
+  } catch (error) {
+    console.error('Save template error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,145 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import Image from 'next/image'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import BackupList, { type Backup } from '@/components/BackupList'
+
+export default function AllBackupsPage() {
+  const router = useRouter()
+  const [backups, setBackups] = useState<Backup[]>([])
+  const [loading, setLoading] = useState(true)
+  const [running, setRunning] = useState(false)
+  const [log, setLog] = useState<string[]>([])
+  const [restoredProjectId, setRestoredProjectId] = useState('')
+  const [error, setError] = useState('')
+  const streamRef = useRef<EventSource | null>(null)
+
+  const fetchBackups = useCallback(async () => {
+    try {
+      const response = await fetch('/api/backups')
+      const data = await response.json()
+      if (response.ok) {
+        setBackups(data.backups)
+      } else {
+        setError(data.error || 'Failed to load backups')
+      }
+    } catch {
+      setError('Failed to load backups')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchBackups()
+    return () => streamRef.current?.close()
+  }, [fetchBackups])
+
+  const followRestore = (projectId: string, jobId: string) => {
+    streamRef.current?.close()
+    setRunning(true)
+    setLog([])
+    setError('')
+    setRestoredProjectId(projectId)
+    const source = new EventSource(`/api/projects/${projectId}/jobs/${jobId}/stream`)
+    streamRef.current = source
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data)
+      if (event.type === 'log') {
+        setLog(prev => [...prev, event.line])
+      } else if (event.type === 'done') {
+        source.close()
+        streamRef.current = null
+        setRunning(false)
+        if (event.status !== 'succeeded') {
+          setError(event.error || 'Restoring failed')
+        }
+        fetchBackups()
+      }
+    }
+
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        streamRef.current = null
+        setRunning(false)
+      }
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Image
+              src="/logo.png"
+              alt="SupaConsole"
+              width={150}
+              height={150}
+              className="object-contain"
+            />
+          </div>
+          <Link href="/dashboard">
+            <Button variant="outline">Back to Dashboard</Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto">
+          <div className="mb-8">
+            <h2 className="text-3xl font-bold mb-2">All Backups</h2>
+            <p className="text-muted-foreground">
+              Backups of every project, including deleted ones. Schedules are set on each project&apos;s Backups page.
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-500/10 border border-red-500/20 text-red-500 px-4 py-3 rounded whitespace-pre-line">
+              {error}
+            </div>
+          )}
+
+          {log.length > 0 && (
+            <div className="bg-card border rounded-lg p-4 mb-6">
+              <h4 className="font-medium mb-2">Restore Log</h4>
+              <pre className="max-h-80 overflow-auto text-xs font-mono whitespace-pre-wrap bg-black/80 text-gray-100 p-3 rounded">
+                {log.join('\n')}
+              </pre>
+              {restoredProjectId && !running && (
+                <Button className="mt-3" variant="outline" onClick={() => router.push(`/dashboard/projects/${restoredProjectId}/configure`)}>
+                  Open Restored Project
+                </Button>
+              )}
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Backups</CardTitle>
+              <CardDescription>Restoring creates a new project, deploys it and loads the backup into it</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <p className="text-sm text-muted-foreground">Loading...</p>
+              ) : (
+                <BackupList
+                  backups={backups}
+                  showProject
+                  disabled={running}
+                  onRestore={followRestore}
+                  onChange={fetchBackups}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
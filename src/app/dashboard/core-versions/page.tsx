@@ -0,0 +1,241 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+interface CoreVersion {
+  id: string
+  ref: string
+  commit: string | null
+  status: string
+  error: string | null
+  isDefault: boolean
+  projectCount: number
+  createdAt: string
+}
+
+const statusClasses: Record<string, string> = {
+  ready: 'bg-green-100 text-green-800',
+  cloning: 'bg-blue-100 text-blue-800',
+  failed: 'bg-red-100 text-red-800',
+}
+
+export default function CoreVersionsPage() {
+  const [versions, setVersions] = useState<CoreVersion[]>([])
+  const [ref, setRef] = useState('')
+  const [adding, setAdding] = useState(false)
+  const [busyId, setBusyId] = useState('')
+  const [error, setError] = useState('')
+
+  const fetchVersions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/core-versions')
+      const data = await response.json()
+      if (response.ok) {
+        setVersions(data.versions)
+      } else {
+        setError(data.error || 'Failed to load versions')
+      }
+    } catch {
+      setError('Failed to load versions')
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchVersions()
+  }, [fetchVersions])
+
+  // Poll while a checkout is running
+  useEffect(() => {
+    if (!versions.some((v) => v.status === 'cloning')) return
+    const timer = setInterval(fetchVersions, 3000)
+    return () => clearInterval(timer)
+  }, [versions, fetchVersions])
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!ref.trim()) return
+    setAdding(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/core-versions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ref: ref.trim() }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setRef('')
+        fetchVersions()
+      } else {
+        setError(data.error || 'Failed to add version')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setAdding(false)
+    }
+  }
+
+  const runAction = async (version: CoreVersion, action: 'default' | 'refresh' | 'delete') => {
+    if (action === 'delete' && !confirm(`Remove Supabase version ${version.ref} and its checkout?`)) return
+    setBusyId(version.id)
+    setError('')
+
+    try {
+      const response = action === 'delete'
+        ? await fetch(`/api/core-versions/${version.id}`, { method: 'DELETE' })
+        : await fetch(`/api/core-versions/${version.id}/${action}`, { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || `Failed to ${action} version`)
+      }
+      fetchVersions()
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setBusyId('')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Image
+              src="/logo.png"
+              alt="SupaConsole"
+              width={150}
+              height={150}
+              className="object-contain"
+            />
+          </div>
+          <Link href="/dashboard">
+            <Button variant="outline">Back to Dashboard</Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto">
+          <div className="mb-8">
+            <h2 className="text-3xl font-bold mb-2">Supabase Versions</h2>
+            <p className="text-muted-foreground">
+              Checked-out versions of the Supabase repository. New projects use the default version unless another is picked;
+              projects created from an older commit are marked as outdated on the dashboard.
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-500/10 border border-red-500/20 text-red-500 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Add Version</CardTitle>
+              <CardDescription>A tag, branch or commit SHA of the Supabase repository</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleAdd} className="flex gap-3 items-end">
+                <div className="space-y-2 flex-1">
+                  <Label htmlFor="ref">Ref</Label>
+                  <Input
+                    id="ref"
+                    type="text"
+                    placeholder="e.g. master or a commit SHA"
+                    value={ref}
+                    onChange={(e) => setRef(e.target.value)}
+                  />
+                </div>
+                <Button type="submit" disabled={adding || !ref.trim()}>
+                  {adding ? 'Adding...' : 'Add'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Versions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {versions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No versions yet. Initialize the workspace or add one above.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b">
+                      <th className="py-2 pr-4 font-medium">Ref</th>
+                      <th className="py-2 pr-4 font-medium">Commit</th>
+                      <th className="py-2 pr-4 font-medium">Status</th>
+                      <th className="py-2 pr-4 font-medium">Projects</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {versions.map((version) => (
+                      <tr key={version.id} className="border-b last:border-0 align-top">
+                        <td className="py-2 pr-4">
+                          {version.ref}
+                          {version.isDefault && (
+                            <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-800">default</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 font-mono text-xs">{version.commit ? version.commit.slice(0, 12) : '—'}</td>
+                        <td className="py-2 pr-4">
+                          <span className={`px-2 py-0.5 rounded-full text-xs ${statusClasses[version.status] || 'bg-gray-100 text-gray-800'}`}>
+                            {version.status}
+                          </span>
+                          {version.error && (
+                            <p className="text-xs text-red-500 mt-1 max-w-xs break-words">{version.error}</p>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4">{version.projectCount}</td>
+                        <td className="py-2">
+                          <div className="flex gap-2 justify-end">
+                            {!version.isDefault && version.status === 'ready' && (
+                              <Button size="sm" variant="outline" disabled={busyId === version.id} onClick={() => runAction(version, 'default')}>
+                                Make Default
+                              </Button>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={busyId === version.id || version.status === 'cloning'}
+                              onClick={() => runAction(version, 'refresh')}
+                            >
+                              Re-fetch
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="destructive"
+                              disabled={busyId === version.id || version.isDefault || version.projectCount > 0}
+                              onClick={() => runAction(version, 'delete')}
+                            >
+                              Remove
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import Image from 'next/image'
@@ -8,14 +8,78 @@ import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import ServiceSelector from '@/components/ServiceSelector'
+import ImportProject from '@/components/ImportProject'
+import { ALL_SERVICE_KEYS } from '@/lib/supabase-services'
+
+interface CoreVersion {
+  id: string
+  ref: string
+  commit: string | null
+  status: string
+  isDefault: boolean
+}
+
+interface Template {
+  id: string
+  name: string
+  description: string | null
+  builtIn: boolean
+  services: string[]
+  envOverrides: Record<string, string>
+  authSettings: Record<string, string>
+  seedSql: string | null
+}
 
 export default function CreateProjectPage() {
   const [name, setName] = useState('')
   const [description, setDescription] = useState('')
+  const [services, setServices] = useState<string[]>(ALL_SERVICE_KEYS)
+  const [versions, setVersions] = useState<CoreVersion[]>([])
+  const [coreVersionId, setCoreVersionId] = useState('')
+  const [templates, setTemplates] = useState<Template[]>([])
+  const [templateId, setTemplateId] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
+  const [created, setCreated] = useState<{ id: string; warnings: string[] } | null>(null)
   const router = useRouter()
 
+  useEffect(() => {
+    const loadVersions = async () => {
+      try {
+        const response = await fetch('/api/core-versions')
+        if (response.ok) {
+          const data = await response.json()
+          const ready = (data.versions as CoreVersion[]).filter((v) => v.status === 'ready')
+          setVersions(ready)
+          setCoreVersionId(ready.find((v) => v.isDefault)?.id || ready[0]?.id || '')
+        }
+      } catch (error) {
+        console.error('Failed to load core versions:', error)
+      }
+    }
+    const loadTemplates = async () => {
+      try {
+        const response = await fetch('/api/templates')
+        if (response.ok) {
+          const data = await response.json()
+          setTemplates(data.templates)
+        }
+      } catch (error) {
+        console.error('Failed to load templates:', error)
+      }
+    }
+    loadVersions()
+    loadTemplates()
+  }, [])
+
+  const template = templates.find((t) => t.id === templateId)
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id)
+    setServices(templates.find((t) => t.id === id)?.services ?? ALL_SERVICE_KEYS)
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const handleNameChange = (e: any) => {
     setName(e.target.value)
@@ -43,11 +107,22 @@ export default function CreateProjectPage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ name: name.trim(), description: description.trim() }),
+        body: JSON.stringify({
+          name: name.trim(),
+          description: description.trim(),
+          services,
+          coreVersionId: coreVersionId || undefined,
+          templateId: templateId || undefined,
+        }),
       })
 
       if (response.ok) {
         const data = await response.json()
+        if (data.warnings?.length > 0) {
+          // Let the user read what could not be applied before moving on
+          setCreated({ id: data.project.id, warnings: data.warnings })
+          return
+        }
         // Redirect to project configuration page
         router.push(`/dashboard/projects/${data.project.id}/configure`)
       } else {
@@ -89,7 +164,7 @@ export default function CreateProjectPage() {
             </p>
           </div>
 
-          <Card>
+          <Card className="mb-6">
             <CardHeader>
               <CardTitle>Project Details</CardTitle>
               <CardDescription>
@@ -97,6 +172,23 @@ export default function CreateProjectPage() {
               </CardDescription>
             </CardHeader>
             <CardContent>
+              {created ? (
+                <div className="space-y-6">
+                  <div className="bg-yellow-500/10 border border-yellow-500/20 text-yellow-600 px-4 py-3 rounded">
+                    <p className="text-sm font-semibold mb-2">
+                      The project was created, but some docker-compose.yml changes could not be applied:
+                    </p>
+                    <ul className="text-sm list-disc pl-5 space-y-1">
+                      {created.warnings.map((warning) => (
+                        <li key={warning}>{warning}</li>
+                      ))}
+                    </ul>
+                  </div>
+                  <Button onClick={() => router.push(`/dashboard/projects/${created.id}/configure`)}>
+                    Continue to Configuration
+                  </Button>
+                </div>
+              ) : (
               <form onSubmit={handleSubmit} className="space-y-6">
                 {error && (
                   <div className="bg-red-500/10 border border-red-500/20 text-red-500 px-4 py-3 rounded">
@@ -130,6 +222,69 @@ export default function CreateProjectPage() {
                   />
                 </div>
 
+                {templates.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="template">Template</Label>
+                    <select
+                      id="template"
+                      value={templateId}
+                      onChange={(e) => handleTemplateChange(e.target.value)}
+                      className="border-input dark:bg-input/30 flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+                    >
+                      <option value="">None (default configuration)</option>
+                      {templates.map((t) => (
+                        <option key={t.id} value={t.id}>
+                          {t.name}{t.builtIn ? ' — built-in' : ''}
+                        </option>
+                      ))}
+                    </select>
+                    {template ? (
+                      <div className="text-sm text-muted-foreground space-y-1">
+                        {template.description && <p>{template.description}</p>}
+                        <p>
+                          {Object.keys(template.envOverrides).length} env override(s), {Object.keys(template.authSettings).length} auth setting(s)
+                          {template.seedSql ? ', seed SQL that runs after the first deploy' : ''}
+                        </p>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">
+                        Templates preset services, env vars, auth settings and seed SQL. Manage them under{' '}
+                        <Link href="/dashboard/templates" className="underline">Templates</Link>.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {versions.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="coreVersion">Supabase Version</Label>
+                    <select
+                      id="coreVersion"
+                      value={coreVersionId}
+                      onChange={(e) => setCoreVersionId(e.target.value)}
+                      className="border-input dark:bg-input/30 flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+                    >
+                      {versions.map((v) => (
+                        <option key={v.id} value={v.id}>
+                          {v.ref}{v.commit ? ` (${v.commit.slice(0, 7)})` : ''}{v.isDefault ? ' — default' : ''}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="text-sm text-muted-foreground">
+                      Docker files are copied from this checkout. Manage versions under{' '}
+                      <Link href="/dashboard/core-versions" className="underline">Supabase Versions</Link>.
+                    </p>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label>Services</Label>
+                  <ServiceSelector selected={services} onChange={setServices} disabled={loading} />
+                  <p className="text-sm text-muted-foreground">
+                    Disabled services are left out of the project&apos;s docker-compose.yml. You can change this later.
+                  </p>
+                </div>
+
                 <div className="bg-blue-500/10 border border-blue-500/20 text-blue-500 px-4 py-3 rounded">
                   <p className="text-sm">
                     <strong>Next steps:</strong> After creation, you&apos;ll configure environment variables 
@@ -148,8 +303,11 @@ export default function CreateProjectPage() {
                   </Link>
                 </div>
               </form>
+              )}
             </CardContent>
           </Card>
+
+          <ImportProject />
         </div>
       </main>
     </div>
@@ -4,7 +4,10 @@ import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import Image from 'next/image'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import ServiceStatusPanel from '@/components/ServiceStatusPanel'
+import StatusHistoryPanel, { runtimeBadgeClasses } from '@/components/StatusHistoryPanel'
 
 interface Project {
   id: string
@@ -12,9 +15,28 @@ interface Project {
   slug: string
   description?: string
   status: string
+  runtimeStatus?: string | null // observed container state
+  actions?: ProjectAction[]
+  coreVersion?: { id: string; ref: string; commit: string | null } | null
+  coreCommit?: string | null
+  outdated?: boolean
+  needsRedeploy?: boolean // env vars changed since the last successful deploy
   createdAt: string
 }
 
+type ProjectAction = 'start' | 'stop' | 'restart'
+
+const statusBadgeClasses: Record<string, string> = {
+  active: 'bg-green-100 text-green-800',
+  paused: 'bg-yellow-100 text-yellow-800',
+  provisioning: 'bg-blue-100 text-blue-800',
+  starting: 'bg-blue-100 text-blue-800',
+  stopping: 'bg-blue-100 text-blue-800',
+  trashed: 'bg-gray-100 text-gray-800',
+  deleting: 'bg-red-100 text-red-800',
+  failed: 'bg-red-100 text-red-800',
+}
+
 export default function DashboardPage() {
   const [projects, setProjects] = useState<Project[]>([])
   const [loading, setLoading] = useState(true)
@@ -26,6 +48,10 @@ export default function DashboardPage() {
   const [projectUrls, setProjectUrls] = useState<Record<string, string>>({})
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [deleting, setDeleting] = useState(false)
+  const [deletePermanently, setDeletePermanently] = useState(false)
+  const [confirmName, setConfirmName] = useState('')
+  const [pendingAction, setPendingAction] = useState<ProjectAction | null>(null)
+  const [actionError, setActionError] = useState('')
   const router = useRouter()
 
   const fetchProjects = async () => {
@@ -133,7 +159,8 @@ export default function DashboardPage() {
     
     setDeleting(true)
     try {
-      const response = await fetch(`/api/projects/${selectedProject.id}`, {
+      const query = deletePermanently ? `?permanent=true&confirm=${encodeURIComponent(confirmName)}` : ''
+      const response = await fetch(`/api/projects/${selectedProject.id}${query}`, {
         method: 'DELETE',
       })
 
@@ -141,7 +168,7 @@ export default function DashboardPage() {
         // Remove project from local state
         setProjects(prev => prev.filter(p => p.id !== selectedProject.id))
         setSelectedProject(null)
-        setShowDeleteConfirm(false)
+        closeDeleteConfirm()
       } else {
         const data = await response.json()
         setError(data.error || 'Failed to delete project')
@@ -154,10 +181,45 @@ export default function DashboardPage() {
     }
   }
 
+  const closeDeleteConfirm = () => {
+    setShowDeleteConfirm(false)
+    setDeletePermanently(false)
+    setConfirmName('')
+  }
+
+  const handleLifecycleAction = async (action: ProjectAction) => {
+    if (!selectedProject) return
+
+    setPendingAction(action)
+    setActionError('')
+    try {
+      const response = await fetch(`/api/projects/${selectedProject.id}/${action}`, {
+        method: 'POST',
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        const updated = { ...selectedProject, status: data.status, actions: data.actions }
+        setSelectedProject(updated)
+        setProjects(prev => prev.map(p => p.id === updated.id ? updated : p))
+      } else {
+        setActionError(data.error || `Failed to ${action} project`)
+        // Status may have changed (e.g. to failed), so refresh the list
+        fetchProjects()
+      }
+    } catch (error) {
+      setActionError(`Failed to ${action} project`)
+      console.error(`Project ${action} error:`, error)
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
   const closeModal = () => {
     setSelectedProject(null)
     setShowDeleteConfirm(false)
     setProjectUrls({})
+    setActionError('')
   }
 
   useEffect(() => {
@@ -245,12 +307,29 @@ export default function DashboardPage() {
                 <h2 className="text-3xl font-bold">Projects</h2>
                 <p className="text-muted-foreground">Manage your Supabase projects</p>
               </div>
-              <Button onClick={handleCreateProject}>
-                <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-                </svg>
-                New Project
-              </Button>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => router.push('/dashboard/core-versions')}>
+                  Supabase Versions
+                </Button>
+                <Button variant="outline" onClick={() => router.push('/dashboard/ports')}>
+                  Ports
+                </Button>
+                <Button variant="outline" onClick={() => router.push('/dashboard/templates')}>
+                  Templates
+                </Button>
+                <Button variant="outline" onClick={() => router.push('/dashboard/backups')}>
+                  Backups
+                </Button>
+                <Button variant="outline" onClick={() => router.push('/dashboard/trash')}>
+                  Trash
+                </Button>
+                <Button onClick={handleCreateProject}>
+                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                  </svg>
+                  New Project
+                </Button>
+              </div>
             </div>
 
             {projects.length === 0 ? (
@@ -276,9 +355,7 @@ export default function DashboardPage() {
                       <div className="flex justify-between items-start">
                         <CardTitle className="text-lg">{project.name}</CardTitle>
                         <div className={`px-2 py-1 rounded-full text-xs ${
-                          project.status === 'active' ? 'bg-green-100 text-green-800' :
-                          project.status === 'paused' ? 'bg-yellow-100 text-yellow-800' :
-                          'bg-gray-100 text-gray-800'
+                          statusBadgeClasses[project.status] || 'bg-gray-100 text-gray-800'
                         }`}>
                           {project.status}
                         </div>
@@ -288,6 +365,33 @@ export default function DashboardPage() {
                       )}
                     </CardHeader>
                     <CardContent>
+                      <div className="flex items-center gap-2 mb-3 text-xs">
+                        <span className="text-muted-foreground">
+                          Supabase {project.coreVersion?.ref || 'legacy'}
+                          {project.coreCommit && ` (${project.coreCommit.slice(0, 7)})`}
+                        </span>
+                        {project.runtimeStatus && project.runtimeStatus !== 'running' && (
+                          <span
+                            className={`px-2 py-0.5 rounded-full ${runtimeBadgeClasses[project.runtimeStatus] || 'bg-gray-100 text-gray-800'}`}
+                            title="Observed container state"
+                          >
+                            containers {project.runtimeStatus}
+                          </span>
+                        )}
+                        {project.outdated && (
+                          <span className="px-2 py-0.5 rounded-full bg-orange-100 text-orange-800">
+                            Outdated
+                          </span>
+                        )}
+                        {project.needsRedeploy && (
+                          <span
+                            className="px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800"
+                            title="Environment variables changed since the last successful deploy"
+                          >
+                            Redeploy needed
+                          </span>
+                        )}
+                      </div>
                       <div className="flex justify-between items-center">
                         <span className="text-sm text-muted-foreground">
                           {project.slug}
@@ -312,7 +416,7 @@ export default function DashboardPage() {
       {/* Project Management Modal */}
       {selectedProject && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-          <div className="bg-white dark:bg-gray-900 rounded-lg max-w-md w-full mx-4">
+          <div className="bg-white dark:bg-gray-900 rounded-lg max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
             <div className="p-6">
               <div className="flex justify-between items-center mb-4">
                 <h3 className="text-lg font-semibold">Manage Project</h3>
@@ -327,8 +431,43 @@ export default function DashboardPage() {
               </div>
               
               <div className="mb-6">
-                <h4 className="font-medium text-gray-900 dark:text-white mb-2">{selectedProject.name}</h4>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="font-medium text-gray-900 dark:text-white">{selectedProject.name}</h4>
+                  <div className={`px-2 py-1 rounded-full text-xs ${
+                    statusBadgeClasses[selectedProject.status] || 'bg-gray-100 text-gray-800'
+                  }`}>
+                    {selectedProject.status}
+                  </div>
+                </div>
                 <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">{selectedProject.description}</p>
+
+                {/* Lifecycle actions */}
+                <div className="flex gap-2 mb-4">
+                  {(['start', 'stop', 'restart'] as ProjectAction[]).map((action) => (
+                    <Button
+                      key={action}
+                      variant="outline"
+                      size="sm"
+                      className="flex-1 capitalize"
+                      disabled={pendingAction !== null || !selectedProject.actions?.includes(action)}
+                      onClick={() => handleLifecycleAction(action)}
+                    >
+                      {pendingAction === action ? (
+                        <div className="flex items-center gap-2">
+                          <div className="w-3 h-3 border-2 border-current/30 border-t-current rounded-full animate-spin"></div>
+                          {action}...
+                        </div>
+                      ) : (
+                        action
+                      )}
+                    </Button>
+                  ))}
+                </div>
+                {actionError && (
+                  <div className="bg-red-500/10 border border-red-500/20 text-red-500 px-3 py-2 rounded mb-4 text-sm">
+                    {actionError}
+                  </div>
+                )}
                 
                 {/* Project URLs */}
                 <div className="space-y-2">
@@ -354,9 +493,19 @@ export default function DashboardPage() {
                     <p className="text-sm text-gray-500 dark:text-gray-400">No active services found</p>
                   )}
                 </div>
+
+                {/* Per-service container status */}
+                <div className="mt-4">
+                  <ServiceStatusPanel projectId={selectedProject.id} />
+                </div>
+
+                {/* Observed state and status history */}
+                <div className="mt-4">
+                  <StatusHistoryPanel projectId={selectedProject.id} onChecked={fetchProjects} />
+                </div>
               </div>
               
-              <div className="flex gap-3">
+              <div className="flex flex-wrap gap-3">
                 <Button
                   variant="outline"
                   onClick={() => router.push(`/dashboard/projects/${selectedProject.id}/configure`)}
@@ -368,6 +517,86 @@ export default function DashboardPage() {
                   </svg>
                   Configure
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => router.push(`/dashboard/projects/${selectedProject.id}/logs`)}
+                  className="flex-1"
+                >
+                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h10M4 18h7" />
+                  </svg>
+                  Logs
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => router.push(`/dashboard/projects/${selectedProject.id}/metrics`)}
+                  className="flex-1"
+                >
+                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 3v18h18M7 15l4-4 3 3 5-6" />
+                  </svg>
+                  Metrics
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => router.push(`/dashboard/projects/${selectedProject.id}/migrations`)}
+                  className="flex-1"
+                >
+                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7c0-1.657 3.582-3 8-3s8 1.343 8 3-3.582 3-8 3-8-1.343-8-3zm0 0v10c0 1.657 3.582 3 8 3s8-1.343 8-3V7m-8 4v6m-3-3h6" />
+                  </svg>
+                  Migrations
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => router.push(`/dashboard/projects/${selectedProject.id}/backups`)}
+                  className="flex-1"
+                >
+                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                  </svg>
+                  Backups
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => router.push(`/dashboard/projects/${selectedProject.id}/upgrade`)}
+                  className="flex-1"
+                >
+                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 10l7-7m0 0l7 7m-7-7v18" />
+                  </svg>
+                  Upgrade
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => router.push(`/dashboard/projects/${selectedProject.id}/clone`)}
+                  className="flex-1"
+                >
+                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                  </svg>
+                  Clone
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => router.push(`/dashboard/projects/${selectedProject.id}/export`)}
+                  className="flex-1"
+                >
+                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                  </svg>
+                  Export
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => router.push(`/dashboard/projects/${selectedProject.id}/secrets`)}
+                  className="flex-1"
+                >
+                  <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+                  </svg>
+                  Secrets
+                </Button>
                 <Button
                   variant="destructive"
                   onClick={() => setShowDeleteConfirm(true)}
@@ -397,7 +626,9 @@ export default function DashboardPage() {
                 </div>
                 <div>
                   <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Delete Project</h3>
-                  <p className="text-sm text-gray-600 dark:text-gray-400">This action cannot be undone</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {deletePermanently ? 'This action cannot be undone' : 'The project can be restored from Trash'}
+                  </p>
                 </div>
               </div>
               
@@ -408,17 +639,49 @@ export default function DashboardPage() {
                 <p className="text-sm text-gray-600 dark:text-gray-400">
                   This will:
                 </p>
-                <ul className="text-sm text-gray-600 dark:text-gray-400 mt-1 ml-4 list-disc">
-                  <li>Stop all running Docker containers</li>
-                  <li>Remove all project files and data</li>
-                  <li>Delete the project from the database</li>
-                </ul>
+                {deletePermanently ? (
+                  <ul className="text-sm text-gray-600 dark:text-gray-400 mt-1 ml-4 list-disc">
+                    <li>Stop all running Docker containers</li>
+                    <li>Remove all project files and data</li>
+                    <li>Delete the project from the database</li>
+                  </ul>
+                ) : (
+                  <ul className="text-sm text-gray-600 dark:text-gray-400 mt-1 ml-4 list-disc">
+                    <li>Stop all running Docker containers</li>
+                    <li>Unpublish the project&apos;s hostname</li>
+                    <li>Keep its files, data and ports until the trash is purged</li>
+                  </ul>
+                )}
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+                  Existing backups are kept and can be restored into a new project from Backups.
+                </p>
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 mt-4">
+                  <input
+                    type="checkbox"
+                    checked={deletePermanently}
+                    onChange={(e) => setDeletePermanently(e.target.checked)}
+                    disabled={deleting}
+                  />
+                  Delete permanently, skipping the trash
+                </label>
+                {deletePermanently && (
+                  <div className="mt-3 space-y-2">
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      Type <strong>{selectedProject.name}</strong> to confirm:
+                    </p>
+                    <Input
+                      value={confirmName}
+                      onChange={(e) => setConfirmName(e.target.value)}
+                      disabled={deleting}
+                    />
+                  </div>
+                )}
               </div>
               
               <div className="flex gap-3">
                 <Button
                   variant="outline"
-                  onClick={() => setShowDeleteConfirm(false)}
+                  onClick={closeDeleteConfirm}
                   className="flex-1"
                   disabled={deleting}
                 >
@@ -428,15 +691,17 @@ export default function DashboardPage() {
                   variant="destructive"
                   onClick={handleDeleteProject}
                   className="flex-1"
-                  disabled={deleting}
+                  disabled={deleting || (deletePermanently && confirmName !== selectedProject.name)}
                 >
                   {deleting ? (
                     <div className="flex items-center gap-2">
                       <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
                       Deleting...
                     </div>
+                  ) : deletePermanently ? (
+                    'Delete Permanently'
                   ) : (
-                    'Delete Project'
+                    'Move to Trash'
                   )}
                 </Button>
               </div>
@@ -0,0 +1,223 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface PortAllocation {
+  id: string
+  startPort: number
+  size: number
+  createdAt: string
+  ports: Record<string, number>
+  project: { id: string; name: string; slug: string; status: string }
+}
+
+interface PortConflict {
+  projectId: string
+  projectName: string
+  variable: string | null
+  port: number | null
+  kind: 'unallocated' | 'outside_block' | 'duplicate' | 'in_use'
+  message: string
+}
+
+const conflictLabels: Record<string, string> = {
+  unallocated: 'No block',
+  outside_block: 'Outside block',
+  duplicate: 'Duplicate',
+  in_use: 'In use on host',
+}
+
+export default function PortsPage() {
+  const [allocations, setAllocations] = useState<PortAllocation[]>([])
+  const [conflicts, setConflicts] = useState<PortConflict[]>([])
+  const [range, setRange] = useState<{ start: number; end: number } | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [repairingId, setRepairingId] = useState('')
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+
+  const fetchPorts = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/ports')
+      const data = await response.json()
+      if (response.ok) {
+        setAllocations(data.allocations)
+        setConflicts(data.conflicts)
+        setRange(data.range)
+      } else {
+        setError(data.error || 'Failed to load port allocations')
+      }
+    } catch {
+      setError('Failed to load port allocations')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPorts()
+  }, [fetchPorts])
+
+  const handleRepair = async (projectId: string, projectName: string) => {
+    setRepairingId(projectId)
+    setError('')
+    setNotice('')
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/ports/repair`, { method: 'POST' })
+      const data = await response.json()
+      if (response.ok) {
+        setNotice(data.changes.length > 0
+          ? `${projectName}: ${data.changes.map((c: { key: string; from: string; to: string }) => `${c.key} ${c.from} → ${c.to}`).join(', ')}. Redeploy the project to apply.`
+          : `${projectName}: ports already match the reserved block.`)
+        fetchPorts()
+      } else {
+        setError(data.error || 'Failed to repair ports')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setRepairingId('')
+    }
+  }
+
+  const conflictedProjects = [...new Map(conflicts.map((c) => [c.projectId, c.projectName])).entries()]
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Image
+              src="/logo.png"
+              alt="SupaConsole"
+              width={150}
+              height={150}
+              className="object-contain"
+            />
+          </div>
+          <Link href="/dashboard">
+            <Button variant="outline">Back to Dashboard</Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto">
+          <div className="mb-8 flex justify-between items-end">
+            <div>
+              <h2 className="text-3xl font-bold mb-2">Port Allocations</h2>
+              <p className="text-muted-foreground">
+                Host port blocks reserved per project
+                {range && ` in the range ${range.start}–${range.end}`}.
+              </p>
+            </div>
+            <Button variant="outline" onClick={fetchPorts} disabled={loading}>
+              {loading ? 'Checking...' : 'Refresh'}
+            </Button>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-500/10 border border-red-500/20 text-red-500 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+          {notice && (
+            <div className="mb-6 bg-green-500/10 border border-green-500/20 text-green-700 dark:text-green-400 px-4 py-3 rounded text-sm">
+              {notice}
+            </div>
+          )}
+
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Conflicts</CardTitle>
+              <CardDescription>
+                Repair moves a project&apos;s env ports onto its reserved block, reserving a new block if needed
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {conflictedProjects.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{loading ? 'Checking...' : 'No conflicts found.'}</p>
+              ) : (
+                <div className="space-y-4">
+                  {conflictedProjects.map(([projectId, projectName]) => (
+                    <div key={projectId} className="border rounded p-3">
+                      <div className="flex justify-between items-center mb-2">
+                        <h4 className="font-medium">{projectName}</h4>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={repairingId !== ''}
+                          onClick={() => handleRepair(projectId, projectName)}
+                        >
+                          {repairingId === projectId ? 'Repairing...' : 'Repair'}
+                        </Button>
+                      </div>
+                      <ul className="text-sm space-y-1">
+                        {conflicts.filter((c) => c.projectId === projectId).map((conflict, i) => (
+                          <li key={i} className="flex gap-2">
+                            <span className="px-2 py-0.5 rounded-full text-xs bg-orange-100 text-orange-800">
+                              {conflictLabels[conflict.kind]}
+                            </span>
+                            {conflict.variable && (
+                              <span className="font-mono text-xs self-center">{conflict.variable}={conflict.port}</span>
+                            )}
+                            <span className="text-muted-foreground self-center">{conflict.message}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Reserved Blocks</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {allocations.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No port blocks reserved yet.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b">
+                      <th className="py-2 pr-4 font-medium">Block</th>
+                      <th className="py-2 pr-4 font-medium">Project</th>
+                      <th className="py-2 font-medium">Ports</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {allocations.map((allocation) => (
+                      <tr key={allocation.id} className="border-b last:border-0 align-top">
+                        <td className="py-2 pr-4 font-mono text-xs whitespace-nowrap">
+                          {allocation.startPort}–{allocation.startPort + allocation.size - 1}
+                        </td>
+                        <td className="py-2 pr-4">
+                          {allocation.project.name}
+                          <span className="ml-2 text-xs text-muted-foreground">{allocation.project.status}</span>
+                        </td>
+                        <td className="py-2 font-mono text-xs">
+                          {Object.entries(allocation.ports).map(([variable, port]) => (
+                            <div key={variable}>{variable}={port}</div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
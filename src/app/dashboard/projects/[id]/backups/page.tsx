@@ -0,0 +1,309 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import Image from 'next/image'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import BackupList, { type Backup } from '@/components/BackupList'
+
+interface BackupsPageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+interface BackupPolicy {
+  schedule: string
+  retention: number
+  enabled: boolean
+  lastRunAt: string | null
+  nextRunAt: string | null
+  lastError: string | null
+}
+
+interface Job {
+  id: string
+  status: string
+}
+
+export default function BackupsPage({ params }: BackupsPageProps) {
+  const router = useRouter()
+  const [projectId, setProjectId] = useState<string>('')
+  const [backups, setBackups] = useState<Backup[]>([])
+  const [policy, setPolicy] = useState<BackupPolicy | null>(null)
+  const [schedule, setSchedule] = useState('0 3 * * *')
+  const [retention, setRetention] = useState('7')
+  const [enabled, setEnabled] = useState(true)
+  const [savingPolicy, setSavingPolicy] = useState(false)
+  const [running, setRunning] = useState(false)
+  const [log, setLog] = useState<string[]>([])
+  const [restoredProjectId, setRestoredProjectId] = useState('')
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+  const streamRef = useRef<EventSource | null>(null)
+
+  useEffect(() => {
+    params.then(({ id }) => setProjectId(id))
+  }, [params])
+
+  const fetchBackups = useCallback(async () => {
+    if (!projectId) return null
+    try {
+      const response = await fetch(`/api/projects/${projectId}/backups`)
+      const data = await response.json()
+      if (response.ok) {
+        setBackups(data.backups)
+        setPolicy(data.policy)
+        return [data.backupJob, data.restoreJob] as (Job | null)[]
+      }
+      setError(data.error || 'Failed to load backups')
+    } catch {
+      setError('Failed to load backups')
+    }
+    return null
+  }, [projectId])
+
+  // Follows a backup or restore job; restores into a new project run on that project
+  const followJob = useCallback((jobProjectId: string, jobId: string) => {
+    streamRef.current?.close()
+    setRunning(true)
+    setLog([])
+    setRestoredProjectId(jobProjectId !== projectId ? jobProjectId : '')
+    const source = new EventSource(`/api/projects/${jobProjectId}/jobs/${jobId}/stream`)
+    streamRef.current = source
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data)
+      if (event.type === 'log') {
+        setLog(prev => [...prev, event.line])
+      } else if (event.type === 'done') {
+        source.close()
+        streamRef.current = null
+        setRunning(false)
+        if (event.status !== 'succeeded') {
+          setError(event.error || 'The job failed')
+        }
+        fetchBackups()
+      }
+    }
+
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        streamRef.current = null
+        setRunning(false)
+      }
+    }
+  }, [projectId, fetchBackups])
+
+  // Reattach to a backup or restore that is still running
+  useEffect(() => {
+    fetchBackups().then((jobs) => {
+      const active = jobs?.find((job) => job && (job.status === 'queued' || job.status === 'running'))
+      if (active) {
+        followJob(projectId, active.id)
+      }
+    })
+  }, [fetchBackups, followJob, projectId])
+
+  useEffect(() => {
+    if (policy) {
+      setSchedule(policy.schedule)
+      setRetention(policy.retention.toString())
+      setEnabled(policy.enabled)
+    }
+  }, [policy])
+
+  useEffect(() => {
+    return () => streamRef.current?.close()
+  }, [])
+
+  const handleBackupNow = async () => {
+    setError('')
+    setNotice('')
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/backups`, { method: 'POST' })
+      const data = await response.json()
+      if (response.ok) {
+        followJob(projectId, data.job.id)
+      } else {
+        setError(data.error || 'Failed to start backup')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    }
+  }
+
+  const handleSavePolicy = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSavingPolicy(true)
+    setError('')
+    setNotice('')
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/backups/policy`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ schedule, retention: parseInt(retention, 10), enabled }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setPolicy(data.policy)
+        setNotice(data.policy.enabled
+          ? `Backup schedule saved. Next backup: ${new Date(data.policy.nextRunAt).toLocaleString()}.`
+          : 'Scheduled backups are disabled.')
+      } else {
+        setError(data.error || 'Failed to save backup schedule')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setSavingPolicy(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Image
+              src="/logo.png"
+              alt="SupaConsole"
+              width={150}
+              height={150}
+              className="object-contain"
+            />
+          </div>
+          <Link href="/dashboard">
+            <Button variant="outline">Back to Dashboard</Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto">
+          <div className="mb-8 flex justify-between items-end">
+            <div>
+              <h2 className="text-3xl font-bold mb-2">Backups</h2>
+              <p className="text-muted-foreground">
+                Dumps of the project database: every schema of your own plus auth and storage data
+              </p>
+            </div>
+            <Button onClick={handleBackupNow} disabled={running || !projectId}>
+              {running ? 'Working...' : 'Back Up Now'}
+            </Button>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-500/10 border border-red-500/20 text-red-500 px-4 py-3 rounded whitespace-pre-line">
+              {error}
+            </div>
+          )}
+          {notice && (
+            <div className="mb-6 bg-green-500/10 border border-green-500/20 text-green-700 dark:text-green-400 px-4 py-3 rounded text-sm">
+              {notice}
+            </div>
+          )}
+
+          {log.length > 0 && (
+            <div className="bg-card border rounded-lg p-4 mb-6">
+              <h4 className="font-medium mb-2">Job Log</h4>
+              <pre className="max-h-80 overflow-auto text-xs font-mono whitespace-pre-wrap bg-black/80 text-gray-100 p-3 rounded">
+                {log.join('\n')}
+              </pre>
+              {restoredProjectId && !running && (
+                <Button className="mt-3" variant="outline" onClick={() => router.push(`/dashboard/projects/${restoredProjectId}/configure`)}>
+                  Open Restored Project
+                </Button>
+              )}
+            </div>
+          )}
+
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Schedule</CardTitle>
+              <CardDescription>
+                Cron expression in server time, e.g. &quot;0 3 * * *&quot; for daily at 03:00. Only the newest scheduled backups are kept; manual ones stay until deleted.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSavePolicy} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="schedule">Schedule</Label>
+                    <Input
+                      id="schedule"
+                      type="text"
+                      value={schedule}
+                      onChange={(e) => setSchedule(e.target.value)}
+                      className="font-mono"
+                      disabled={savingPolicy}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="retention">Keep</Label>
+                    <Input
+                      id="retention"
+                      type="number"
+                      min={1}
+                      value={retention}
+                      onChange={(e) => setRetention(e.target.value)}
+                      disabled={savingPolicy}
+                    />
+                  </div>
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={(e) => setEnabled(e.target.checked)}
+                    disabled={savingPolicy}
+                  />
+                  Enable scheduled backups
+                </label>
+                {policy && (
+                  <p className="text-sm text-muted-foreground">
+                    Last run: {policy.lastRunAt ? new Date(policy.lastRunAt).toLocaleString() : 'never'}
+                    {policy.enabled && policy.nextRunAt && ` · Next run: ${new Date(policy.nextRunAt).toLocaleString()}`}
+                  </p>
+                )}
+                {policy?.lastError && (
+                  <p className="text-sm text-red-500">Last run failed: {policy.lastError}</p>
+                )}
+                <Button type="submit" variant="outline" disabled={savingPolicy || !projectId}>
+                  {savingPolicy ? 'Saving...' : 'Save Schedule'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Backups</CardTitle>
+              <CardDescription>
+                Restoring here backs up the current database first. Backups are kept when the project is deleted; find them under{' '}
+                <Link href="/dashboard/backups" className="underline">All Backups</Link>.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <BackupList
+                backups={backups}
+                projectId={projectId}
+                disabled={running}
+                onRestore={followJob}
+                onChange={fetchBackups}
+              />
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,230 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import Image from 'next/image'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+interface CloneProjectPageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+export default function CloneProjectPage({ params }: CloneProjectPageProps) {
+  const router = useRouter()
+  const [projectId, setProjectId] = useState<string>('')
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [includeData, setIncludeData] = useState(true)
+  const [includeStorage, setIncludeStorage] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [cloneId, setCloneId] = useState('')
+  const [running, setRunning] = useState(false)
+  const [finished, setFinished] = useState(false)
+  const [log, setLog] = useState<string[]>([])
+  const [error, setError] = useState('')
+  const streamRef = useRef<EventSource | null>(null)
+  const logRef = useRef<HTMLPreElement>(null)
+
+  useEffect(() => {
+    params.then(({ id }) => setProjectId(id))
+  }, [params])
+
+  useEffect(() => {
+    return () => streamRef.current?.close()
+  }, [])
+
+  useEffect(() => {
+    if (logRef.current) {
+      logRef.current.scrollTop = logRef.current.scrollHeight
+    }
+  }, [log])
+
+  // Follow the clone job on the new project until it finishes
+  const followJob = (newProjectId: string, jobId: string) => {
+    setRunning(true)
+    const source = new EventSource(`/api/projects/${newProjectId}/jobs/${jobId}/stream`)
+    streamRef.current = source
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data)
+      if (event.type === 'log') {
+        setLog(prev => [...prev, event.line])
+      } else if (event.type === 'done') {
+        source.close()
+        streamRef.current = null
+        setRunning(false)
+        if (event.status === 'succeeded') {
+          setFinished(true)
+        } else {
+          setError(event.error || 'Cloning failed')
+        }
+      }
+    }
+
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        streamRef.current = null
+        setRunning(false)
+        setError('Lost connection to the clone log stream.')
+      }
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) {
+      setError('Project name is required')
+      return
+    }
+    setSubmitting(true)
+    setError('')
+    setLog([])
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/clone`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: name.trim(),
+          description: description.trim(),
+          includeData,
+          includeStorage: includeData && includeStorage,
+        }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setCloneId(data.project.id)
+        followJob(data.project.id, data.job.id)
+      } else {
+        setError(data.error || 'Failed to clone project')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Image
+              src="/logo.png"
+              alt="SupaConsole"
+              width={150}
+              height={150}
+              className="object-contain"
+            />
+          </div>
+          <Link href="/dashboard">
+            <Button variant="outline">Back to Dashboard</Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <div className="mb-8">
+            <h2 className="text-3xl font-bold mb-2">Clone Project</h2>
+            <p className="text-muted-foreground">
+              Create a new project from this one. The clone gets its own slug, ports and secrets; everything else is copied.
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-500/10 border border-red-500/20 text-red-500 px-4 py-3 rounded whitespace-pre-line">
+              {error}
+            </div>
+          )}
+
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>New Project</CardTitle>
+              <CardDescription>Copying the database deploys the clone and restores a dump of the source into it</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Project Name *</Label>
+                  <Input
+                    id="name"
+                    type="text"
+                    placeholder="my-project-copy"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    disabled={submitting || running || !!cloneId}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="description">Description</Label>
+                  <Input
+                    id="description"
+                    type="text"
+                    placeholder="Optional"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    disabled={submitting || running || !!cloneId}
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={includeData}
+                    onChange={(e) => setIncludeData(e.target.checked)}
+                    disabled={submitting || running || !!cloneId}
+                  />
+                  Copy the database (your schemas, auth users and storage metadata)
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={includeData && includeStorage}
+                    onChange={(e) => setIncludeStorage(e.target.checked)}
+                    disabled={!includeData || submitting || running || !!cloneId}
+                  />
+                  Copy storage files
+                </label>
+                <Button type="submit" disabled={submitting || running || !!cloneId || !projectId}>
+                  {submitting ? 'Creating...' : running ? 'Cloning...' : 'Clone Project'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+
+          {log.length > 0 && (
+            <div className="bg-card border rounded-lg p-4 mb-6">
+              <h4 className="font-medium mb-2">Clone Log</h4>
+              <pre
+                ref={logRef}
+                className="max-h-80 overflow-auto text-xs font-mono whitespace-pre-wrap bg-black/80 text-gray-100 p-3 rounded"
+              >
+                {log.join('\n')}
+              </pre>
+            </div>
+          )}
+
+          {cloneId && !running && (
+            <div className="flex gap-3">
+              <Button onClick={() => router.push(`/dashboard/projects/${cloneId}/configure`)}>
+                {finished ? 'Open Clone' : 'Open Clone Configuration'}
+              </Button>
+              <Button variant="outline" onClick={() => router.push('/dashboard')}>
+                Back to Dashboard
+              </Button>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
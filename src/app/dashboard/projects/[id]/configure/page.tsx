@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
 import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import Image from 'next/image'
@@ -9,6 +9,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import PasswordField from '@/components/PasswordField'
+import ServiceSelector from '@/components/ServiceSelector'
+import DeploymentHistory from '@/components/DeploymentHistory'
+import EnvHistory from '@/components/EnvHistory'
+import { ALL_SERVICE_KEYS, disabledEnvKeys } from '@/lib/supabase-services'
+import { ENV_CATALOG, ENV_GROUPS, type EnvVarSpec } from '@/lib/env-catalog'
 
 interface ConfigureProjectPageProps {
   params: Promise<{
@@ -16,92 +21,27 @@ interface ConfigureProjectPageProps {
   }>
 }
 
+interface EnvFileDrift {
+  missingFile: boolean
+  added: string[]
+  removed: string[]
+  changed: string[]
+}
+
+interface KeyCheck {
+  key: string
+  role: string
+  valid: boolean
+  error: string | null
+  expiresAt: string | null
+}
+
 export default function ConfigureProjectPage({ params }: ConfigureProjectPageProps) {
-  const [envVars, setEnvVars] = useState({
-    // Secrets
-    POSTGRES_PASSWORD: 'your-super-secret-and-long-postgres-password',
-    JWT_SECRET: 'your-super-secret-jwt-token-with-at-least-32-characters-long',
-    ANON_KEY: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyAgCiAgICAicm9sZSI6ICJhbm9uIiwKICAgICJpc3MiOiAic3VwYWJhc2UtZGVtbyIsCiAgICAiaWF0IjogMTY0MTc2OTIwMCwKICAgICJleHAiOiAxNzk5NTM1NjAwCn0.dc_X5iR_VP_qT0zsiyj_I_OZ2T9FtRU2BBNWN8Bu4GE',
-    SERVICE_ROLE_KEY: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyAgCiAgICAicm9sZSI6ICJzZXJ2aWNlX3JvbGUiLAogICAgImlzcyI6ICJzdXBhYmFzZS1kZW1vIiwKICAgICJpYXQiOiAxNjQxNzY5MjAwLAogICAgImV4cCI6IDE3OTk1MzU2MDAKfQ.DaYlNEoUrrEn2Ig7tqibS-PHK5vgusbcbo7X36XVt4Q',
-    DASHBOARD_USERNAME: 'supabase',
-    DASHBOARD_PASSWORD: 'this_password_is_insecure_and_should_be_updated',
-    SECRET_KEY_BASE: 'UpNVntn3cDxHJpq99YMc1T1AQgQpc8kfYTuRgBiYa15BLrx8etQoXz3gZv1/u2oq',
-    VAULT_ENC_KEY: 'your-encryption-key-32-chars-min',
-    
-    // Database
-    POSTGRES_HOST: 'db',
-    POSTGRES_DB: 'postgres',
-    POSTGRES_PORT: '5432',
-    
-    // Supavisor
-    POOLER_PROXY_PORT_TRANSACTION: '6543',
-    POOLER_DEFAULT_POOL_SIZE: '20',
-    POOLER_MAX_CLIENT_CONN: '100',
-    POOLER_TENANT_ID: 'your-tenant-id',
-    POOLER_DB_POOL_SIZE: '5',
-    
-    // Kong
-    KONG_HTTP_PORT: '8000',
-    KONG_HTTPS_PORT: '8443',
-    
-    // Analytics
-    ANALYTICS_PORT: '4000',
-    
-    // PostgREST
-    PGRST_DB_SCHEMAS: 'public,storage,graphql_public',
-    
-    // Auth
-    SITE_URL: 'http://localhost:3000',
-    ADDITIONAL_REDIRECT_URLS: '',
-    JWT_EXPIRY: '3600',
-    DISABLE_SIGNUP: 'false',
-    API_EXTERNAL_URL: 'http://localhost:8000',
-    
-    // Mailer
-    MAILER_URLPATHS_CONFIRMATION: '/auth/v1/verify',
-    MAILER_URLPATHS_INVITE: '/auth/v1/verify',
-    MAILER_URLPATHS_RECOVERY: '/auth/v1/verify',
-    MAILER_URLPATHS_EMAIL_CHANGE: '/auth/v1/verify',
-    
-    // Email auth
-    ENABLE_EMAIL_SIGNUP: 'true',
-    ENABLE_EMAIL_AUTOCONFIRM: 'false',
-    SMTP_ADMIN_EMAIL: 'admin@example.com',
-    SMTP_HOST: 'supabase-mail',
-    SMTP_PORT: '2500',
-    SMTP_USER: 'fake_mail_user',
-    SMTP_PASS: 'fake_mail_password',
-    SMTP_SENDER_NAME: 'fake_sender',
-    ENABLE_ANONYMOUS_USERS: 'false',
-    
-    // Phone auth
-    ENABLE_PHONE_SIGNUP: 'true',
-    ENABLE_PHONE_AUTOCONFIRM: 'true',
-    
-    // Studio
-    STUDIO_DEFAULT_ORGANIZATION: 'Default Organization',
-    STUDIO_DEFAULT_PROJECT: 'Default Project',
-    STUDIO_PORT: '3000',
-    SUPABASE_PUBLIC_URL: 'http://localhost:8000',
-    
-    // ImgProxy
-    IMGPROXY_ENABLE_WEBP_DETECTION: 'true',
-    
-    // OpenAI
-    OPENAI_API_KEY: '',
-    
-    // Functions
-    FUNCTIONS_VERIFY_JWT: 'false',
-    
-    // Logs
-    LOGFLARE_PUBLIC_ACCESS_TOKEN: 'your-super-secret-and-long-logflare-key-public',
-    LOGFLARE_PRIVATE_ACCESS_TOKEN: 'your-super-secret-and-long-logflare-key-private',
-    DOCKER_SOCKET_LOCATION: '/var/run/docker.sock',
-    
-    // Google Cloud
-    GOOGLE_PROJECT_ID: 'GOOGLE_PROJECT_ID',
-    GOOGLE_PROJECT_NUMBER: 'GOOGLE_PROJECT_NUMBER'
-  })
+  // Upstream defaults for plain settings; secrets stay empty until the project's values load
+  const [envVars, setEnvVars] = useState<Record<string, string>>(() =>
+    Object.fromEntries(ENV_CATALOG.map((spec) => [spec.key, spec.default ?? '']))
+  )
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
   const [loading, setLoading] = useState(false)
   const [deploying, setDeploying] = useState(false)
   const [error, setError] = useState('')
@@ -114,76 +54,196 @@ export default function ConfigureProjectPage({ params }: ConfigureProjectPagePro
     internetConnection: boolean;
   } | null>(null)
   const [checkingSystem, setCheckingSystem] = useState(false)
+  const [deployLog, setDeployLog] = useState<string[]>([])
+  const [services, setServices] = useState<string[]>(ALL_SERVICE_KEYS)
+  const [savingServices, setSavingServices] = useState(false)
+  const [keyChecks, setKeyChecks] = useState<KeyCheck[] | null>(null)
+  const [verifyingKeys, setVerifyingKeys] = useState(false)
+  const [envRevision, setEnvRevision] = useState(0)
+  const [envDrift, setEnvDrift] = useState<EnvFileDrift | null>(null)
+  const deployStreamRef = useRef<EventSource | null>(null)
+  const deployLogRef = useRef<HTMLPreElement | null>(null)
   const router = useRouter()
   
   useEffect(() => {
     params.then(({ id }) => setProjectId(id))
   }, [params])
 
+  const loadEnvVars = useCallback(async () => {
+    if (!projectId) return
+    try {
+      const response = await fetch(`/api/projects/${projectId}/env`)
+      if (response.ok) {
+        const data = await response.json()
+        setEnvDrift(data.drift)
+        if (data.envVars && Object.keys(data.envVars).length > 0) {
+          setEnvVars(prev => ({
+            ...prev,
+            ...data.envVars
+          }))
+        }
+      }
+    } catch (error) {
+      console.error('Failed to load environment variables:', error)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    loadEnvVars()
+  }, [loadEnvVars])
+
   useEffect(() => {
     if (!projectId) return
-    const loadEnvVars = async () => {
+    const loadServices = async () => {
       try {
-        const response = await fetch(`/api/projects/${projectId}/env`)
+        const response = await fetch(`/api/projects/${projectId}/services/enabled`)
         if (response.ok) {
           const data = await response.json()
-          if (data.envVars && Object.keys(data.envVars).length > 0) {
-            setEnvVars(prev => ({
-              ...prev,
-              ...data.envVars
-            }))
-          }
+          setServices(data.services)
         }
       } catch (error) {
-        console.error('Failed to load environment variables:', error)
+        console.error('Failed to load enabled services:', error)
       }
     }
-    loadEnvVars()
+    loadServices()
   }, [projectId])
 
-  const generateSecureKey = (length: number = 32) => {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
-    let result = ''
-    for (let i = 0; i < length; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length))
+  // Follow a deploy job's output over Server-Sent Events until it finishes
+  const attachToDeployJob = useCallback((jobId: string) => {
+    deployStreamRef.current?.close()
+    setDeploying(true)
+    setDeployLog([])
+
+    const source = new EventSource(`/api/projects/${projectId}/jobs/${jobId}/stream`)
+    deployStreamRef.current = source
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data)
+      if (event.type === 'log') {
+        setDeployLog(prev => [...prev, event.line])
+      } else if (event.type === 'done') {
+        source.close()
+        deployStreamRef.current = null
+        setDeploying(false)
+        if (event.status === 'succeeded') {
+          const domainInfo = event.result?.publicUrl ? ` Public URL: ${event.result.publicUrl}` : ''
+          setSuccess(`Project deployed successfully!${domainInfo}`)
+          setTimeout(() => {
+            router.push('/dashboard')
+          }, 2000)
+        } else {
+          setError(event.error || 'Failed to deploy project')
+        }
+      }
+    }
+
+    source.onerror = () => {
+      // The browser retries on its own; only give up once the stream is closed for good
+      if (source.readyState === EventSource.CLOSED) {
+        deployStreamRef.current = null
+        setDeploying(false)
+        setError('Lost connection to the deployment log stream.')
+      }
+    }
+  }, [projectId, router])
+
+  useEffect(() => {
+    if (!projectId) return
+    const reattachToDeploy = async () => {
+      try {
+        const response = await fetch(`/api/projects/${projectId}/deploy`)
+        if (response.ok) {
+          const data = await response.json()
+          if (data.job && (data.job.status === 'queued' || data.job.status === 'running')) {
+            attachToDeployJob(data.job.id)
+          }
+        }
+      } catch (error) {
+        console.error('Failed to load deployment status:', error)
+      }
+    }
+    reattachToDeploy()
+  }, [projectId, attachToDeployJob])
+
+  useEffect(() => {
+    return () => deployStreamRef.current?.close()
+  }, [])
+
+  useEffect(() => {
+    if (deployLogRef.current) {
+      deployLogRef.current.scrollTop = deployLogRef.current.scrollHeight
+    }
+  }, [deployLog])
+
+  // Secrets come from the server's CSPRNG; the API keys are signed with the new JWT secret
+  const requestSecrets = async (body: { jwtSecret?: string }) => {
+    setError('')
+    setKeyChecks(null)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/keys/generate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to generate secrets')
+        return null
+      }
+      return data.secrets as Record<string, string>
+    } catch {
+      setError('Failed to generate secrets')
+      return null
     }
-    return result
   }
 
-  const handleGenerateSecrets = () => {
-    const jwtSecret = generateSecureKey(64)
-    const projectId = `project-${Date.now()}`
-    
+  const handleGenerateSecrets = async () => {
+    const secrets = await requestSecrets({})
+    if (!secrets) return
     setEnvVars(prev => ({
       ...prev,
-      POSTGRES_PASSWORD: generateSecureKey(32),
-      JWT_SECRET: jwtSecret,
-      ANON_KEY: `eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.${btoa(JSON.stringify({
-        role: 'anon',
-        iss: 'supabase',
-        iat: Math.floor(Date.now() / 1000),
-        exp: Math.floor(Date.now() / 1000) + (365 * 24 * 60 * 60)
-      }))}.${generateSecureKey(43)}`,
-      SERVICE_ROLE_KEY: `eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.${btoa(JSON.stringify({
-        role: 'service_role',
-        iss: 'supabase',
-        iat: Math.floor(Date.now() / 1000),
-        exp: Math.floor(Date.now() / 1000) + (365 * 24 * 60 * 60)
-      }))}.${generateSecureKey(43)}`,
-      DASHBOARD_PASSWORD: generateSecureKey(16),
-      SECRET_KEY_BASE: generateSecureKey(64),
-      VAULT_ENC_KEY: generateSecureKey(32),
-      POOLER_TENANT_ID: projectId,
-      LOGFLARE_PUBLIC_ACCESS_TOKEN: generateSecureKey(64),
-      LOGFLARE_PRIVATE_ACCESS_TOKEN: generateSecureKey(64),
+      ...secrets,
+      POOLER_TENANT_ID: `project-${Date.now()}`,
     }))
   }
 
+  const handleSignKeys = async () => {
+    const secrets = await requestSecrets({ jwtSecret: envVars.JWT_SECRET })
+    if (!secrets) return
+    setEnvVars(prev => ({ ...prev, ...secrets }))
+  }
+
+  const handleVerifyKeys = async () => {
+    setVerifyingKeys(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/keys/verify`)
+      const data = await response.json()
+      if (response.ok) {
+        setKeyChecks(data.checks)
+      } else {
+        setError(data.error || 'Failed to verify keys')
+      }
+    } catch {
+      setError('Failed to verify keys')
+    } finally {
+      setVerifyingKeys(false)
+    }
+  }
+
   const handleInputChange = (key: string, value: string) => {
     setEnvVars(prev => ({
       ...prev,
       [key]: value
     }))
+    setFieldErrors(prev => {
+      if (!(key in prev)) return prev
+      const next = { ...prev }
+      delete next[key]
+      return next
+    })
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -216,18 +276,28 @@ export default function ConfigureProjectPage({ params }: ConfigureProjectPagePro
     setSuccess('')
 
     try {
+      // Don't write back defaults for services the project doesn't run
+      const values = Object.fromEntries(Object.entries(envVars).filter(([key]) => !hiddenKeys.includes(key)))
+
       const response = await fetch(`/api/projects/${projectId}/env`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(envVars),
+        body: JSON.stringify(values),
       })
 
+      const data = await response.json()
       if (response.ok) {
-        setSuccess('Configuration saved successfully!')
+        const overwritten = data.drift ? [...data.drift.added, ...data.drift.removed, ...data.drift.changed] : []
+        setFieldErrors({})
+        setEnvDrift(null)
+        setSuccess(overwritten.length > 0
+          ? `Configuration saved successfully! Hand edits to .env were replaced: ${overwritten.join(', ')}`
+          : 'Configuration saved successfully!')
+        setEnvRevision((n) => n + 1)
       } else {
-        const data = await response.json()
+        setFieldErrors(data.fieldErrors || {})
         setError(data.error || 'Failed to save configuration')
       }
     } catch {
@@ -237,6 +307,47 @@ export default function ConfigureProjectPage({ params }: ConfigureProjectPagePro
     }
   }
 
+  const handleEnvReverted = (version: number, kept: string[]) => {
+    setError('')
+    setFieldErrors({})
+    setKeyChecks(null)
+    const keptInfo = kept.length > 0 ? ` Kept the current values of ${kept.join(', ')}.` : ''
+    setSuccess(`Reverted to version ${version}.${keptInfo} Redeploy the project to apply it.`)
+    loadEnvVars()
+  }
+
+  const handleSaveServices = async () => {
+    setSavingServices(true)
+    setError('')
+    setSuccess('')
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/services/enabled`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ services }),
+      })
+
+      const data = await response.json()
+      if (response.ok) {
+        setServices(data.services)
+        setSuccess('Services updated. Redeploy the project to apply the change.')
+        setEnvRevision((n) => n + 1)
+        if (data.warnings?.length > 0) {
+          setError(`Some docker-compose.yml changes could not be applied:\n${data.warnings.join('\n')}`)
+        }
+      } else {
+        setError(data.error || 'Failed to update services')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setSavingServices(false)
+    }
+  }
+
   const handleDeployProject = async () => {
     setDeploying(true)
     setError('')
@@ -246,24 +357,70 @@ export default function ConfigureProjectPage({ params }: ConfigureProjectPagePro
         method: 'POST',
       })
 
+      const data = await response.json()
       if (response.ok) {
-        const data = await response.json()
-        const domainInfo = data.publicUrl ? ` Public URL: ${data.publicUrl}` : ''
-        setSuccess(`Project deployed successfully!${domainInfo}`)
-        setTimeout(() => {
-          router.push('/dashboard')
-        }, 2000)
+        attachToDeployJob(data.job.id)
       } else {
-        const data = await response.json()
         setError(data.error || 'Failed to deploy project')
+        setDeploying(false)
       }
     } catch {
       setError('An error occurred during deployment.')
-    } finally {
       setDeploying(false)
     }
   }
 
+  // Fields of services the project does not run are neither shown nor saved
+  const hiddenKeys = disabledEnvKeys(services)
+
+  const renderField = (spec: EnvVarSpec) => {
+    const id = spec.key.toLowerCase()
+    const value = envVars[spec.key] ?? ''
+    const fieldError = fieldErrors[spec.key]
+    return (
+      <div key={spec.key} className="space-y-2">
+        <Label htmlFor={id}>{spec.label}{spec.optional && ' (Optional)'}</Label>
+        {spec.type === 'boolean' ? (
+          <label className="flex items-center gap-2 text-sm h-9">
+            <input
+              id={id}
+              type="checkbox"
+              checked={value === 'true'}
+              onChange={(e) => handleInputChange(spec.key, e.target.checked ? 'true' : 'false')}
+            />
+            {value === 'true' ? 'Enabled' : 'Disabled'}
+          </label>
+        ) : spec.secret ? (
+          <PasswordField
+            id={id}
+            value={value}
+            onChange={createInputHandler(spec.key)}
+            aria-invalid={!!fieldError}
+          />
+        ) : (
+          <Input
+            id={id}
+            type={spec.type === 'email' ? 'email' : 'text'}
+            value={value}
+            onChange={createInputHandler(spec.key)}
+            aria-invalid={!!fieldError}
+          />
+        )}
+        {fieldError ? (
+          <p className="text-xs text-red-500">{fieldError}</p>
+        ) : (
+          <p className="text-xs text-muted-foreground">{spec.description}</p>
+        )}
+        {spec.restart === 'rotation' && (
+          <p className="text-xs text-yellow-600">
+            The database keeps the old value after a deploy. Change it from the{' '}
+            <Link href={`/dashboard/projects/${projectId}/secrets`} className="underline">Secrets</Link> page instead.
+          </p>
+        )}
+      </div>
+    )
+  }
+
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b">
@@ -288,7 +445,7 @@ export default function ConfigureProjectPage({ params }: ConfigureProjectPagePro
           <div className="mb-8">
             <h2 className="text-3xl font-bold mb-2">Configure Project Environment</h2>
             <p className="text-muted-foreground">
-              Configure all environment variables for your Supabase project. All fields are pre-filled with default values from the official Supabase template.
+              Configure the environment variables of your Supabase project. Values are checked when you save, and each field explains what it does.
             </p>
           </div>
 
@@ -299,377 +456,92 @@ export default function ConfigureProjectPage({ params }: ConfigureProjectPagePro
           )}
 
           {error && (
-            <div className="mb-6 bg-red-500/10 border border-red-500/20 text-red-500 px-4 py-3 rounded">
+            <div className="mb-6 bg-red-500/10 border border-red-500/20 text-red-500 px-4 py-3 rounded whitespace-pre-line">
               {error}
             </div>
           )}
 
+          {envDrift && (
+            <div className="mb-6 bg-yellow-500/10 border border-yellow-500/20 text-yellow-600 px-4 py-3 rounded text-sm">
+              {envDrift.missingFile ? (
+                <>The project&apos;s .env file is missing. Saving the configuration writes it again.</>
+              ) : (
+                <>
+                  The project&apos;s .env file was edited outside the console.
+                  {envDrift.changed.length > 0 && ` Changed: ${envDrift.changed.join(', ')}.`}
+                  {envDrift.added.length > 0 && ` Only in the file: ${envDrift.added.join(', ')}.`}
+                  {envDrift.removed.length > 0 && ` Missing from the file: ${envDrift.removed.join(', ')}.`}
+                  {' '}The next deploy uses the file as it is; saving the configuration replaces it with the values shown here.
+                </>
+              )}
+            </div>
+          )}
+
           <div className="bg-blue-500/10 border border-blue-500/20 text-blue-500 px-4 py-3 rounded mb-6">
             <p className="text-sm">
-              <strong>Important:</strong> The form below is pre-filled with default values from the Supabase configuration template. 
-              You MUST change the default passwords, secrets, and keys before deploying to production for security reasons.
+              <strong>Important:</strong> Secrets are generated for each project. The placeholder passwords and keys from the Supabase
+              template are rejected; generate new values instead of reusing them.
             </p>
           </div>
 
           <div className="space-y-6">
-            <Card>
-              <CardHeader>
-                <CardTitle>🔐 Secrets (Critical - Must Change for Production)</CardTitle>
-                <CardDescription>
-                  These are the most critical security settings. Generate new secure values for production use.
-                </CardDescription>
-                <Button 
-                  onClick={handleGenerateSecrets}
-                  variant="outline"
-                  type="button"
-                >
-                  Generate New Secure Secrets
-                </Button>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="postgres_password">PostgreSQL Password</Label>
-                    <PasswordField
-                      id="postgres_password"
-                      value={envVars.POSTGRES_PASSWORD}
-                      onChange={createInputHandler('POSTGRES_PASSWORD')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="jwt_secret">JWT Secret</Label>
-                    <PasswordField
-                      id="jwt_secret"
-                      value={envVars.JWT_SECRET}
-                      onChange={createInputHandler('JWT_SECRET')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="dashboard_username">Dashboard Username</Label>
-                    <Input
-                      id="dashboard_username"
-                      type="text"
-                      value={envVars.DASHBOARD_USERNAME}
-                      onChange={createInputHandler('DASHBOARD_USERNAME')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="dashboard_password">Dashboard Password</Label>
-                    <PasswordField
-                      id="dashboard_password"
-                      value={envVars.DASHBOARD_PASSWORD}
-                      onChange={createInputHandler('DASHBOARD_PASSWORD')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="secret_key_base">Secret Key Base</Label>
-                    <PasswordField
-                      id="secret_key_base"
-                      value={envVars.SECRET_KEY_BASE}
-                      onChange={createInputHandler('SECRET_KEY_BASE')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="vault_enc_key">Vault Encryption Key</Label>
-                    <PasswordField
-                      id="vault_enc_key"
-                      value={envVars.VAULT_ENC_KEY}
-                      onChange={createInputHandler('VAULT_ENC_KEY')}
-                    />
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <CardTitle>🔑 JWT Keys</CardTitle>
-                <CardDescription>
-                  JSON Web Token keys for authentication. The default keys are for demo purposes only.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="anon_key">Anonymous Key (Public)</Label>
-                    <Input
-                      id="anon_key"
-                      type="text"
-                      value={envVars.ANON_KEY}
-                      onChange={createInputHandler('ANON_KEY')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="service_role_key">Service Role Key (Secret)</Label>
-                    <PasswordField
-                      id="service_role_key"
-                      value={envVars.SERVICE_ROLE_KEY}
-                      onChange={createInputHandler('SERVICE_ROLE_KEY')}
-                    />
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <CardTitle>🗄️ Database Configuration</CardTitle>
-                <CardDescription>
-                  PostgreSQL database connection settings.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="postgres_host">PostgreSQL Host</Label>
-                    <Input
-                      id="postgres_host"
-                      type="text"
-                      value={envVars.POSTGRES_HOST}
-                      onChange={createInputHandler('POSTGRES_HOST')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="postgres_db">Database Name</Label>
-                    <Input
-                      id="postgres_db"
-                      type="text"
-                      value={envVars.POSTGRES_DB}
-                      onChange={createInputHandler('POSTGRES_DB')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="postgres_port">PostgreSQL Port</Label>
-                    <Input
-                      id="postgres_port"
-                      type="text"
-                      value={envVars.POSTGRES_PORT}
-                      onChange={createInputHandler('POSTGRES_PORT')}
-                    />
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <CardTitle>🔐 Authentication Settings</CardTitle>
-                <CardDescription>
-                  Configure authentication behavior and URLs.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="site_url">Site URL</Label>
-                    <Input
-                      id="site_url"
-                      type="text"
-                      value={envVars.SITE_URL}
-                      onChange={createInputHandler('SITE_URL')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="api_external_url">API External URL</Label>
-                    <Input
-                      id="api_external_url"
-                      type="text"
-                      value={envVars.API_EXTERNAL_URL}
-                      onChange={createInputHandler('API_EXTERNAL_URL')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="jwt_expiry">JWT Expiry (seconds)</Label>
-                    <Input
-                      id="jwt_expiry"
-                      type="text"
-                      value={envVars.JWT_EXPIRY}
-                      onChange={createInputHandler('JWT_EXPIRY')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="disable_signup">Disable Signup</Label>
-                    <Input
-                      id="disable_signup"
-                      type="text"
-                      value={envVars.DISABLE_SIGNUP}
-                      onChange={createInputHandler('DISABLE_SIGNUP')}
-                    />
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <CardTitle>📧 Email Configuration</CardTitle>
-                <CardDescription>
-                  SMTP settings for authentication emails.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="smtp_admin_email">Admin Email</Label>
-                    <Input
-                      id="smtp_admin_email"
-                      type="email"
-                      value={envVars.SMTP_ADMIN_EMAIL}
-                      onChange={createInputHandler('SMTP_ADMIN_EMAIL')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="smtp_host">SMTP Host</Label>
-                    <Input
-                      id="smtp_host"
-                      type="text"
-                      value={envVars.SMTP_HOST}
-                      onChange={createInputHandler('SMTP_HOST')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="smtp_port">SMTP Port</Label>
-                    <Input
-                      id="smtp_port"
-                      type="text"
-                      value={envVars.SMTP_PORT}
-                      onChange={createInputHandler('SMTP_PORT')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="smtp_user">SMTP User</Label>
-                    <Input
-                      id="smtp_user"
-                      type="text"
-                      value={envVars.SMTP_USER}
-                      onChange={createInputHandler('SMTP_USER')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="smtp_pass">SMTP Password</Label>
-                    <PasswordField
-                      id="smtp_pass"
-                      value={envVars.SMTP_PASS}
-                      onChange={createInputHandler('SMTP_PASS')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="smtp_sender_name">SMTP Sender Name</Label>
-                    <Input
-                      id="smtp_sender_name"
-                      type="text"
-                      value={envVars.SMTP_SENDER_NAME}
-                      onChange={createInputHandler('SMTP_SENDER_NAME')}
-                    />
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card>
-              <CardHeader>
-                <CardTitle>🎨 Studio Configuration</CardTitle>
-                <CardDescription>
-                  Supabase Studio dashboard settings.
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="studio_default_organization">Default Organization</Label>
-                    <Input
-                      id="studio_default_organization"
-                      type="text"
-                      value={envVars.STUDIO_DEFAULT_ORGANIZATION}
-                      onChange={createInputHandler('STUDIO_DEFAULT_ORGANIZATION')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="studio_default_project">Default Project</Label>
-                    <Input
-                      id="studio_default_project"
-                      type="text"
-                      value={envVars.STUDIO_DEFAULT_PROJECT}
-                      onChange={createInputHandler('STUDIO_DEFAULT_PROJECT')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="studio_port">Studio Port</Label>
-                    <Input
-                      id="studio_port"
-                      type="text"
-                      value={envVars.STUDIO_PORT}
-                      onChange={createInputHandler('STUDIO_PORT')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="supabase_public_url">Supabase Public URL</Label>
-                    <Input
-                      id="supabase_public_url"
-                      type="text"
-                      value={envVars.SUPABASE_PUBLIC_URL}
-                      onChange={createInputHandler('SUPABASE_PUBLIC_URL')}
-                    />
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            {ENV_GROUPS.map((group) => {
+              const fields = ENV_CATALOG.filter((spec) => spec.group === group.key && !hiddenKeys.includes(spec.key))
+              if (fields.length === 0) return null
+              return (
+                <Card key={group.key}>
+                  <CardHeader>
+                    <CardTitle>{group.title}</CardTitle>
+                    <CardDescription>{group.description}</CardDescription>
+                    {group.key === 'secrets' && (
+                      <Button 
+                        onClick={handleGenerateSecrets}
+                        variant="outline"
+                        type="button"
+                      >
+                        Generate New Secure Secrets
+                      </Button>
+                    )}
+                    {group.key === 'keys' && (
+                      <div className="flex gap-2">
+                        <Button onClick={handleSignKeys} variant="outline" type="button" disabled={!projectId || !envVars.JWT_SECRET}>
+                          Sign Keys with JWT Secret
+                        </Button>
+                        <Button onClick={handleVerifyKeys} variant="outline" type="button" disabled={!projectId || verifyingKeys}>
+                          {verifyingKeys ? 'Verifying...' : 'Verify Saved Keys'}
+                        </Button>
+                      </div>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    {group.key === 'keys' && keyChecks && (
+                      <div className="mb-4 space-y-1 text-sm">
+                        {keyChecks.map((check) => (
+                          <p key={check.key} className={check.valid ? 'text-green-600' : 'text-red-500'}>
+                            {check.valid ? '✓' : '✗'} {check.key}: {check.valid ? `valid ${check.role} key` : check.error}
+                            {check.expiresAt && <span className="text-muted-foreground"> (expires {new Date(check.expiresAt).toLocaleDateString()})</span>}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                    <div className={`grid grid-cols-1 gap-4 ${group.key === 'keys' ? '' : 'md:grid-cols-2'}`}>
+                      {fields.map(renderField)}
+                    </div>
+                  </CardContent>
+                </Card>
+              )
+            })}
 
             <Card>
               <CardHeader>
-                <CardTitle>⚙️ Advanced Settings</CardTitle>
-                <CardDescription>
-                  Optional advanced configuration settings.
-                </CardDescription>
+                <CardTitle>🧩 Services</CardTitle>
+                <CardDescription>Choose which optional Supabase services this project runs</CardDescription>
               </CardHeader>
-              <CardContent>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="openai_api_key">OpenAI API Key (Optional)</Label>
-                    <PasswordField
-                      id="openai_api_key"
-                      placeholder="For SQL Editor Assistant"
-                      value={envVars.OPENAI_API_KEY}
-                      onChange={createInputHandler('OPENAI_API_KEY')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="kong_http_port">Kong HTTP Port</Label>
-                    <Input
-                      id="kong_http_port"
-                      type="text"
-                      value={envVars.KONG_HTTP_PORT}
-                      onChange={createInputHandler('KONG_HTTP_PORT')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="analytics_port">Analytics Port</Label>
-                    <Input
-                      id="analytics_port"
-                      type="text"
-                      value={envVars.ANALYTICS_PORT}
-                      onChange={createInputHandler('ANALYTICS_PORT')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="pgrst_db_schemas">PostgREST DB Schemas</Label>
-                    <Input
-                      id="pgrst_db_schemas"
-                      type="text"
-                      value={envVars.PGRST_DB_SCHEMAS}
-                      onChange={createInputHandler('PGRST_DB_SCHEMAS')}
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="functions_verify_jwt">Functions Verify JWT</Label>
-                    <Input
-                      id="functions_verify_jwt"
-                      type="text"
-                      value={envVars.FUNCTIONS_VERIFY_JWT}
-                      onChange={createInputHandler('FUNCTIONS_VERIFY_JWT')}
-                    />
-                  </div>
-                </div>
+              <CardContent className="space-y-4">
+                <ServiceSelector selected={services} onChange={setServices} disabled={savingServices || deploying} />
+                <Button variant="outline" onClick={handleSaveServices} disabled={savingServices || deploying || !projectId}>
+                  {savingServices ? 'Saving...' : 'Save Services'}
+                </Button>
               </CardContent>
             </Card>
 
@@ -759,6 +631,18 @@ export default function ConfigureProjectPage({ params }: ConfigureProjectPagePro
                     </div>
                   )}
                   
+                  {deployLog.length > 0 && (
+                    <div className="bg-card border rounded-lg p-4">
+                      <h4 className="font-medium mb-2">Deployment Log</h4>
+                      <pre
+                        ref={deployLogRef}
+                        className="max-h-80 overflow-auto text-xs font-mono whitespace-pre-wrap bg-black/80 text-gray-100 p-3 rounded"
+                      >
+                        {deployLog.join('\n')}
+                      </pre>
+                    </div>
+                  )}
+                  
                   {!success && (
                     <p className="text-sm text-muted-foreground">
                       Save configuration first before deploying
@@ -767,6 +651,37 @@ export default function ConfigureProjectPage({ params }: ConfigureProjectPagePro
                 </div>
               </CardContent>
             </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Deployment History</CardTitle>
+                <CardDescription>
+                  Each deploy keeps a snapshot of the configuration it ran with. A failed deploy rolls back to the last
+                  successful one automatically; older successful deployments can be restored here.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DeploymentHistory projectId={projectId} deploying={deploying} onRollback={attachToDeployJob} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Configuration History</CardTitle>
+                <CardDescription>
+                  Every change to the environment variables is kept as a version. Reverting restores an earlier
+                  version&apos;s values except ports, the public URL and database-held secrets; redeploy to apply it.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <EnvHistory
+                  projectId={projectId}
+                  refreshKey={envRevision}
+                  deploying={deploying}
+                  onReverted={handleEnvReverted}
+                />
+              </CardContent>
+            </Card>
           </div>
         </div>
       </main>
@@ -0,0 +1,215 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface ExportPageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+interface ExportArchive {
+  filename: string
+  size: number
+  createdAt: string
+}
+
+interface Job {
+  id: string
+  status: string
+}
+
+export default function ExportProjectPage({ params }: ExportPageProps) {
+  const [projectId, setProjectId] = useState<string>('')
+  const [archive, setArchive] = useState<ExportArchive | null>(null)
+  const [includeData, setIncludeData] = useState(true)
+  const [includeStorage, setIncludeStorage] = useState(false)
+  const [running, setRunning] = useState(false)
+  const [log, setLog] = useState<string[]>([])
+  const [error, setError] = useState('')
+  const streamRef = useRef<EventSource | null>(null)
+
+  useEffect(() => {
+    params.then(({ id }) => setProjectId(id))
+  }, [params])
+
+  const fetchExport = useCallback(async () => {
+    if (!projectId) return null
+    try {
+      const response = await fetch(`/api/projects/${projectId}/export`)
+      const data = await response.json()
+      if (response.ok) {
+        setArchive(data.archive)
+        return data.job as Job | null
+      }
+      setError(data.error || 'Failed to load export')
+    } catch {
+      setError('Failed to load export')
+    }
+    return null
+  }, [projectId])
+
+  const followJob = useCallback((jobId: string) => {
+    streamRef.current?.close()
+    setRunning(true)
+    setLog([])
+    const source = new EventSource(`/api/projects/${projectId}/jobs/${jobId}/stream`)
+    streamRef.current = source
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data)
+      if (event.type === 'log') {
+        setLog(prev => [...prev, event.line])
+      } else if (event.type === 'done') {
+        source.close()
+        streamRef.current = null
+        setRunning(false)
+        if (event.status !== 'succeeded') {
+          setError(event.error || 'Export failed')
+        }
+        fetchExport()
+      }
+    }
+
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        streamRef.current = null
+        setRunning(false)
+      }
+    }
+  }, [projectId, fetchExport])
+
+  // Reattach to an export that is still running
+  useEffect(() => {
+    fetchExport().then((job) => {
+      if (job && (job.status === 'queued' || job.status === 'running')) {
+        followJob(job.id)
+      }
+    })
+  }, [fetchExport, followJob])
+
+  useEffect(() => {
+    return () => streamRef.current?.close()
+  }, [])
+
+  const handleExport = async () => {
+    setError('')
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/export`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ includeData, includeStorage: includeData && includeStorage }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        followJob(data.job.id)
+      } else {
+        setError(data.error || 'Failed to start export')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Image
+              src="/logo.png"
+              alt="SupaConsole"
+              width={150}
+              height={150}
+              className="object-contain"
+            />
+          </div>
+          <Link href="/dashboard">
+            <Button variant="outline">Back to Dashboard</Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <div className="mb-8">
+            <h2 className="text-3xl font-bold mb-2">Export Project</h2>
+            <p className="text-muted-foreground">
+              Bundle the project into a single archive that can be imported on another SupaConsole host from the New Project page.
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-500/10 border border-red-500/20 text-red-500 px-4 py-3 rounded whitespace-pre-line">
+              {error}
+            </div>
+          )}
+
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Archive Contents</CardTitle>
+              <CardDescription>
+                The configuration, environment variables and docker folder are always included. The archive contains the project&apos;s secrets.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={includeData}
+                  onChange={(e) => setIncludeData(e.target.checked)}
+                  disabled={running}
+                />
+                Include the database (your schemas, auth users and storage metadata)
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={includeData && includeStorage}
+                  onChange={(e) => setIncludeStorage(e.target.checked)}
+                  disabled={!includeData || running}
+                />
+                Include storage files
+              </label>
+              <Button onClick={handleExport} disabled={running || !projectId}>
+                {running ? 'Exporting...' : 'Export'}
+              </Button>
+            </CardContent>
+          </Card>
+
+          {log.length > 0 && (
+            <div className="bg-card border rounded-lg p-4 mb-6">
+              <h4 className="font-medium mb-2">Export Log</h4>
+              <pre className="max-h-80 overflow-auto text-xs font-mono whitespace-pre-wrap bg-black/80 text-gray-100 p-3 rounded">
+                {log.join('\n')}
+              </pre>
+            </div>
+          )}
+
+          {archive && !running && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Latest Export</CardTitle>
+                <CardDescription>
+                  {new Date(archive.createdAt).toLocaleString()} · {(archive.size / 1024 / 1024).toFixed(1)} MiB. A new export replaces it.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <a href={`/api/projects/${projectId}/export/download`}>
+                  <Button variant="outline">Download {archive.filename}</Button>
+                </a>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
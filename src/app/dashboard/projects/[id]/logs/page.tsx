@@ -0,0 +1,248 @@
+'use client'
+
+import { useState, useEffect, useRef, useMemo } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { SUPABASE_SERVICES } from '@/lib/supabase-services'
+
+interface ProjectLogsPageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+// Cap the lines kept in the browser while following
+const MAX_LINES = 5000
+
+export default function ProjectLogsPage({ params }: ProjectLogsPageProps) {
+  const [projectId, setProjectId] = useState<string>('')
+  const [service, setService] = useState('')
+  const [since, setSince] = useState('')
+  const [tail, setTail] = useState('500')
+  const [search, setSearch] = useState('')
+  const [lines, setLines] = useState<string[]>([])
+  const [loading, setLoading] = useState(false)
+  const [following, setFollowing] = useState(false)
+  const [error, setError] = useState('')
+  const streamRef = useRef<EventSource | null>(null)
+  const outputRef = useRef<HTMLPreElement | null>(null)
+
+  useEffect(() => {
+    params.then(({ id }) => setProjectId(id))
+  }, [params])
+
+  const buildQuery = (extra: Record<string, string> = {}) => {
+    const query = new URLSearchParams()
+    if (service) query.set('service', service)
+    if (since.trim()) query.set('since', since.trim())
+    if (tail.trim()) query.set('tail', tail.trim())
+    for (const [key, value] of Object.entries(extra)) {
+      query.set(key, value)
+    }
+    return query.toString()
+  }
+
+  const stopFollowing = () => {
+    streamRef.current?.close()
+    streamRef.current = null
+    setFollowing(false)
+  }
+
+  const handleLoad = async () => {
+    stopFollowing()
+    setLoading(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/logs?${buildQuery()}`)
+      const data = await response.json()
+      if (response.ok) {
+        setLines(data.lines)
+      } else {
+        setError(data.error || 'Failed to load logs')
+      }
+    } catch {
+      setError('Failed to load logs')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleFollow = () => {
+    if (following) {
+      stopFollowing()
+      return
+    }
+
+    setError('')
+    setLines([])
+    const source = new EventSource(`/api/projects/${projectId}/logs?${buildQuery({ follow: '1' })}`)
+    streamRef.current = source
+    setFollowing(true)
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data)
+      if (event.type === 'log') {
+        setLines(prev => {
+          const next = [...prev, event.line]
+          return next.length > MAX_LINES ? next.slice(next.length - MAX_LINES) : next
+        })
+      } else {
+        if (event.type === 'error') {
+          setError(event.error)
+        }
+        stopFollowing()
+      }
+    }
+
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        stopFollowing()
+      }
+    }
+  }
+
+  useEffect(() => {
+    if (projectId) handleLoad()
+    return () => streamRef.current?.close()
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [projectId])
+
+  const visibleLines = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return term ? lines.filter(line => line.toLowerCase().includes(term)) : lines
+  }, [lines, search])
+
+  useEffect(() => {
+    if (following && outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight
+    }
+  }, [visibleLines, following])
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Image
+              src="/logo.png"
+              alt="SupaConsole"
+              width={150}
+              height={150}
+              className="object-contain"
+            />
+          </div>
+          <Link href="/dashboard">
+            <Button variant="outline">Back to Dashboard</Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="mb-8">
+            <h2 className="text-3xl font-bold mb-2">Container Logs</h2>
+            <p className="text-muted-foreground">
+              Output of <code>docker compose logs</code> for this project&apos;s services.
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-500/10 border border-red-500/20 text-red-500 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Filters</CardTitle>
+              <CardDescription>
+                &quot;Since&quot; accepts a duration (15m, 2h) or a timestamp. &quot;Tail&quot; is lines per container, or &quot;all&quot;.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+                <div className="space-y-2">
+                  <Label htmlFor="service">Service</Label>
+                  <select
+                    id="service"
+                    value={service}
+                    onChange={(e) => setService(e.target.value)}
+                    className="border-input dark:bg-input/30 flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+                  >
+                    <option value="">All services</option>
+                    {SUPABASE_SERVICES.map((s) => (
+                      <option key={s.key} value={s.key}>{s.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="since">Since</Label>
+                  <Input
+                    id="since"
+                    type="text"
+                    placeholder="e.g. 30m"
+                    value={since}
+                    onChange={(e) => setSince(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="tail">Tail</Label>
+                  <Input
+                    id="tail"
+                    type="text"
+                    value={tail}
+                    onChange={(e) => setTail(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="search">Search</Label>
+                  <Input
+                    id="search"
+                    type="text"
+                    placeholder="Filter lines"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="flex gap-3">
+                <Button onClick={handleLoad} disabled={loading || !projectId} variant="outline">
+                  {loading ? 'Loading...' : 'Load'}
+                </Button>
+                <Button onClick={handleFollow} disabled={!projectId} variant={following ? 'destructive' : 'default'}>
+                  {following ? 'Stop Following' : 'Follow'}
+                </Button>
+                <a href={projectId ? `/api/projects/${projectId}/logs?${buildQuery({ download: '1' })}` : undefined}>
+                  <Button type="button" variant="secondary" disabled={!projectId}>
+                    Download
+                  </Button>
+                </a>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="mt-6">
+            <div className="flex justify-between text-sm text-muted-foreground mb-2">
+              <span>
+                {search.trim() ? `${visibleLines.length} of ${lines.length} lines match` : `${lines.length} lines`}
+              </span>
+              {following && <span className="text-green-600">Following…</span>}
+            </div>
+            <pre
+              ref={outputRef}
+              className="h-[60vh] overflow-auto text-xs font-mono whitespace-pre-wrap bg-black/80 text-gray-100 p-3 rounded"
+            >
+              {visibleLines.join('\n')}
+            </pre>
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
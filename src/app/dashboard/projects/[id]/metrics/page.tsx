@@ -0,0 +1,214 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import MetricChart from '@/components/MetricChart'
+import { SUPABASE_SERVICES } from '@/lib/supabase-services'
+
+interface ProjectMetricsPageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+interface MetricPoint {
+  t: string
+  cpuPercent: number
+  memoryBytes: number
+  memoryLimitBytes: number
+  netRxRate: number
+  netTxRate: number
+  blockReadRate: number
+  blockWriteRate: number
+}
+
+const RANGES = ['1h', '6h', '24h', '7d', '30d']
+
+function formatBytes(value: number) {
+  const units = ['B', 'KiB', 'MiB', 'GiB', 'TiB']
+  let unit = 0
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${value.toFixed(value < 10 && unit > 0 ? 1 : 0)} ${units[unit]}`
+}
+
+const formatPercent = (value: number) => `${value.toFixed(1)}%`
+const formatRate = (value: number) => `${formatBytes(value)}/s`
+
+export default function ProjectMetricsPage({ params }: ProjectMetricsPageProps) {
+  const [projectId, setProjectId] = useState<string>('')
+  const [range, setRange] = useState('1h')
+  const [projectPoints, setProjectPoints] = useState<MetricPoint[]>([])
+  const [servicePoints, setServicePoints] = useState<Record<string, MetricPoint[]>>({})
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    params.then(({ id }) => setProjectId(id))
+  }, [params])
+
+  const fetchMetrics = useCallback(async () => {
+    if (!projectId) return
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/metrics?range=${range}`)
+      const data = await response.json()
+      if (response.ok) {
+        setProjectPoints(data.project)
+        setServicePoints(data.services)
+        setError('')
+      } else {
+        setError(data.error || 'Failed to load metrics')
+      }
+    } catch {
+      setError('Failed to load metrics')
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId, range])
+
+  useEffect(() => {
+    fetchMetrics()
+    const timer = setInterval(fetchMetrics, 60000)
+    return () => clearInterval(timer)
+  }, [fetchMetrics])
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Image
+              src="/logo.png"
+              alt="SupaConsole"
+              width={150}
+              height={150}
+              className="object-contain"
+            />
+          </div>
+          <Link href="/dashboard">
+            <Button variant="outline">Back to Dashboard</Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="mb-8 flex justify-between items-end">
+            <div>
+              <h2 className="text-3xl font-bold mb-2">Resource Usage</h2>
+              <p className="text-muted-foreground">
+                CPU, memory, network and block I/O sampled from <code>docker stats</code>.
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {RANGES.map((r) => (
+                <Button
+                  key={r}
+                  size="sm"
+                  variant={r === range ? 'default' : 'outline'}
+                  onClick={() => setRange(r)}
+                  disabled={loading}
+                >
+                  {r}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-500/10 border border-red-500/20 text-red-500 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Project Total</CardTitle>
+                <CardDescription>Sum across all of the project&apos;s containers</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <MetricChart
+                    title="CPU"
+                    points={projectPoints}
+                    series={[{ key: 'cpuPercent', label: 'CPU', color: '#3b82f6' }]}
+                    format={formatPercent}
+                  />
+                  <MetricChart
+                    title="Memory"
+                    points={projectPoints}
+                    series={[{ key: 'memoryBytes', label: 'Used', color: '#10b981' }]}
+                    format={formatBytes}
+                  />
+                  <MetricChart
+                    title="Network"
+                    points={projectPoints}
+                    series={[
+                      { key: 'netRxRate', label: 'Rx', color: '#8b5cf6' },
+                      { key: 'netTxRate', label: 'Tx', color: '#f59e0b' },
+                    ]}
+                    format={formatRate}
+                  />
+                  <MetricChart
+                    title="Block I/O"
+                    points={projectPoints}
+                    series={[
+                      { key: 'blockReadRate', label: 'Read', color: '#06b6d4' },
+                      { key: 'blockWriteRate', label: 'Write', color: '#ef4444' },
+                    ]}
+                    format={formatRate}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Per Service</CardTitle>
+                <CardDescription>CPU and memory of each Supabase service</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {SUPABASE_SERVICES.filter((service) => servicePoints[service.key]).map((service) => {
+                    const points = servicePoints[service.key]
+                    return (
+                      <div key={service.key} className="space-y-2">
+                        <h4 className="text-sm font-semibold">{service.label}</h4>
+                        <MetricChart
+                          title="CPU"
+                          points={points}
+                          series={[{ key: 'cpuPercent', label: 'CPU', color: '#3b82f6' }]}
+                          format={formatPercent}
+                          height={80}
+                        />
+                        <MetricChart
+                          title="Memory"
+                          points={points}
+                          series={[{ key: 'memoryBytes', label: 'Used', color: '#10b981' }]}
+                          format={formatBytes}
+                          height={80}
+                        />
+                      </div>
+                    )
+                  })}
+                  {Object.keys(servicePoints).length === 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      No samples yet. The collector records a sample every minute while containers are running.
+                    </p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,367 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+interface MigrationsPageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+interface Migration {
+  id: string
+  version: string
+  name: string
+  checksum: string
+  status: 'pending' | 'applied' | 'failed'
+  error: string | null
+  createdAt: string
+  appliedAt: string | null
+}
+
+interface Job {
+  id: string
+  status: string
+}
+
+const statusClasses: Record<string, string> = {
+  pending: 'bg-gray-100 text-gray-800',
+  applied: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+}
+
+export default function MigrationsPage({ params }: MigrationsPageProps) {
+  const [projectId, setProjectId] = useState<string>('')
+  const [migrations, setMigrations] = useState<Migration[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filename, setFilename] = useState('')
+  const [sql, setSql] = useState('')
+  const [uploading, setUploading] = useState(false)
+  const [applying, setApplying] = useState(false)
+  const [deletingId, setDeletingId] = useState('')
+  const [log, setLog] = useState<string[]>([])
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+  const streamRef = useRef<EventSource | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    params.then(({ id }) => setProjectId(id))
+  }, [params])
+
+  const fetchMigrations = useCallback(async () => {
+    if (!projectId) return null
+    try {
+      const response = await fetch(`/api/projects/${projectId}/migrations`)
+      const data = await response.json()
+      if (response.ok) {
+        setMigrations(data.migrations)
+        return data.job as Job | null
+      }
+      setError(data.error || 'Failed to load migrations')
+    } catch {
+      setError('Failed to load migrations')
+    } finally {
+      setLoading(false)
+    }
+    return null
+  }, [projectId])
+
+  const followJob = useCallback((jobId: string) => {
+    streamRef.current?.close()
+    setApplying(true)
+    setLog([])
+    const source = new EventSource(`/api/projects/${projectId}/jobs/${jobId}/stream`)
+    streamRef.current = source
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data)
+      if (event.type === 'log') {
+        setLog(prev => [...prev, event.line])
+      } else if (event.type === 'done') {
+        source.close()
+        streamRef.current = null
+        setApplying(false)
+        if (event.status === 'succeeded') {
+          setNotice('Migrations applied.')
+        } else {
+          setError(event.error || 'Applying migrations failed')
+        }
+        fetchMigrations()
+      }
+    }
+
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        streamRef.current = null
+        setApplying(false)
+      }
+    }
+  }, [projectId, fetchMigrations])
+
+  // Reattach to a migration run that is still going
+  useEffect(() => {
+    fetchMigrations().then((job) => {
+      if (job && (job.status === 'queued' || job.status === 'running')) {
+        followJob(job.id)
+      }
+    })
+  }, [fetchMigrations, followJob])
+
+  useEffect(() => {
+    return () => streamRef.current?.close()
+  }, [])
+
+  const upload = async (files: { filename: string; sql: string }[]) => {
+    setUploading(true)
+    setError('')
+    setNotice('')
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/migrations`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ files }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setNotice(`${data.added} added, ${data.updated} updated, ${data.unchanged} unchanged.`)
+        setFilename('')
+        setSql('')
+        fetchMigrations()
+      } else {
+        setError(data.error || 'Failed to add migrations')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? [])
+    if (selected.length === 0) return
+    const files = await Promise.all(selected.map(async (file) => ({ filename: file.name, sql: await file.text() })))
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ''
+    }
+    await upload(files)
+  }
+
+  const handlePaste = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!filename.trim() || !sql.trim()) {
+      setError('A file name and SQL are required')
+      return
+    }
+    await upload([{ filename: filename.trim(), sql }])
+  }
+
+  const handleApply = async () => {
+    setError('')
+    setNotice('')
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/migrations/apply`, { method: 'POST' })
+      const data = await response.json()
+      if (response.ok) {
+        followJob(data.job.id)
+      } else {
+        setError(data.error || 'Failed to apply migrations')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    }
+  }
+
+  const handleDelete = async (migration: Migration) => {
+    if (!confirm(`Delete migration ${migration.version}_${migration.name}?`)) return
+    setDeletingId(migration.id)
+    setError('')
+    setNotice('')
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/migrations/${migration.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (response.ok) {
+        fetchMigrations()
+      } else {
+        setError(data.error || 'Failed to delete migration')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setDeletingId('')
+    }
+  }
+
+  const pendingCount = migrations.filter((m) => m.status !== 'applied').length
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Image
+              src="/logo.png"
+              alt="SupaConsole"
+              width={150}
+              height={150}
+              className="object-contain"
+            />
+          </div>
+          <Link href="/dashboard">
+            <Button variant="outline">Back to Dashboard</Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto">
+          <div className="mb-8 flex justify-between items-end">
+            <div>
+              <h2 className="text-3xl font-bold mb-2">Migrations</h2>
+              <p className="text-muted-foreground">
+                Ordered SQL files applied to the project database, each in its own transaction
+              </p>
+            </div>
+            <Button onClick={handleApply} disabled={applying || pendingCount === 0 || !projectId}>
+              {applying ? 'Applying...' : `Apply ${pendingCount} Pending`}
+            </Button>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-500/10 border border-red-500/20 text-red-500 px-4 py-3 rounded whitespace-pre-line">
+              {error}
+            </div>
+          )}
+          {notice && (
+            <div className="mb-6 bg-green-500/10 border border-green-500/20 text-green-700 dark:text-green-400 px-4 py-3 rounded text-sm">
+              {notice}
+            </div>
+          )}
+
+          {log.length > 0 && (
+            <div className="bg-card border rounded-lg p-4 mb-6">
+              <h4 className="font-medium mb-2">Migration Log</h4>
+              <pre className="max-h-80 overflow-auto text-xs font-mono whitespace-pre-wrap bg-black/80 text-gray-100 p-3 rounded">
+                {log.join('\n')}
+              </pre>
+            </div>
+          )}
+
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Migration Files</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {migrations.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{loading ? 'Loading...' : 'No migrations yet.'}</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b">
+                      <th className="py-2 pr-4 font-medium">Version</th>
+                      <th className="py-2 pr-4 font-medium">Name</th>
+                      <th className="py-2 pr-4 font-medium">Status</th>
+                      <th className="py-2 pr-4 font-medium">Checksum</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {migrations.map((migration) => (
+                      <tr key={migration.id} className="border-b last:border-0 align-top">
+                        <td className="py-2 pr-4 font-mono text-xs">{migration.version}</td>
+                        <td className="py-2 pr-4">
+                          {migration.name}
+                          {migration.error && <p className="text-xs text-red-500 whitespace-pre-line break-words max-w-md">{migration.error}</p>}
+                        </td>
+                        <td className="py-2 pr-4 whitespace-nowrap">
+                          <span className={`px-2 py-0.5 rounded-full text-xs ${statusClasses[migration.status]}`}>
+                            {migration.status}
+                          </span>
+                          {migration.appliedAt && (
+                            <span className="ml-2 text-xs text-muted-foreground">{new Date(migration.appliedAt).toLocaleString()}</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 font-mono text-xs" title={migration.checksum}>{migration.checksum.slice(0, 12)}</td>
+                        <td className="py-2 text-right">
+                          {migration.status !== 'applied' && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={applying || deletingId !== ''}
+                              onClick={() => handleDelete(migration)}
+                            >
+                              {deletingId === migration.id ? 'Deleting...' : 'Delete'}
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Add Migrations</CardTitle>
+              <CardDescription>
+                Name files &lt;version&gt;_&lt;name&gt;.sql. Uploading a pending migration again replaces it; applied migrations cannot be changed.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="files">Upload .sql files</Label>
+                <Input
+                  id="files"
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".sql"
+                  multiple
+                  onChange={handleFiles}
+                  disabled={uploading}
+                />
+              </div>
+              <form onSubmit={handlePaste} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="filename">Or paste one</Label>
+                  <Input
+                    id="filename"
+                    type="text"
+                    placeholder="20240101120000_create_todos.sql"
+                    value={filename}
+                    onChange={(e) => setFilename(e.target.value)}
+                    disabled={uploading}
+                  />
+                </div>
+                <textarea
+                  rows={10}
+                  placeholder="create table public.todos (...);"
+                  value={sql}
+                  onChange={(e) => setSql(e.target.value)}
+                  disabled={uploading}
+                  className="border-input dark:bg-input/30 w-full rounded-md border bg-transparent px-3 py-2 text-sm font-mono shadow-xs"
+                />
+                <Button type="submit" variant="outline" disabled={uploading || !projectId}>
+                  {uploading ? 'Adding...' : 'Add Migration'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,253 @@
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface SecretsPageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+interface SecretClass {
+  key: string
+  label: string
+  envKeys: string[]
+  services: string[]
+  impact: string
+}
+
+interface Rotation {
+  id: string
+  secretClass: string
+  status: 'running' | 'succeeded' | 'failed'
+  keys: string[]
+  services: string[]
+  error: string | null
+  createdAt: string
+  finishedAt: string | null
+  user: { name: string | null; email: string } | null
+}
+
+interface Job {
+  id: string
+  status: string
+}
+
+const statusClasses: Record<string, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+}
+
+export default function SecretsPage({ params }: SecretsPageProps) {
+  const [projectId, setProjectId] = useState<string>('')
+  const [classes, setClasses] = useState<SecretClass[]>([])
+  const [rotations, setRotations] = useState<Rotation[]>([])
+  const [running, setRunning] = useState(false)
+  const [log, setLog] = useState<string[]>([])
+  const [error, setError] = useState('')
+  const streamRef = useRef<EventSource | null>(null)
+
+  useEffect(() => {
+    params.then(({ id }) => setProjectId(id))
+  }, [params])
+
+  const fetchRotations = useCallback(async () => {
+    if (!projectId) return null
+    try {
+      const response = await fetch(`/api/projects/${projectId}/secrets`)
+      const data = await response.json()
+      if (response.ok) {
+        setClasses(data.classes)
+        setRotations(data.rotations)
+        return data.job as Job | null
+      }
+      setError(data.error || 'Failed to load secrets')
+    } catch {
+      setError('Failed to load secrets')
+    }
+    return null
+  }, [projectId])
+
+  const followJob = useCallback((jobId: string) => {
+    streamRef.current?.close()
+    setRunning(true)
+    setLog([])
+    const source = new EventSource(`/api/projects/${projectId}/jobs/${jobId}/stream`)
+    streamRef.current = source
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data)
+      if (event.type === 'log') {
+        setLog(prev => [...prev, event.line])
+      } else if (event.type === 'done') {
+        source.close()
+        streamRef.current = null
+        setRunning(false)
+        if (event.status !== 'succeeded') {
+          setError(event.error || 'Rotation failed')
+        }
+        fetchRotations()
+      }
+    }
+
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        streamRef.current = null
+        setRunning(false)
+      }
+    }
+  }, [projectId, fetchRotations])
+
+  // Reattach to a rotation that is still running
+  useEffect(() => {
+    fetchRotations().then((job) => {
+      if (job && (job.status === 'queued' || job.status === 'running')) {
+        followJob(job.id)
+      }
+    })
+  }, [fetchRotations, followJob])
+
+  useEffect(() => {
+    return () => streamRef.current?.close()
+  }, [])
+
+  const handleRotate = async (secretClass: SecretClass) => {
+    if (!confirm(`Rotate the ${secretClass.label.toLowerCase()}? ${secretClass.impact}`)) return
+    setError('')
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/secrets/rotate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ secretClass: secretClass.key }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        followJob(data.job.id)
+      } else {
+        setError(data.error || 'Failed to start rotation')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    }
+  }
+
+  const labelOf = (key: string) => classes.find((c) => c.key === key)?.label || key
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Image
+              src="/logo.png"
+              alt="SupaConsole"
+              width={150}
+              height={150}
+              className="object-contain"
+            />
+          </div>
+          <Link href="/dashboard">
+            <Button variant="outline">Back to Dashboard</Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto">
+          <div className="mb-8">
+            <h2 className="text-3xl font-bold mb-2">Rotate Secrets</h2>
+            <p className="text-muted-foreground">
+              Generate new values for a running project, apply them to the database and recreate only the services that use them
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-500/10 border border-red-500/20 text-red-500 px-4 py-3 rounded whitespace-pre-line">
+              {error}
+            </div>
+          )}
+
+          {log.length > 0 && (
+            <div className="bg-card border rounded-lg p-4 mb-6">
+              <h4 className="font-medium mb-2">Rotation Log</h4>
+              <pre className="max-h-80 overflow-auto text-xs font-mono whitespace-pre-wrap bg-black/80 text-gray-100 p-3 rounded">
+                {log.join('\n')}
+              </pre>
+            </div>
+          )}
+
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Secrets</CardTitle>
+              <CardDescription>The project must be active. Each rotation is recorded as a deployment.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="divide-y">
+                {classes.map((secretClass) => (
+                  <div key={secretClass.key} className="py-3 flex justify-between items-start gap-4">
+                    <div>
+                      <p className="font-medium">{secretClass.label}</p>
+                      <p className="text-xs font-mono text-muted-foreground">{secretClass.envKeys.join(', ')}</p>
+                      <p className="text-sm text-muted-foreground mt-1">{secretClass.impact}</p>
+                    </div>
+                    <Button variant="outline" size="sm" disabled={running || !projectId} onClick={() => handleRotate(secretClass)}>
+                      Rotate
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>History</CardTitle>
+              <CardDescription>The latest 50 rotations</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {rotations.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No rotations yet.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b">
+                      <th className="py-2 pr-4 font-medium">Started</th>
+                      <th className="py-2 pr-4 font-medium">Secret</th>
+                      <th className="py-2 pr-4 font-medium">By</th>
+                      <th className="py-2 pr-4 font-medium">Status</th>
+                      <th className="py-2 font-medium">Recreated</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rotations.map((rotation) => (
+                      <tr key={rotation.id} className="border-b last:border-0 align-top">
+                        <td className="py-2 pr-4 whitespace-nowrap">{new Date(rotation.createdAt).toLocaleString()}</td>
+                        <td className="py-2 pr-4">{labelOf(rotation.secretClass)}</td>
+                        <td className="py-2 pr-4">{rotation.user ? rotation.user.name || rotation.user.email : '—'}</td>
+                        <td className="py-2 pr-4">
+                          <span className={`px-2 py-0.5 rounded-full text-xs ${statusClasses[rotation.status]}`}>
+                            {rotation.status}
+                          </span>
+                          {rotation.error && <p className="text-xs text-red-500 whitespace-pre-line break-words max-w-md">{rotation.error}</p>}
+                        </td>
+                        <td className="py-2 text-xs text-muted-foreground">{rotation.services.join(', ')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,325 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import Image from 'next/image'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Label } from '@/components/ui/label'
+
+interface ProjectUpgradePageProps {
+  params: Promise<{
+    id: string
+  }>
+}
+
+interface CoreVersion {
+  id: string
+  ref: string
+  commit: string | null
+  status: string
+  isDefault: boolean
+}
+
+interface FileChange {
+  path: string
+  action: 'add' | 'update' | 'delete' | 'conflict'
+  diff: string
+}
+
+interface EnvChange {
+  key: string
+  action: 'add' | 'generate' | 'update' | 'remove' | 'conflict'
+  current: string | null
+  upstream: string | null
+  value: string | null
+}
+
+interface UpgradePlan {
+  from: { ref: string | null; commit: string | null }
+  to: { id: string; ref: string; commit: string | null }
+  files: FileChange[]
+  env: EnvChange[]
+  warnings: string[]
+  token: string
+}
+
+const actionClasses: Record<string, string> = {
+  add: 'bg-green-100 text-green-800',
+  generate: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-gray-100 text-gray-800',
+  remove: 'bg-gray-100 text-gray-800',
+  conflict: 'bg-yellow-100 text-yellow-800',
+}
+
+function diffLineClass(line: string) {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-muted-foreground'
+  if (line.startsWith('@@')) return 'text-blue-500'
+  if (line.startsWith('+')) return 'text-green-600'
+  if (line.startsWith('-')) return 'text-red-500'
+  return ''
+}
+
+const shortCommit = (commit: string | null) => (commit ? commit.slice(0, 12) : 'unknown')
+
+export default function ProjectUpgradePage({ params }: ProjectUpgradePageProps) {
+  const router = useRouter()
+  const [projectId, setProjectId] = useState<string>('')
+  const [versions, setVersions] = useState<CoreVersion[]>([])
+  const [targetId, setTargetId] = useState('')
+  const [plan, setPlan] = useState<UpgradePlan | null>(null)
+  const [planning, setPlanning] = useState(false)
+  const [applying, setApplying] = useState(false)
+  const [error, setError] = useState('')
+
+  useEffect(() => {
+    params.then(({ id }) => setProjectId(id))
+  }, [params])
+
+  useEffect(() => {
+    const fetchVersions = async () => {
+      try {
+        const response = await fetch('/api/core-versions')
+        const data = await response.json()
+        if (response.ok) {
+          const ready: CoreVersion[] = data.versions.filter((v: CoreVersion) => v.status === 'ready')
+          setVersions(ready)
+          setTargetId((ready.find((v) => v.isDefault) || ready[0])?.id || '')
+        } else {
+          setError(data.error || 'Failed to load versions')
+        }
+      } catch {
+        setError('Failed to load versions')
+      }
+    }
+    fetchVersions()
+  }, [])
+
+  const handlePreview = async () => {
+    if (!projectId || !targetId) return
+    setPlanning(true)
+    setPlan(null)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/upgrade?target=${encodeURIComponent(targetId)}`)
+      const data = await response.json()
+      if (response.ok) {
+        setPlan(data.plan)
+      } else {
+        setError(data.error || 'Failed to plan the upgrade')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setPlanning(false)
+    }
+  }
+
+  const handleApply = async () => {
+    if (!plan) return
+    const conflicts = plan.files.filter((f) => f.action === 'conflict').length + plan.env.filter((e) => e.action === 'conflict').length
+    const message = conflicts > 0
+      ? `Upgrade to ${plan.to.ref}? ${conflicts} conflict(s) keep the project's version. The project will be redeployed.`
+      : `Upgrade to ${plan.to.ref}? The project will be redeployed.`
+    if (!confirm(message)) return
+    setApplying(true)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/upgrade`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ targetVersionId: plan.to.id, token: plan.token }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        // The configure page reattaches to the running deploy job
+        router.push(`/dashboard/projects/${projectId}/configure`)
+      } else {
+        setError(data.error || 'Failed to apply the upgrade')
+        setApplying(false)
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+      setApplying(false)
+    }
+  }
+
+  const hasChanges = plan !== null && (plan.files.length > 0 || plan.env.length > 0)
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Image
+              src="/logo.png"
+              alt="SupaConsole"
+              width={150}
+              height={150}
+              className="object-contain"
+            />
+          </div>
+          <Link href="/dashboard">
+            <Button variant="outline">Back to Dashboard</Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto">
+          <div className="mb-8">
+            <h2 className="text-3xl font-bold mb-2">Upgrade Stack</h2>
+            <p className="text-muted-foreground">
+              Move this project to another Supabase version. Files and environment variables you changed are kept;
+              review the changes before they are applied.
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-500/10 border border-red-500/20 text-red-500 px-4 py-3 rounded whitespace-pre-line">
+              {error}
+            </div>
+          )}
+
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Target Version</CardTitle>
+              <CardDescription>
+                Manage available versions on the <Link href="/dashboard/core-versions" className="underline">Supabase Versions</Link> page
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="flex gap-3 items-end">
+                <div className="space-y-2 flex-1">
+                  <Label htmlFor="target">Version</Label>
+                  <select
+                    id="target"
+                    className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+                    value={targetId}
+                    onChange={(e) => {
+                      setTargetId(e.target.value)
+                      setPlan(null)
+                    }}
+                  >
+                    {versions.map((version) => (
+                      <option key={version.id} value={version.id}>
+                        {version.ref} ({shortCommit(version.commit)}){version.isDefault ? ' — default' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <Button onClick={handlePreview} disabled={planning || !targetId || !projectId}>
+                  {planning ? 'Comparing...' : 'Preview Changes'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {plan && (
+            <>
+              <div className="mb-6 text-sm text-muted-foreground">
+                {plan.from.ref || 'legacy'} ({shortCommit(plan.from.commit)}) → {plan.to.ref} ({shortCommit(plan.to.commit)})
+              </div>
+
+              {plan.warnings.length > 0 && (
+                <div className="mb-6 bg-yellow-500/10 border border-yellow-500/20 text-yellow-700 dark:text-yellow-400 px-4 py-3 rounded text-sm">
+                  <ul className="list-disc pl-5 space-y-1">
+                    {plan.warnings.map((warning) => (
+                      <li key={warning}>{warning}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Files</CardTitle>
+                  <CardDescription>Conflicting files keep the project&apos;s version</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {plan.files.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No file changes.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {plan.files.map((file) => (
+                        <details key={file.path} className="border rounded">
+                          <summary className="px-3 py-2 cursor-pointer text-sm flex items-center gap-2">
+                            <span className={`px-2 py-0.5 rounded-full text-xs ${actionClasses[file.action]}`}>{file.action}</span>
+                            <span className="font-mono">{file.path}</span>
+                          </summary>
+                          {file.diff ? (
+                            <pre className="px-3 py-2 text-xs overflow-x-auto border-t bg-muted/30">
+                              {file.diff.split('\n').map((line, i) => (
+                                <div key={i} className={diffLineClass(line)}>{line || ' '}</div>
+                              ))}
+                            </pre>
+                          ) : (
+                            <p className="px-3 py-2 text-xs text-muted-foreground border-t">Binary or large file; no preview.</p>
+                          )}
+                        </details>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card className="mb-6">
+                <CardHeader>
+                  <CardTitle>Environment Variables</CardTitle>
+                  <CardDescription>Values you changed are kept when upstream changes its default</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {plan.env.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No environment changes.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-muted-foreground border-b">
+                          <th className="py-2 pr-4 font-medium">Key</th>
+                          <th className="py-2 pr-4 font-medium">Change</th>
+                          <th className="py-2 pr-4 font-medium">Current</th>
+                          <th className="py-2 pr-4 font-medium">Upstream</th>
+                          <th className="py-2 font-medium">After</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {plan.env.map((change) => (
+                          <tr key={change.key} className="border-b last:border-0 align-top">
+                            <td className="py-2 pr-4 font-mono text-xs">{change.key}</td>
+                            <td className="py-2 pr-4">
+                              <span className={`px-2 py-0.5 rounded-full text-xs ${actionClasses[change.action]}`}>{change.action}</span>
+                            </td>
+                            <td className="py-2 pr-4 font-mono text-xs break-all">{change.current ?? '—'}</td>
+                            <td className="py-2 pr-4 font-mono text-xs break-all">{change.upstream ?? '—'}</td>
+                            <td className="py-2 font-mono text-xs break-all">
+                              {change.action === 'generate' ? 'random value' : change.value ?? '—'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </CardContent>
+              </Card>
+
+              <div className="flex justify-end gap-3">
+                <Button variant="outline" onClick={() => setPlan(null)} disabled={applying}>
+                  Discard
+                </Button>
+                <Button onClick={handleApply} disabled={applying}>
+                  {applying ? 'Applying...' : hasChanges ? 'Approve & Upgrade' : 'Upgrade & Redeploy'}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,313 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import Image from 'next/image'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+interface Template {
+  id: string
+  name: string
+  description: string | null
+  builtIn: boolean
+  services: string[]
+  envOverrides: Record<string, string>
+  authSettings: Record<string, string>
+  seedSql: string | null
+  createdAt: string
+}
+
+interface ProjectOption {
+  id: string
+  name: string
+}
+
+export default function TemplatesPage() {
+  const [templates, setTemplates] = useState<Template[]>([])
+  const [projects, setProjects] = useState<ProjectOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [expandedId, setExpandedId] = useState('')
+  const [deletingId, setDeletingId] = useState('')
+  const [projectId, setProjectId] = useState('')
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [seedSql, setSeedSql] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [notice, setNotice] = useState('')
+
+  const fetchTemplates = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch('/api/templates')
+      const data = await response.json()
+      if (response.ok) {
+        setTemplates(data.templates)
+      } else {
+        setError(data.error || 'Failed to load templates')
+      }
+    } catch {
+      setError('Failed to load templates')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    const loadProjects = async () => {
+      try {
+        const response = await fetch('/api/projects')
+        if (response.ok) {
+          const data = await response.json()
+          setProjects(data.projects)
+          setProjectId(data.projects[0]?.id || '')
+        }
+      } catch (error) {
+        console.error('Failed to load projects:', error)
+      }
+    }
+    fetchTemplates()
+    loadProjects()
+  }, [fetchTemplates])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) {
+      setError('Template name is required')
+      return
+    }
+    setSaving(true)
+    setError('')
+    setNotice('')
+
+    try {
+      const response = await fetch('/api/templates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          projectId,
+          name: name.trim(),
+          description: description.trim(),
+          seedSql,
+        }),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setNotice(data.skipped.length > 0
+          ? `Saved template "${data.template.name}" without the secrets ${data.skipped.join(', ')}; set them on each new project.`
+          : `Saved template "${data.template.name}".`)
+        setName('')
+        setDescription('')
+        setSeedSql('')
+        fetchTemplates()
+      } else {
+        setError(data.error || 'Failed to save template')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (template: Template) => {
+    if (!confirm(`Delete template "${template.name}"? Projects created from it are not affected.`)) return
+    setDeletingId(template.id)
+    setError('')
+    setNotice('')
+
+    try {
+      const response = await fetch(`/api/templates/${template.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (response.ok) {
+        fetchTemplates()
+      } else {
+        setError(data.error || 'Failed to delete template')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setDeletingId('')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Image
+              src="/logo.png"
+              alt="SupaConsole"
+              width={150}
+              height={150}
+              className="object-contain"
+            />
+          </div>
+          <Link href="/dashboard">
+            <Button variant="outline">Back to Dashboard</Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto">
+          <div className="mb-8">
+            <h2 className="text-3xl font-bold mb-2">Project Templates</h2>
+            <p className="text-muted-foreground">
+              Presets of services, env vars, auth settings and seed SQL to pick when creating a project
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-500/10 border border-red-500/20 text-red-500 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+          {notice && (
+            <div className="mb-6 bg-green-500/10 border border-green-500/20 text-green-700 dark:text-green-400 px-4 py-3 rounded text-sm">
+              {notice}
+            </div>
+          )}
+
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Templates</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {templates.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{loading ? 'Loading...' : 'No templates yet.'}</p>
+              ) : (
+                <div className="space-y-3">
+                  {templates.map((template) => (
+                    <div key={template.id} className="border rounded p-3">
+                      <div className="flex justify-between items-start gap-4">
+                        <div>
+                          <h4 className="font-medium">
+                            {template.name}
+                            {template.builtIn && (
+                              <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-800">built-in</span>
+                            )}
+                          </h4>
+                          {template.description && (
+                            <p className="text-sm text-muted-foreground">{template.description}</p>
+                          )}
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {template.services.length} services · {Object.keys(template.envOverrides).length} env override(s) · {Object.keys(template.authSettings).length} auth setting(s){template.seedSql ? ' · seed SQL' : ''}
+                          </p>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setExpandedId(expandedId === template.id ? '' : template.id)}
+                          >
+                            {expandedId === template.id ? 'Hide' : 'Details'}
+                          </Button>
+                          {!template.builtIn && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={deletingId !== ''}
+                              onClick={() => handleDelete(template)}
+                            >
+                              {deletingId === template.id ? 'Deleting...' : 'Delete'}
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                      {expandedId === template.id && (
+                        <div className="mt-3 space-y-2 text-xs">
+                          <p><span className="font-medium">Services:</span> {template.services.join(', ')}</p>
+                          {Object.keys({ ...template.envOverrides, ...template.authSettings }).length > 0 && (
+                            <pre className="font-mono bg-muted p-2 rounded overflow-auto">
+                              {Object.entries({ ...template.envOverrides, ...template.authSettings }).map(([key, value]) => `${key}=${value}`).join('\n')}
+                            </pre>
+                          )}
+                          {template.seedSql && (
+                            <pre className="font-mono bg-muted p-2 rounded overflow-auto max-h-64">{template.seedSql}</pre>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Save a Project as Template</CardTitle>
+              <CardDescription>
+                Keeps the project&apos;s services and the env vars that differ from the defaults. Secrets and ports are never saved.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {projects.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Create a project first.</p>
+              ) : (
+                <form onSubmit={handleSave} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="project">Project</Label>
+                    <select
+                      id="project"
+                      value={projectId}
+                      onChange={(e) => setProjectId(e.target.value)}
+                      className="border-input dark:bg-input/30 flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+                    >
+                      {projects.map((project) => (
+                        <option key={project.id} value={project.id}>{project.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Template Name *</Label>
+                    <Input
+                      id="name"
+                      type="text"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      disabled={saving}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="description">Description</Label>
+                    <Input
+                      id="description"
+                      type="text"
+                      placeholder="Optional"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      disabled={saving}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="seedSql">Seed SQL</Label>
+                    <textarea
+                      id="seedSql"
+                      rows={8}
+                      placeholder="Optional; runs once in one transaction after a new project's first deploy"
+                      value={seedSql}
+                      onChange={(e) => setSeedSql(e.target.value)}
+                      disabled={saving}
+                      className="border-input dark:bg-input/30 w-full rounded-md border bg-transparent px-3 py-2 text-sm font-mono shadow-xs"
+                    />
+                  </div>
+                  <Button type="submit" disabled={saving || !projectId}>
+                    {saving ? 'Saving...' : 'Save Template'}
+                  </Button>
+                </form>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,198 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import Image from 'next/image'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface TrashedProject {
+  id: string
+  name: string
+  slug: string
+  description: string | null
+  deletedAt: string
+  purgeAfter: string
+}
+
+export default function TrashPage() {
+  const router = useRouter()
+  const [projects, setProjects] = useState<TrashedProject[]>([])
+  const [graceDays, setGraceDays] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [pendingId, setPendingId] = useState('')
+  const [restored, setRestored] = useState<{ id: string; name: string; warnings: string[] } | null>(null)
+  const [error, setError] = useState('')
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      const response = await fetch('/api/trash')
+      const data = await response.json()
+      if (response.ok) {
+        setProjects(data.projects)
+        setGraceDays(data.graceDays)
+      } else {
+        setError(data.error || 'Failed to load trash')
+      }
+    } catch {
+      setError('Failed to load trash')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchTrash()
+  }, [fetchTrash])
+
+  const handleRestore = async (project: TrashedProject) => {
+    setPendingId(project.id)
+    setError('')
+    setRestored(null)
+
+    try {
+      const response = await fetch(`/api/projects/${project.id}/restore`, { method: 'POST' })
+      const data = await response.json()
+      if (response.ok) {
+        setRestored({ id: project.id, name: project.name, warnings: data.warnings })
+        fetchTrash()
+      } else {
+        setError(data.error || 'Failed to restore project')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setPendingId('')
+    }
+  }
+
+  const handleDeletePermanently = async (project: TrashedProject) => {
+    const confirmName = prompt(`This cannot be undone. Type "${project.name}" to delete the project, its files and its data permanently:`)
+    if (confirmName === null) return
+    if (confirmName !== project.name) {
+      setError('The name did not match; nothing was deleted.')
+      return
+    }
+    setPendingId(project.id)
+    setError('')
+    setRestored(null)
+
+    try {
+      const response = await fetch(`/api/projects/${project.id}?permanent=true&confirm=${encodeURIComponent(confirmName)}`, {
+        method: 'DELETE',
+      })
+      const data = await response.json()
+      if (response.ok) {
+        fetchTrash()
+      } else {
+        setError(data.error || 'Failed to delete project')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setPendingId('')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            <Image
+              src="/logo.png"
+              alt="SupaConsole"
+              width={150}
+              height={150}
+              className="object-contain"
+            />
+          </div>
+          <Link href="/dashboard">
+            <Button variant="outline">Back to Dashboard</Button>
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-5xl mx-auto">
+          <div className="mb-8">
+            <h2 className="text-3xl font-bold mb-2">Trash</h2>
+            <p className="text-muted-foreground">
+              Deleted projects are stopped and unpublished but keep their files, data and ports
+              {graceDays !== null && ` for ${graceDays} day${graceDays === 1 ? '' : 's'}`}. After that they are purged for good.
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 bg-red-500/10 border border-red-500/20 text-red-500 px-4 py-3 rounded whitespace-pre-line">
+              {error}
+            </div>
+          )}
+
+          {restored && (
+            <div className="mb-6 bg-green-500/10 border border-green-500/20 text-green-700 dark:text-green-400 px-4 py-3 rounded text-sm">
+              <p>
+                <strong>{restored.name}</strong> was restored. It is stopped; start or deploy it from the dashboard.
+              </p>
+              {restored.warnings.map((warning) => (
+                <p key={warning} className="text-yellow-600 mt-1">{warning}</p>
+              ))}
+              <Button className="mt-3" size="sm" variant="outline" onClick={() => router.push(`/dashboard/projects/${restored.id}/configure`)}>
+                Open Project
+              </Button>
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Deleted Projects</CardTitle>
+              <CardDescription>Restore a project to bring it back to the dashboard</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <p className="text-sm text-muted-foreground">Loading...</p>
+              ) : projects.length === 0 ? (
+                <p className="text-sm text-muted-foreground">The trash is empty.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-muted-foreground border-b">
+                      <th className="py-2 pr-4 font-medium">Project</th>
+                      <th className="py-2 pr-4 font-medium">Deleted</th>
+                      <th className="py-2 pr-4 font-medium">Purged after</th>
+                      <th className="py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {projects.map((project) => (
+                      <tr key={project.id} className="border-b last:border-0 align-top">
+                        <td className="py-2 pr-4">
+                          {project.name}
+                          <span className="ml-2 text-xs text-muted-foreground font-mono">{project.slug}</span>
+                          {project.description && <p className="text-xs text-muted-foreground">{project.description}</p>}
+                        </td>
+                        <td className="py-2 pr-4 whitespace-nowrap">{new Date(project.deletedAt).toLocaleString()}</td>
+                        <td className="py-2 pr-4 whitespace-nowrap">{new Date(project.purgeAfter).toLocaleString()}</td>
+                        <td className="py-2">
+                          <div className="flex gap-2 justify-end">
+                            <Button size="sm" variant="outline" disabled={pendingId !== ''} onClick={() => handleRestore(project)}>
+                              {pendingId === project.id ? '...' : 'Restore'}
+                            </Button>
+                            <Button size="sm" variant="destructive" disabled={pendingId !== ''} onClick={() => handleDeletePermanently(project)}>
+                              Delete Permanently
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,182 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+
+export interface Backup {
+  id: string
+  trigger: 'manual' | 'scheduled' | 'pre_restore'
+  status: 'running' | 'succeeded' | 'failed'
+  sizeBytes: number | null
+  checksum: string | null
+  error: string | null
+  projectId: string | null
+  projectName: string
+  createdAt: string
+  finishedAt: string | null
+}
+
+interface BackupListProps {
+  backups: Backup[]
+  // Offers "Restore Here" for backups when set; the global list only restores into new projects
+  projectId?: string
+  showProject?: boolean
+  disabled: boolean
+  // Receives the restore job and the project it runs on so the caller can follow its output
+  onRestore: (projectId: string, jobId: string) => void
+  onChange: () => void
+}
+
+const statusClasses: Record<string, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+}
+
+const triggerLabels: Record<string, string> = {
+  manual: 'Manual',
+  scheduled: 'Scheduled',
+  pre_restore: 'Before restore',
+}
+
+function formatSize(bytes: number | null) {
+  if (bytes === null) return ''
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KiB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MiB`
+}
+
+export default function BackupList({ backups, projectId, showProject, disabled, onRestore, onChange }: BackupListProps) {
+  const [pendingId, setPendingId] = useState('')
+  const [error, setError] = useState('')
+
+  const restore = async (backup: Backup, target: { projectId: string } | { name: string }) => {
+    setPendingId(backup.id)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/backups/${backup.id}/restore`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(target),
+      })
+      const data = await response.json()
+      if (response.ok) {
+        onRestore(data.project.id, data.job.id)
+      } else {
+        setError(data.error || 'Failed to restore backup')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setPendingId('')
+    }
+  }
+
+  const handleRestoreHere = (backup: Backup) => {
+    if (!projectId) return
+    if (!confirm(`Restore the backup from ${new Date(backup.createdAt).toLocaleString()}? The current database is backed up first, then replaced.`)) return
+    restore(backup, { projectId })
+  }
+
+  const handleRestoreNew = (backup: Backup) => {
+    const name = prompt('Name of the new project to restore into:', `${backup.projectName}-restore`)
+    if (!name?.trim()) return
+    restore(backup, { name: name.trim() })
+  }
+
+  const handleDelete = async (backup: Backup) => {
+    if (!confirm(`Delete the backup from ${new Date(backup.createdAt).toLocaleString()}? The file is removed from disk.`)) return
+    setPendingId(backup.id)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/backups/${backup.id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (response.ok) {
+        onChange()
+      } else {
+        setError(data.error || 'Failed to delete backup')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setPendingId('')
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 text-red-500 px-3 py-2 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {backups.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No backups yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b">
+              <th className="py-2 pr-4 font-medium">Created</th>
+              {showProject && <th className="py-2 pr-4 font-medium">Project</th>}
+              <th className="py-2 pr-4 font-medium">Type</th>
+              <th className="py-2 pr-4 font-medium">Status</th>
+              <th className="py-2 pr-4 font-medium">Size</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {backups.map((backup) => (
+              <tr key={backup.id} className="border-b last:border-0 align-top">
+                <td className="py-2 pr-4 whitespace-nowrap">{new Date(backup.createdAt).toLocaleString()}</td>
+                {showProject && (
+                  <td className="py-2 pr-4">
+                    {backup.projectName}
+                    {!backup.projectId && <span className="ml-2 text-xs text-muted-foreground">deleted</span>}
+                  </td>
+                )}
+                <td className="py-2 pr-4">{triggerLabels[backup.trigger] || backup.trigger}</td>
+                <td className="py-2 pr-4">
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${statusClasses[backup.status]}`}>
+                    {backup.status}
+                  </span>
+                  {backup.error && <p className="text-xs text-red-500 whitespace-pre-line break-words max-w-md">{backup.error}</p>}
+                </td>
+                <td className="py-2 pr-4 whitespace-nowrap" title={backup.checksum ? `sha256 ${backup.checksum}` : undefined}>
+                  {formatSize(backup.sizeBytes)}
+                </td>
+                <td className="py-2">
+                  <div className="flex gap-2 justify-end">
+                    {backup.status === 'succeeded' && (
+                      <>
+                        <a href={`/api/backups/${backup.id}/download`}>
+                          <Button size="sm" variant="outline">Download</Button>
+                        </a>
+                        {projectId && (
+                          <Button size="sm" variant="outline" disabled={disabled || pendingId !== ''} onClick={() => handleRestoreHere(backup)}>
+                            Restore Here
+                          </Button>
+                        )}
+                        <Button size="sm" variant="outline" disabled={disabled || pendingId !== ''} onClick={() => handleRestoreNew(backup)}>
+                          Restore as New
+                        </Button>
+                      </>
+                    )}
+                    {backup.status !== 'running' && (
+                      <Button size="sm" variant="outline" disabled={disabled || pendingId !== ''} onClick={() => handleDelete(backup)}>
+                        {pendingId === backup.id ? '...' : 'Delete'}
+                      </Button>
+                    )}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,142 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+
+interface Deployment {
+  id: string
+  number: number
+  trigger: 'deploy' | 'rollback' | 'rotation'
+  status: 'running' | 'succeeded' | 'failed' | 'rolled_back'
+  sourceNumber: number | null
+  coreCommit: string | null
+  error: string | null
+  createdAt: string
+  finishedAt: string | null
+}
+
+interface DeploymentHistoryProps {
+  projectId: string
+  // Disables rollbacks while a deploy runs; a change reloads the list
+  deploying: boolean
+  // Receives the queued rollback job so the caller can follow its output
+  onRollback: (jobId: string) => void
+}
+
+const statusClasses: Record<string, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  rolled_back: 'bg-orange-100 text-orange-800',
+}
+
+export default function DeploymentHistory({ projectId, deploying, onRollback }: DeploymentHistoryProps) {
+  const [deployments, setDeployments] = useState<Deployment[]>([])
+  const [pendingId, setPendingId] = useState('')
+  const [error, setError] = useState('')
+
+  const fetchDeployments = useCallback(async () => {
+    if (!projectId) return
+    try {
+      const response = await fetch(`/api/projects/${projectId}/deployments`)
+      const data = await response.json()
+      if (response.ok) {
+        setDeployments(data.deployments)
+        setError('')
+      } else {
+        setError(data.error || 'Failed to load deployments')
+      }
+    } catch {
+      setError('Failed to load deployments')
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    fetchDeployments()
+  }, [fetchDeployments, deploying])
+
+  const handleRollback = async (deployment: Deployment) => {
+    if (!confirm(`Roll back to deployment #${deployment.number}? Its .env, docker-compose.yml and env vars replace the current ones, except ports, the public URL and database-held secrets, and the stack is restarted.`)) return
+    setPendingId(deployment.id)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/deployments/${deployment.id}/rollback`, {
+        method: 'POST',
+      })
+      const data = await response.json()
+      if (response.ok) {
+        onRollback(data.job.id)
+      } else {
+        setError(data.error || 'Failed to roll back')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setPendingId('')
+    }
+  }
+
+  const current = deployments.find((d) => d.status === 'succeeded')
+
+  return (
+    <div className="space-y-2">
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 text-red-500 px-3 py-2 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {deployments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No deployments yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b">
+              <th className="py-2 pr-4 font-medium">#</th>
+              <th className="py-2 pr-4 font-medium">Started</th>
+              <th className="py-2 pr-4 font-medium">Status</th>
+              <th className="py-2 pr-4 font-medium">Details</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {deployments.map((deployment) => (
+              <tr key={deployment.id} className="border-b last:border-0 align-top">
+                <td className="py-2 pr-4">
+                  {deployment.number}
+                  {deployment.id === current?.id && (
+                    <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-800">current</span>
+                  )}
+                </td>
+                <td className="py-2 pr-4 whitespace-nowrap">{new Date(deployment.createdAt).toLocaleString()}</td>
+                <td className="py-2 pr-4">
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${statusClasses[deployment.status] || 'bg-gray-100 text-gray-800'}`}>
+                    {deployment.status.replace('_', ' ')}
+                  </span>
+                </td>
+                <td className="py-2 pr-4 text-xs text-muted-foreground">
+                  {deployment.trigger === 'rollback' && `Rollback to #${deployment.sourceNumber}`}
+                  {deployment.trigger === 'rotation' && 'Secret rotation'}
+                  {deployment.error && <p className="text-red-500 whitespace-pre-line break-words max-w-md">{deployment.error}</p>}
+                </td>
+                <td className="py-2 text-right">
+                  {deployment.status === 'succeeded' && deployment.id !== current?.id && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={deploying || pendingId !== ''}
+                      onClick={() => handleRollback(deployment)}
+                    >
+                      {pendingId === deployment.id ? 'Rolling back...' : 'Roll Back'}
+                    </Button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,269 @@
+'use client'
+
+import { Fragment, useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+
+interface EnvChange {
+  key: string
+  change: 'added' | 'removed' | 'changed'
+  secret: boolean
+  from: string | null
+  to: string | null
+}
+
+interface EnvVersion {
+  id: string
+  number: number
+  source: string
+  revertedTo: number | null
+  createdAt: string
+  user: { name: string | null; email: string } | null
+  changes: EnvChange[] | null
+}
+
+interface EnvHistoryProps {
+  projectId: string
+  // Any change reloads the list, e.g. after the configuration was saved
+  refreshKey: number
+  // Disables reverts while a deploy runs
+  deploying: boolean
+  // Called after a revert so the caller can reload the form
+  onReverted: (version: number, kept: string[]) => void
+}
+
+const sourceLabels: Record<string, string> = {
+  create: 'Project created',
+  save: 'Saved',
+  revert: 'Reverted',
+  rotation: 'Secret rotation',
+  services: 'Services changed',
+  ports: 'Ports repaired',
+  upgrade: 'Upgrade',
+  rollback: 'Deployment rollback',
+  publish: 'Published',
+  clone: 'Cloned',
+  import: 'Imported',
+}
+
+const changeClasses: Record<string, string> = {
+  added: 'text-green-600',
+  removed: 'text-red-500',
+  changed: 'text-yellow-600',
+}
+
+function ChangeTable({ changes }: { changes: EnvChange[] }) {
+  if (changes.length === 0) {
+    return <p className="text-xs text-muted-foreground">No differences.</p>
+  }
+  return (
+    <table className="w-full text-xs font-mono">
+      <tbody>
+        {changes.map((change) => (
+          <tr key={change.key} className="align-top">
+            <td className={`py-0.5 pr-3 ${changeClasses[change.change]}`}>{change.change}</td>
+            <td className="py-0.5 pr-3">{change.key}</td>
+            <td className="py-0.5 break-all text-muted-foreground">
+              {change.secret
+                ? '•••••• (secret value hidden)'
+                : change.change === 'added'
+                  ? change.to
+                  : change.change === 'removed'
+                    ? change.from
+                    : `${change.from} → ${change.to}`}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export default function EnvHistory({ projectId, refreshKey, deploying, onReverted }: EnvHistoryProps) {
+  const [versions, setVersions] = useState<EnvVersion[]>([])
+  const [needsRedeploy, setNeedsRedeploy] = useState(false)
+  const [expanded, setExpanded] = useState<number | null>(null)
+  const [compareFrom, setCompareFrom] = useState('')
+  const [compareTo, setCompareTo] = useState('')
+  const [comparison, setComparison] = useState<{ from: number; to: number; changes: EnvChange[] } | null>(null)
+  const [pendingNumber, setPendingNumber] = useState<number | null>(null)
+  const [error, setError] = useState('')
+
+  const fetchVersions = useCallback(async () => {
+    if (!projectId) return
+    try {
+      const response = await fetch(`/api/projects/${projectId}/env/versions`)
+      const data = await response.json()
+      if (response.ok) {
+        setVersions(data.versions)
+        setNeedsRedeploy(data.needsRedeploy)
+        setError('')
+        if (data.versions.length > 0) {
+          setCompareTo(String(data.versions[0].number))
+          setCompareFrom(String(data.versions[Math.min(1, data.versions.length - 1)].number))
+        }
+      } else {
+        setError(data.error || 'Failed to load configuration history')
+      }
+    } catch {
+      setError('Failed to load configuration history')
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    fetchVersions()
+  }, [fetchVersions, refreshKey, deploying])
+
+  const handleCompare = async () => {
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/env/versions/diff?from=${compareFrom}&to=${compareTo}`)
+      const data = await response.json()
+      if (response.ok) {
+        setComparison(data)
+      } else {
+        setError(data.error || 'Failed to compare versions')
+      }
+    } catch {
+      setError('Failed to compare versions')
+    }
+  }
+
+  const handleRevert = async (version: EnvVersion) => {
+    if (!confirm(`Revert the environment variables to version ${version.number}? The .env file is rewritten; redeploy the project to apply it.`)) return
+    setPendingNumber(version.number)
+    setError('')
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/env/versions/${version.number}/revert`, {
+        method: 'POST',
+      })
+      const data = await response.json()
+      if (response.ok) {
+        setComparison(null)
+        onReverted(version.number, data.kept)
+        fetchVersions()
+      } else {
+        setError(data.error || 'Failed to revert')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setPendingNumber(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 text-red-500 px-3 py-2 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      {needsRedeploy && (
+        <div className="bg-yellow-500/10 border border-yellow-500/20 text-yellow-600 px-3 py-2 rounded text-sm">
+          The environment variables changed since the last successful deploy. Deploy the project to apply them.
+        </div>
+      )}
+
+      {versions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No versions yet.</p>
+      ) : (
+        <>
+          <div className="flex items-center gap-2 text-sm">
+            <span>Compare</span>
+            <select
+              className="border rounded px-2 py-1 bg-background"
+              value={compareFrom}
+              onChange={(e) => setCompareFrom(e.target.value)}
+            >
+              {versions.map((version) => (
+                <option key={version.id} value={version.number}>v{version.number}</option>
+              ))}
+            </select>
+            <span>with</span>
+            <select
+              className="border rounded px-2 py-1 bg-background"
+              value={compareTo}
+              onChange={(e) => setCompareTo(e.target.value)}
+            >
+              {versions.map((version) => (
+                <option key={version.id} value={version.number}>v{version.number}</option>
+              ))}
+            </select>
+            <Button size="sm" variant="outline" onClick={handleCompare} disabled={!compareFrom || !compareTo}>
+              Show Diff
+            </Button>
+          </div>
+
+          {comparison && (
+            <div className="bg-card border rounded-lg p-3">
+              <h4 className="font-medium text-sm mb-2">Changes from v{comparison.from} to v{comparison.to}</h4>
+              <ChangeTable changes={comparison.changes} />
+            </div>
+          )}
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b">
+                <th className="py-2 pr-4 font-medium">Version</th>
+                <th className="py-2 pr-4 font-medium">When</th>
+                <th className="py-2 pr-4 font-medium">By</th>
+                <th className="py-2 pr-4 font-medium">Change</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {versions.map((version, index) => (
+                <Fragment key={version.id}>
+                  <tr className="border-b last:border-0 align-top">
+                    <td className="py-2 pr-4">
+                      {version.number}
+                      {index === 0 && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-800">current</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4 whitespace-nowrap">{new Date(version.createdAt).toLocaleString()}</td>
+                    <td className="py-2 pr-4">{version.user ? version.user.name || version.user.email : '—'}</td>
+                    <td className="py-2 pr-4">
+                      {sourceLabels[version.source] || version.source}
+                      {version.revertedTo !== null && ` to v${version.revertedTo}`}
+                      {version.changes && (
+                        <button
+                          type="button"
+                          className="ml-2 text-xs text-muted-foreground underline"
+                          onClick={() => setExpanded(expanded === version.number ? null : version.number)}
+                        >
+                          {version.changes.length} change{version.changes.length === 1 ? '' : 's'}
+                        </button>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      {index > 0 && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={deploying || pendingNumber !== null}
+                          onClick={() => handleRevert(version)}
+                        >
+                          {pendingNumber === version.number ? 'Reverting...' : 'Revert'}
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                  {expanded === version.number && version.changes && (
+                    <tr className="border-b">
+                      <td colSpan={5} className="pb-3">
+                        <ChangeTable changes={version.changes} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  )
+}
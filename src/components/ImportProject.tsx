@@ -0,0 +1,163 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+
+// Imports a project from an archive exported on another host. Archives with a database
+// start a job that deploys the project and restores it; its output is shown inline.
+export default function ImportProject() {
+  const router = useRouter()
+  const [file, setFile] = useState<File | null>(null)
+  const [name, setName] = useState('')
+  const [uploading, setUploading] = useState(false)
+  const [running, setRunning] = useState(false)
+  const [imported, setImported] = useState<{ id: string; warnings: string[] } | null>(null)
+  const [log, setLog] = useState<string[]>([])
+  const [error, setError] = useState('')
+  const streamRef = useRef<EventSource | null>(null)
+
+  useEffect(() => {
+    return () => streamRef.current?.close()
+  }, [])
+
+  const followJob = (projectId: string, jobId: string) => {
+    setRunning(true)
+    const source = new EventSource(`/api/projects/${projectId}/jobs/${jobId}/stream`)
+    streamRef.current = source
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data)
+      if (event.type === 'log') {
+        setLog(prev => [...prev, event.line])
+      } else if (event.type === 'done') {
+        source.close()
+        streamRef.current = null
+        setRunning(false)
+        if (event.status !== 'succeeded') {
+          setError(event.error || 'Restoring the imported database failed')
+        }
+      }
+    }
+
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        streamRef.current = null
+        setRunning(false)
+        setError('Lost connection to the import log stream.')
+      }
+    }
+  }
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!file) {
+      setError('Choose an archive to import')
+      return
+    }
+    setUploading(true)
+    setError('')
+    setLog([])
+
+    try {
+      const query = name.trim() ? `?name=${encodeURIComponent(name.trim())}` : ''
+      const response = await fetch(`/api/projects/import${query}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/gzip',
+        },
+        body: file,
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        setError(data.error || 'Failed to import project')
+        return
+      }
+      if (!data.job && data.warnings.length === 0) {
+        router.push(`/dashboard/projects/${data.project.id}/configure`)
+        return
+      }
+      setImported({ id: data.project.id, warnings: data.warnings })
+      if (data.job) {
+        followJob(data.project.id, data.job.id)
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import from Archive</CardTitle>
+        <CardDescription>
+          Recreate a project exported from another SupaConsole host. It gets a new slug and ports on this host; secrets and configuration come from the archive.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="bg-red-500/10 border border-red-500/20 text-red-500 px-4 py-3 rounded whitespace-pre-line">
+            {error}
+          </div>
+        )}
+
+        {imported ? (
+          <>
+            {imported.warnings.length > 0 && (
+              <div className="bg-yellow-500/10 border border-yellow-500/20 text-yellow-600 px-4 py-3 rounded">
+                <p className="text-sm font-semibold mb-2">The project was imported with warnings:</p>
+                <ul className="text-sm list-disc pl-5 space-y-1">
+                  {imported.warnings.map((warning) => (
+                    <li key={warning}>{warning}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {log.length > 0 && (
+              <pre className="max-h-80 overflow-auto text-xs font-mono whitespace-pre-wrap bg-black/80 text-gray-100 p-3 rounded">
+                {log.join('\n')}
+              </pre>
+            )}
+            {!running && (
+              <Button onClick={() => router.push(`/dashboard/projects/${imported.id}/configure`)}>
+                Open Imported Project
+              </Button>
+            )}
+          </>
+        ) : (
+          <form onSubmit={handleImport} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="archive">Archive (.tar.gz)</Label>
+              <Input
+                id="archive"
+                type="file"
+                accept=".tar.gz,.tgz,application/gzip"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                disabled={uploading}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="importName">Project Name</Label>
+              <Input
+                id="importName"
+                type="text"
+                placeholder="Defaults to the archived name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                disabled={uploading}
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={uploading || !file}>
+              {uploading ? 'Importing...' : 'Import Project'}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
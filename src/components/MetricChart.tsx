@@ -0,0 +1,69 @@
+'use client'
+
+interface MetricSeries {
+  key: string
+  label: string
+  color: string
+}
+
+interface MetricChartProps {
+  title: string
+  points: Array<{ t: string }>
+  series: MetricSeries[]
+  format: (value: number) => string
+  height?: number
+}
+
+const WIDTH = 600
+
+const valueOf = (point: { t: string }, key: string) => Number((point as unknown as Record<string, unknown>)[key]) || 0
+
+// Minimal SVG line chart; the y axis always starts at zero
+export default function MetricChart({ title, points, series, format, height = 140 }: MetricChartProps) {
+  const values = points.flatMap((point) => series.map((s) => valueOf(point, s.key)))
+  const max = Math.max(...values, 0) || 1
+  const start = points.length > 0 ? new Date(points[0].t).getTime() : 0
+  const end = points.length > 0 ? new Date(points[points.length - 1].t).getTime() : 0
+  const span = end - start || 1
+
+  const toPath = (key: string) =>
+    points
+      .map((point, i) => {
+        const x = points.length === 1 ? WIDTH / 2 : ((new Date(point.t).getTime() - start) / span) * WIDTH
+        const y = height - (valueOf(point, key) / max) * (height - 4) - 2
+        return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`
+      })
+      .join(' ')
+
+  const latest = points[points.length - 1]
+
+  return (
+    <div className="border rounded-lg p-3">
+      <div className="flex justify-between items-baseline mb-2">
+        <h5 className="text-sm font-medium">{title}</h5>
+        <span className="text-xs text-muted-foreground">max {format(max)}</span>
+      </div>
+      {points.length === 0 ? (
+        <div className="flex items-center justify-center text-xs text-muted-foreground" style={{ height }}>
+          No samples in this range
+        </div>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${height}`} preserveAspectRatio="none" className="w-full" style={{ height }}>
+          <line x1={0} y1={height - 1} x2={WIDTH} y2={height - 1} stroke="currentColor" strokeOpacity={0.15} />
+          {series.map((s) => (
+            <path key={s.key} d={toPath(s.key)} fill="none" stroke={s.color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          ))}
+        </svg>
+      )}
+      <div className="flex flex-wrap gap-3 mt-2 text-xs">
+        {series.map((s) => (
+          <span key={s.key} className="flex items-center gap-1">
+            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: s.color }}></span>
+            {s.label}
+            {latest && <span className="text-muted-foreground">{format(valueOf(latest, s.key))}</span>}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
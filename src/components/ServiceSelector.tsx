@@ -0,0 +1,58 @@
+'use client'
+
+import { SUPABASE_SERVICES, resolveServiceSet } from '@/lib/supabase-services'
+
+interface ServiceSelectorProps {
+  selected: string[]
+  onChange: (services: string[]) => void
+  disabled?: boolean
+}
+
+// Checkbox list of the Supabase services. Required services are always on; enabling a
+// service also enables what it requires, disabling one also disables what depends on it.
+export default function ServiceSelector({ selected, onChange, disabled }: ServiceSelectorProps) {
+  const toggle = (key: string, checked: boolean) => {
+    if (checked) {
+      onChange(resolveServiceSet([...selected, key]).services || selected)
+      return
+    }
+
+    const removed = new Set([key])
+    let added = true
+    while (added) {
+      added = false
+      for (const service of SUPABASE_SERVICES) {
+        if (!removed.has(service.key) && service.requires?.some((r) => removed.has(r))) {
+          removed.add(service.key)
+          added = true
+        }
+      }
+    }
+    onChange(selected.filter((s) => !removed.has(s)))
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+      {SUPABASE_SERVICES.map((service) => (
+        <label key={service.key} className="flex items-start gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="mt-1"
+            checked={!service.optional || selected.includes(service.key)}
+            disabled={disabled || !service.optional}
+            onChange={(e) => toggle(service.key, e.target.checked)}
+          />
+          <span>
+            {service.label}
+            {!service.optional && <span className="text-muted-foreground"> (required)</span>}
+            {service.requires && (
+              <span className="block text-xs text-muted-foreground">
+                Needs {service.requires.map((r) => SUPABASE_SERVICES.find((s) => s.key === r)?.label || r).join(', ')}
+              </span>
+            )}
+          </span>
+        </label>
+      ))}
+    </div>
+  )
+}
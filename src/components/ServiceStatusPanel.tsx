@@ -0,0 +1,161 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+
+interface ServiceStatus {
+  key: string
+  label: string
+  containerName: string
+  state: string
+  health: string | null
+  uptimeSeconds: number | null
+  restartCount: number
+  ports: Array<{ hostPort: number; containerPort: number; protocol: string }>
+}
+
+interface ServiceStatusPanelProps {
+  projectId: string
+}
+
+const stateDotClasses: Record<string, string> = {
+  running: 'bg-green-500',
+  restarting: 'bg-yellow-500',
+  paused: 'bg-yellow-500',
+  created: 'bg-gray-400',
+  exited: 'bg-red-500',
+  dead: 'bg-red-500',
+}
+
+const healthClasses: Record<string, string> = {
+  healthy: 'text-green-600',
+  starting: 'text-yellow-600',
+  unhealthy: 'text-red-600',
+}
+
+function formatUptime(seconds: number | null) {
+  if (seconds === null) return '—'
+  if (seconds < 60) return `${seconds}s`
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`
+  return `${Math.floor(seconds / 86400)}d ${Math.floor((seconds % 86400) / 3600)}h`
+}
+
+export default function ServiceStatusPanel({ projectId }: ServiceStatusPanelProps) {
+  const [services, setServices] = useState<ServiceStatus[]>([])
+  const [loading, setLoading] = useState(true)
+  const [restarting, setRestarting] = useState<string | null>(null)
+  const [error, setError] = useState('')
+
+  const fetchServices = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/services`)
+      const data = await response.json()
+      if (response.ok) {
+        setServices(data.services)
+        setError('')
+      } else {
+        setError(data.error || 'Failed to load services')
+      }
+    } catch {
+      setError('Failed to load services')
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId])
+
+  const handleRestart = async (serviceKey: string) => {
+    setRestarting(serviceKey)
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/services/${serviceKey}/restart`, {
+        method: 'POST',
+      })
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.error || 'Failed to restart service')
+      }
+      await fetchServices()
+    } catch {
+      setError('Failed to restart service')
+    } finally {
+      setRestarting(null)
+    }
+  }
+
+  useEffect(() => {
+    fetchServices()
+  }, [fetchServices])
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h5 className="text-sm font-medium text-gray-700 dark:text-gray-300">Services:</h5>
+        <Button variant="ghost" size="sm" onClick={fetchServices} disabled={loading}>
+          {loading ? 'Refreshing...' : 'Refresh'}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 text-red-500 px-3 py-2 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="max-h-72 overflow-auto rounded border border-gray-200 dark:border-gray-800">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-400">
+            <tr>
+              <th className="text-left p-2">Service</th>
+              <th className="text-left p-2">State</th>
+              <th className="text-left p-2">Health</th>
+              <th className="text-left p-2">Uptime</th>
+              <th className="text-left p-2">Restarts</th>
+              <th className="text-left p-2">Ports</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {services.map((service) => (
+              <tr key={service.key} className="border-t border-gray-200 dark:border-gray-800">
+                <td className="p-2" title={service.containerName}>{service.label}</td>
+                <td className="p-2">
+                  <span className="flex items-center gap-1">
+                    <span className={`w-2 h-2 rounded-full ${stateDotClasses[service.state] || 'bg-gray-300'}`}></span>
+                    {service.state}
+                  </span>
+                </td>
+                <td className={`p-2 ${service.health ? healthClasses[service.health] || '' : 'text-gray-400'}`}>
+                  {service.health || '—'}
+                </td>
+                <td className="p-2">{formatUptime(service.uptimeSeconds)}</td>
+                <td className="p-2">{service.restartCount}</td>
+                <td className="p-2 font-mono">
+                  {service.ports.length > 0
+                    ? service.ports.map((p) => `${p.hostPort}:${p.containerPort}`).join(', ')
+                    : '—'}
+                </td>
+                <td className="p-2 text-right">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={restarting !== null || service.state === 'missing'}
+                    onClick={() => handleRestart(service.key)}
+                  >
+                    {restarting === service.key ? 'Restarting...' : 'Restart'}
+                  </Button>
+                </td>
+              </tr>
+            ))}
+            {!loading && services.length === 0 && !error && (
+              <tr>
+                <td colSpan={7} className="p-2 text-gray-500 dark:text-gray-400">No services found</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
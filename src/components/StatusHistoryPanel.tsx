@@ -0,0 +1,134 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+
+interface StatusEvent {
+  id: string
+  kind: 'lifecycle' | 'runtime'
+  fromStatus: string | null
+  toStatus: string
+  reason: string | null
+  createdAt: string
+}
+
+interface StatusHistoryPanelProps {
+  projectId: string
+  // Called after a manual check, so the caller can refresh the project's badges
+  onChecked?: () => void
+}
+
+export const runtimeBadgeClasses: Record<string, string> = {
+  running: 'bg-green-100 text-green-800',
+  degraded: 'bg-orange-100 text-orange-800',
+  stopped: 'bg-red-100 text-red-800',
+  missing: 'bg-gray-100 text-gray-800',
+}
+
+export default function StatusHistoryPanel({ projectId, onChecked }: StatusHistoryPanelProps) {
+  const [events, setEvents] = useState<StatusEvent[]>([])
+  const [runtimeStatus, setRuntimeStatus] = useState<string | null>(null)
+  const [checkedAt, setCheckedAt] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [checking, setChecking] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchHistory = useCallback(async () => {
+    setLoading(true)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/status?limit=50`)
+      const data = await response.json()
+      if (response.ok) {
+        setEvents(data.events)
+        setRuntimeStatus(data.runtimeStatus)
+        setCheckedAt(data.runtimeCheckedAt)
+        setError('')
+      } else {
+        setError(data.error || 'Failed to load status history')
+      }
+    } catch {
+      setError('Failed to load status history')
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId])
+
+  const handleCheck = async () => {
+    setChecking(true)
+    setError('')
+    try {
+      const response = await fetch(`/api/projects/${projectId}/status`, { method: 'POST' })
+      if (!response.ok) {
+        const data = await response.json()
+        setError(data.error || 'Failed to check status')
+      }
+      await fetchHistory()
+      onChecked?.()
+    } catch {
+      setError('Failed to check status')
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchHistory()
+  }, [fetchHistory])
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h5 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+          Containers:{' '}
+          {runtimeStatus ? (
+            <span className={`px-2 py-0.5 rounded-full text-xs ${runtimeBadgeClasses[runtimeStatus] || 'bg-gray-100 text-gray-800'}`}>
+              {runtimeStatus}
+            </span>
+          ) : (
+            <span className="text-xs text-gray-500">not checked yet</span>
+          )}
+          {checkedAt && (
+            <span className="ml-2 text-xs font-normal text-gray-500">checked {new Date(checkedAt).toLocaleTimeString()}</span>
+          )}
+        </h5>
+        <Button variant="ghost" size="sm" onClick={handleCheck} disabled={checking || loading}>
+          {checking ? 'Checking...' : 'Check Now'}
+        </Button>
+      </div>
+
+      {error && (
+        <div className="bg-red-500/10 border border-red-500/20 text-red-500 px-3 py-2 rounded text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="max-h-48 overflow-auto rounded border border-gray-200 dark:border-gray-800">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-400">
+            <tr>
+              <th className="text-left p-2">When</th>
+              <th className="text-left p-2">Kind</th>
+              <th className="text-left p-2">Change</th>
+              <th className="text-left p-2">Reason</th>
+            </tr>
+          </thead>
+          <tbody>
+            {events.map((event) => (
+              <tr key={event.id} className="border-t border-gray-200 dark:border-gray-800 align-top">
+                <td className="p-2 whitespace-nowrap">{new Date(event.createdAt).toLocaleString()}</td>
+                <td className="p-2">{event.kind}</td>
+                <td className="p-2 whitespace-nowrap">{event.fromStatus || '—'} → {event.toStatus}</td>
+                <td className="p-2 text-gray-600 dark:text-gray-400 break-words">{event.reason || ''}</td>
+              </tr>
+            ))}
+            {!loading && events.length === 0 && !error && (
+              <tr>
+                <td colSpan={4} className="p-2 text-gray-500 dark:text-gray-400">No status changes recorded yet</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
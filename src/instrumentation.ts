@@ -0,0 +1,19 @@
+// Next.js calls register() once when the server starts; background workers are started here
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  const { startSecretEncryption } = await import('./lib/env-vars')
+  startSecretEncryption()
+
+  const { startMetricsCollector } = await import('./lib/metrics')
+  startMetricsCollector()
+
+  const { startStatusReconciler } = await import('./lib/reconciler')
+  startStatusReconciler()
+
+  const { startBackupScheduler } = await import('./lib/backups')
+  startBackupScheduler()
+
+  const { startTrashPurger } = await import('./lib/trash')
+  startTrashPurger()
+}
@@ -0,0 +1,369 @@
+import { promises as fs, createReadStream, createWriteStream } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { randomUUID } from 'crypto'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import type { ReadableStream as WebReadableStream } from 'stream/web'
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import { prisma } from './db'
+import { startJob, getActiveJob, type JobLogger } from './jobs'
+import { createProject, deployProject, writeProjectEnvFile, LOCAL_URL_KEYS } from './project'
+import { dumpDatabaseToFile, runSql, isDatabaseReady, MANAGED_DATA_SCHEMAS } from './pg'
+import { transformComposeFile } from './compose'
+import { getDefaultCoreVersion } from './core-versions'
+import { backupDir, fileChecksum } from './backups'
+import { PORT_VARIABLES } from './ports'
+import { parseEnabledServices, resolveServiceSet, findService } from './supabase-services'
+import { getProjectEnvVars, setProjectEnvVars, recordEnvVersion } from './env-vars'
+import { validateEnvVars } from './env-catalog'
+import { checkApiKeys } from './keys'
+
+const execFileAsync = promisify(execFile)
+
+// Archive layout: manifest.json, docker/ (the project's docker folder without runtime data and
+// .env) and, when exported with data, database.sql. Bump the version on incompatible changes.
+export const ARCHIVE_FORMAT = 'supaconsole-project'
+export const ARCHIVE_VERSION = 1
+
+const MANIFEST_FILE = 'manifest.json'
+const DOCKER_DIR = 'docker'
+const DATABASE_FILE = 'database.sql'
+
+// Never exported: runtime data (storage files only on request) and the .env rendered from the rows
+const EXCLUDED_PATHS = ['volumes/db/data', 'volumes/storage', '.env']
+
+// Belong to the host the project runs on; the target host assigns its own
+const HOST_ENV_KEYS = [...PORT_VARIABLES, 'PUBLIC_HOSTNAME', 'PUBLIC_URL']
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT
+  version: number
+  exportedAt: string
+  project: {
+    name: string
+    slug: string
+    description: string | null
+    services: string[]
+    coreVersion: { ref: string; commit: string | null } | null
+  }
+  envVars: Record<string, string>
+  includes: {
+    database: boolean
+    storage: boolean
+  }
+  databaseChecksum: string | null // sha256 of database.sql
+}
+
+export interface ExportOptions {
+  includeData?: boolean
+  includeStorage?: boolean
+}
+
+function projectDockerDir(slug: string) {
+  return path.join(process.cwd(), 'supabase-projects', slug, 'docker')
+}
+
+function exportsDir() {
+  return path.join(backupDir(), 'exports')
+}
+
+// One archive per project; a new export replaces the previous one
+function exportPath(projectId: string) {
+  return path.join(exportsDir(), `${projectId}.tar.gz`)
+}
+
+async function copyDockerDir(from: string, to: string, excluded: string[]) {
+  await fs.cp(from, to, {
+    recursive: true,
+    force: true,
+    filter: (file) => {
+      const relative = path.relative(from, file).split(path.sep).join('/')
+      return !excluded.some((dir) => relative === dir || relative.startsWith(`${dir}/`))
+    },
+  })
+}
+
+// Archives must not smuggle links to files outside the extracted tree
+async function assertNoSymlinks(dir: string) {
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const full = path.join(dir, entry.name)
+    if (entry.isSymbolicLink()) {
+      throw new Error(`The archive contains a symbolic link (${path.relative(dir, full)}), which is not allowed`)
+    }
+    if (entry.isDirectory()) {
+      await assertNoSymlinks(full)
+    }
+  }
+}
+
+async function runExport(projectId: string, options: ExportOptions, log: JobLogger) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: { coreVersion: true },
+  })
+  if (!project) {
+    throw new Error('Project not found')
+  }
+
+  const staging = await fs.mkdtemp(path.join(os.tmpdir(), 'supaconsole-export-'))
+  try {
+    log(options.includeStorage ? 'Copying the docker folder with storage files...' : 'Copying the docker folder...')
+    const excluded = options.includeStorage ? EXCLUDED_PATHS.filter((dir) => dir !== 'volumes/storage') : EXCLUDED_PATHS
+    await copyDockerDir(projectDockerDir(project.slug), path.join(staging, DOCKER_DIR), excluded)
+
+    let databaseChecksum: string | null = null
+    if (options.includeData) {
+      log('Dumping the database...')
+      const dumpFile = path.join(staging, DATABASE_FILE)
+      const schemas = await dumpDatabaseToFile(project.slug, dumpFile, { dataSchemas: MANAGED_DATA_SCHEMAS })
+      log(`Dumped schemas ${schemas.join(', ')} and the data of ${MANAGED_DATA_SCHEMAS.join(', ')}`)
+      databaseChecksum = await fileChecksum(dumpFile)
+    }
+
+    const envVars = await getProjectEnvVars(projectId)
+
+    const manifest: ArchiveManifest = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      project: {
+        name: project.name,
+        slug: project.slug,
+        description: project.description,
+        services: parseEnabledServices(project.services),
+        coreVersion: project.coreVersion ? { ref: project.coreVersion.ref, commit: project.coreCommit } : null,
+      },
+      envVars,
+      includes: { database: !!options.includeData, storage: !!options.includeStorage },
+      databaseChecksum,
+    }
+    await fs.writeFile(path.join(staging, MANIFEST_FILE), JSON.stringify(manifest, null, 2))
+
+    log('Writing the archive...')
+    await fs.mkdir(exportsDir(), { recursive: true })
+    const archive = exportPath(projectId)
+    const partial = `${archive}.partial`
+    await execFileAsync('tar', ['-czf', partial, '-C', staging, '.'], { timeout: 30 * 60 * 1000 })
+    await fs.rename(partial, archive)
+
+    const { size } = await fs.stat(archive)
+    log(`Export complete (${(size / 1024 / 1024).toFixed(1)} MiB). The archive contains the project's secrets; store it safely.`)
+    return { success: true }
+  } finally {
+    await fs.rm(staging, { recursive: true, force: true })
+  }
+}
+
+// Exports as a background job; if an export is already running, returns that job
+export async function queueExportProject(projectId: string, options: ExportOptions) {
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+    if (options.includeStorage && !options.includeData) {
+      throw new Error('Storage files can only be exported together with the database')
+    }
+
+    const active = await getActiveJob(projectId, 'export')
+    if (active) {
+      return { success: true, job: active, alreadyRunning: true }
+    }
+
+    if (options.includeData && !(await isDatabaseReady(project.slug).catch(() => false))) {
+      throw new Error(`The database of ${project.name} is not running; start the project to export its data`)
+    }
+
+    const job = await startJob(projectId, 'export', (log) => runExport(projectId, options, log))
+    return { success: true, job, alreadyRunning: false }
+  } catch (error) {
+    console.error('Failed to queue export:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+export async function getExportArchive(projectId: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+  })
+  if (!project) return null
+
+  const archive = exportPath(projectId)
+  const stat = await fs.stat(archive).catch(() => null)
+  if (!stat) return null
+
+  const date = stat.mtime.toISOString().slice(0, 10)
+  return { path: archive, filename: `${project.slug}-${date}.tar.gz`, size: stat.size, createdAt: stat.mtime }
+}
+
+function validateManifest(value: unknown): ArchiveManifest {
+  const manifest = value as ArchiveManifest
+  if (!manifest || manifest.format !== ARCHIVE_FORMAT) {
+    throw new Error('Not a SupaConsole project archive')
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > ARCHIVE_VERSION) {
+    throw new Error(`The archive was exported by a newer SupaConsole (format version ${manifest.version}); update this console first`)
+  }
+  if (!manifest.project?.name || !Array.isArray(manifest.project.services) || !manifest.envVars || typeof manifest.envVars !== 'object') {
+    throw new Error('The archive manifest is incomplete')
+  }
+  return manifest
+}
+
+// Archived env vars are checked like a saved configuration before anything is created; an archive
+// with invalid ones is rejected as a whole. Host-specific keys are replaced on import and skipped.
+function validateArchivedEnvVars(envVars: Record<string, unknown>) {
+  const archived = Object.fromEntries(Object.entries(envVars).filter(([key]) => !HOST_ENV_KEYS.includes(key)))
+  const { values, errors } = validateEnvVars(archived)
+  if (['JWT_SECRET', 'ANON_KEY', 'SERVICE_ROLE_KEY'].some((key) => key in values)) {
+    for (const check of checkApiKeys(values)) {
+      if (!check.valid && !errors[check.key]) {
+        errors[check.key] = check.error || 'Invalid key'
+      }
+    }
+  }
+
+  const invalid = Object.entries(errors)
+  if (invalid.length > 0) {
+    throw new Error(`The archive has invalid env vars: ${invalid.map(([key, error]) => `${key} (${error})`).join(', ')}`)
+  }
+  return values
+}
+
+async function restoreArchivedDatabase(staging: string, manifest: ArchiveManifest, target: { id: string; slug: string }, log: JobLogger) {
+  const dumpFile = path.join(staging, DATABASE_FILE)
+  if ((await fileChecksum(dumpFile)) !== manifest.databaseChecksum) {
+    throw new Error('database.sql does not match the checksum in the manifest')
+  }
+
+  log('Deploying the imported project...')
+  const deploy = await deployProject(target.id, { onLog: log })
+  if (!deploy.success) {
+    throw new Error(`Deploying the imported project failed: ${deploy.error}`)
+  }
+
+  log('Restoring the database...')
+  await runSql(target.slug, createReadStream(dumpFile))
+  log('Database restored')
+}
+
+// Recreates a project from an archive: new slug and port block, everything else from the archive.
+// With a database in the archive, a background job deploys the project and restores it.
+// Takes ownership of the archive file and removes it.
+export async function importProject(archiveFile: string, userId: string, options: { name?: string } = {}) {
+  const staging = await fs.mkdtemp(path.join(os.tmpdir(), 'supaconsole-import-'))
+  let jobStarted = false
+  try {
+    try {
+      await execFileAsync('tar', ['-xzf', archiveFile, '-C', staging], { timeout: 30 * 60 * 1000 })
+    } catch {
+      throw new Error('The file is not a valid .tar.gz archive')
+    }
+    await assertNoSymlinks(staging)
+
+    const manifestText = await fs.readFile(path.join(staging, MANIFEST_FILE), 'utf8').catch(() => null)
+    if (manifestText === null) {
+      throw new Error('The archive has no manifest.json')
+    }
+    const manifest = validateManifest(JSON.parse(manifestText))
+    const archivedEnvVars = validateArchivedEnvVars(manifest.envVars)
+    const warnings: string[] = []
+
+    // Same Supabase version when this host has it checked out, else the default one
+    let coreVersionId: string | undefined
+    const archivedRef = manifest.project.coreVersion?.ref
+    if (archivedRef) {
+      const version = await prisma.coreVersion.findFirst({
+        where: { ref: archivedRef, status: 'ready' },
+      })
+      if (version) {
+        coreVersionId = version.id
+      } else {
+        const fallback = await getDefaultCoreVersion()
+        warnings.push(`Supabase version ${archivedRef} is not checked out on this host; the project is recorded as ${fallback?.ref ?? 'supabase-core'}`)
+      }
+    }
+
+    // Services this host doesn't know are dropped; dependencies resolve as for a new project
+    const unknownServices = manifest.project.services.filter((key) => !findService(key))
+    if (unknownServices.length > 0) {
+      warnings.push(`Services unknown to this host are not enabled: ${unknownServices.join(', ')}`)
+    }
+    const { services, error: servicesError } = resolveServiceSet(manifest.project.services.filter((key) => findService(key)))
+    if (!services) {
+      throw new Error(servicesError)
+    }
+
+    const created = await createProject(options.name?.trim() || manifest.project.name, userId, manifest.project.description ?? undefined, {
+      services,
+      coreVersionId,
+    })
+    if (!created.success || !created.project) {
+      throw new Error(created.error || 'Failed to create the project')
+    }
+    const project = created.project
+    warnings.push(...(created.warnings ?? []))
+
+    // The archived docker folder replaces the fresh copy; compose names and ports follow the new slug
+    const dockerDir = projectDockerDir(project.slug)
+    await copyDockerDir(path.join(staging, DOCKER_DIR), dockerDir, ['.env'])
+    warnings.push(...await transformComposeFile(path.join(dockerDir, 'docker-compose.yml'), {
+      slug: project.slug,
+      enabledServices: services,
+    }))
+
+    // Secrets move with the project so existing clients keep working; host-specific values do not
+    const freshValues = await getProjectEnvVars(project.id)
+    const imported: Record<string, string> = {}
+    const oldGateway = `http://localhost:${manifest.envVars.KONG_HTTP_PORT}`
+    for (const [key, value] of Object.entries(archivedEnvVars)) {
+      if (LOCAL_URL_KEYS.includes(key) && value === oldGateway) continue
+      if (freshValues[key] === value) continue
+      imported[key] = value
+    }
+    await setProjectEnvVars(project.id, imported)
+    await recordEnvVersion(project.id, 'import')
+    await writeProjectEnvFile(project.id, project.slug)
+
+    if (!manifest.includes.database) {
+      return { success: true, project, job: null, warnings }
+    }
+
+    const job = await startJob(project.id, 'import', async (log) => {
+      try {
+        await restoreArchivedDatabase(staging, manifest, project, log)
+        return { success: true, projectId: project.id }
+      } finally {
+        await fs.rm(staging, { recursive: true, force: true })
+      }
+    })
+    jobStarted = true
+    return { success: true, project, job, warnings }
+  } catch (error) {
+    console.error('Failed to import project:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  } finally {
+    await fs.rm(archiveFile, { force: true })
+    if (!jobStarted) {
+      await fs.rm(staging, { recursive: true, force: true })
+    }
+  }
+}
+
+// Streams an uploaded archive to a temporary file for importProject; null when the upload broke off
+export async function saveUploadedArchive(body: ReadableStream<Uint8Array>) {
+  const archiveFile = path.join(os.tmpdir(), `supaconsole-upload-${randomUUID()}.tar.gz`)
+  try {
+    await pipeline(Readable.fromWeb(body as WebReadableStream<Uint8Array>), createWriteStream(archiveFile))
+    return archiveFile
+  } catch (error) {
+    await fs.rm(archiveFile, { force: true })
+    console.error('Failed to receive project archive:', error)
+    return null
+  }
+}
@@ -1,5 +1,6 @@
 import bcrypt from 'bcryptjs'
 import { prisma } from './db'
+import { randomSecret } from './keys'
 
 export async function hashPassword(password: string): Promise<string> {
   return bcrypt.hash(password, 12)
@@ -44,10 +45,5 @@ export async function deleteSession(token: string): Promise<void> {
 }
 
 function generateSecureToken(): string {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
-  let result = ''
-  for (let i = 0; i < 32; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length))
-  }
-  return result
+  return randomSecret(32)
 }
\ No newline at end of file
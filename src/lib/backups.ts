@@ -0,0 +1,428 @@
+import { promises as fs, createReadStream, createWriteStream } from 'fs'
+import * as path from 'path'
+import { createHash } from 'crypto'
+import { createGzip, createGunzip } from 'zlib'
+import { pipeline } from 'stream/promises'
+import { prisma } from './db'
+import { startJob, getActiveJob, type JobLogger } from './jobs'
+import { createProject, deployProject } from './project'
+import { dumpDatabase, runSql, isDatabaseReady, MANAGED_DATA_SCHEMAS } from './pg'
+import { nextCronRun, validateCron } from './cron'
+import { parseEnabledServices } from './supabase-services'
+
+const DEFAULT_INTERVAL_MS = 60 * 1000
+const MAX_RETENTION = 365
+// Safety copies taken before a restore; only the newest few per project are worth keeping
+const PRE_RESTORE_RETENTION = 3
+
+export type BackupTrigger = 'manual' | 'scheduled' | 'pre_restore'
+
+export interface BackupPolicyInput {
+  schedule: string
+  retention: number
+  enabled: boolean
+}
+
+interface BackupRow {
+  id: string
+  status: string
+  file: string
+  checksum: string | null
+  services: string | null
+  ownerId: string
+}
+
+export const BACKUP_SUMMARY_SELECT = {
+  id: true,
+  trigger: true,
+  status: true,
+  sizeBytes: true,
+  checksum: true,
+  error: true,
+  projectId: true,
+  projectName: true,
+  createdAt: true,
+  finishedAt: true,
+}
+
+export function backupDir() {
+  return path.resolve(process.env.BACKUP_DIR || path.join(process.cwd(), 'backups'))
+}
+
+function backupPath(file: string) {
+  return path.join(backupDir(), file)
+}
+
+export async function fileChecksum(file: string) {
+  const hash = createHash('sha256')
+  for await (const chunk of createReadStream(file)) {
+    hash.update(chunk)
+  }
+  return hash.digest('hex')
+}
+
+// Keeps the newest `retention` backups of the project with that trigger; manual ones are never pruned
+async function pruneBackups(projectId: string, trigger: 'scheduled' | 'pre_restore', retention: number) {
+  const backups: { id: string; file: string }[] = await prisma.backup.findMany({
+    where: { projectId, trigger, status: { not: 'running' } },
+    orderBy: { createdAt: 'desc' },
+    select: { id: true, file: true },
+  })
+  for (const backup of backups.slice(retention)) {
+    await fs.rm(backupPath(backup.file), { force: true })
+    await prisma.backup.delete({ where: { id: backup.id } })
+  }
+}
+
+// Dumps the project database (user schemas plus auth and storage data) into a gzipped SQL file
+export async function createBackup(projectId: string, trigger: BackupTrigger, log: JobLogger = () => {}) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: { backupPolicy: true },
+  })
+  if (!project) {
+    throw new Error('Project not found')
+  }
+
+  const createdAt = new Date()
+  const file = path.join(project.slug, `${createdAt.toISOString().replace(/[:.]/g, '-')}-${trigger}.sql.gz`)
+  const backup = await prisma.backup.create({
+    data: {
+      trigger,
+      file,
+      projectName: project.name,
+      projectSlug: project.slug,
+      services: project.services,
+      projectId,
+      ownerId: project.ownerId,
+      createdAt,
+    },
+  })
+
+  const fullPath = backupPath(file)
+  const gzip = createGzip()
+  try {
+    await fs.mkdir(path.dirname(fullPath), { recursive: true })
+    log(`Backing up ${project.name} to ${file}...`)
+
+    const written = pipeline(gzip, createWriteStream(fullPath))
+    try {
+      const schemas = await dumpDatabase(project.slug, gzip, { dataSchemas: MANAGED_DATA_SCHEMAS })
+      log(`Dumped schemas ${schemas.join(', ')} and the data of ${MANAGED_DATA_SCHEMAS.join(', ')}`)
+      gzip.end()
+    } catch (error) {
+      gzip.destroy()
+      await written.catch(() => {})
+      throw error
+    }
+    await written
+
+    const { size } = await fs.stat(fullPath)
+    const checksum = await fileChecksum(fullPath)
+    const finished = await prisma.backup.update({
+      where: { id: backup.id },
+      data: { status: 'succeeded', sizeBytes: size, checksum, finishedAt: new Date() },
+      select: BACKUP_SUMMARY_SELECT,
+    })
+    log(`Backup complete (${(size / 1024 / 1024).toFixed(1)} MiB, sha256 ${checksum.slice(0, 12)})`)
+
+    if (trigger === 'scheduled' && project.backupPolicy) {
+      await pruneBackups(projectId, 'scheduled', project.backupPolicy.retention)
+    } else if (trigger === 'pre_restore') {
+      await pruneBackups(projectId, 'pre_restore', PRE_RESTORE_RETENTION)
+    }
+    return finished
+  } catch (error) {
+    await fs.rm(fullPath, { force: true })
+    await prisma.backup.update({
+      where: { id: backup.id },
+      data: {
+        status: 'failed',
+        error: error instanceof Error ? error.message.slice(0, 2000) : 'Unknown error',
+        finishedAt: new Date(),
+      },
+    })
+    throw error
+  }
+}
+
+async function assertDatabaseReady(project: { name: string; slug: string; status: string }) {
+  if (project.status !== 'active' || !(await isDatabaseReady(project.slug).catch(() => false))) {
+    throw new Error(`The database of ${project.name} is not running; start the project first`)
+  }
+}
+
+// Backs up now as a background job; if a backup is already running, returns that job
+export async function queueBackup(projectId: string) {
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+
+    const active = await getActiveJob(projectId, 'backup')
+    if (active) {
+      return { success: true, job: active, alreadyRunning: true }
+    }
+
+    await assertDatabaseReady(project)
+
+    const job = await startJob(projectId, 'backup', async (log) => {
+      const backup = await createBackup(projectId, 'manual', log)
+      return { success: true, backupId: backup.id }
+    })
+    return { success: true, job, alreadyRunning: false }
+  } catch (error) {
+    console.error('Failed to queue backup:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+async function findOwnedBackup(backupId: string, userId: string): Promise<BackupRow | null> {
+  const backup: BackupRow | null = await prisma.backup.findUnique({
+    where: { id: backupId },
+  })
+  return backup && backup.ownerId === userId ? backup : null
+}
+
+// Checks the file against the recorded checksum, then replays it in one transaction
+async function restoreBackupFile(backup: BackupRow, slug: string, log: JobLogger) {
+  const fullPath = backupPath(backup.file)
+  log('Verifying backup checksum...')
+  const checksum = await fileChecksum(fullPath)
+  if (checksum !== backup.checksum) {
+    throw new Error('The backup file does not match its recorded checksum; it was modified or is corrupt')
+  }
+
+  log('Restoring database...')
+  await runSql(slug, createReadStream(fullPath).pipe(createGunzip()))
+  log('Database restored')
+}
+
+// Restores a backup over an existing project's database, after taking a backup of its current state.
+// Given a name instead, creates a new project with the backed up services, deploys it and restores into it.
+export async function restoreBackup(
+  backupId: string,
+  userId: string,
+  target: { projectId: string } | { name: string; description?: string }
+) {
+  try {
+    const backup = await findOwnedBackup(backupId, userId)
+    if (!backup) {
+      throw new Error('Backup not found')
+    }
+    if (backup.status !== 'succeeded') {
+      throw new Error('Only completed backups can be restored')
+    }
+    await fs.access(backupPath(backup.file)).catch(() => {
+      throw new Error(`Backup file ${backup.file} is missing from ${backupDir()}`)
+    })
+
+    if ('projectId' in target) {
+      const project = await prisma.project.findUnique({
+        where: { id: target.projectId },
+      })
+      if (!project) {
+        throw new Error('Project not found')
+      }
+      if (await getActiveJob(project.id, 'restore') || await getActiveJob(project.id, 'deploy')) {
+        throw new Error('A deployment or restore of this project is already running')
+      }
+      await assertDatabaseReady(project)
+
+      const job = await startJob(project.id, 'restore', async (log) => {
+        log('Backing up the current database first...')
+        await createBackup(project.id, 'pre_restore', log)
+        await restoreBackupFile(backup, project.slug, log)
+        return { success: true }
+      })
+      return { success: true, project, job }
+    }
+
+    const created = await createProject(target.name, userId, target.description, {
+      services: parseEnabledServices(backup.services),
+    })
+    if (!created.success || !created.project) {
+      throw new Error(created.error || 'Failed to create the project')
+    }
+
+    const project = created.project
+    const job = await startJob(project.id, 'restore', async (log) => {
+      log('Deploying the new project...')
+      const deploy = await deployProject(project.id, { onLog: log })
+      if (!deploy.success) {
+        throw new Error(`Deploying the new project failed: ${deploy.error}`)
+      }
+      await restoreBackupFile(backup, project.slug, log)
+      return { success: true, projectId: project.id }
+    })
+    return { success: true, project, job }
+  } catch (error) {
+    console.error('Failed to restore backup:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+export async function listBackups(projectId: string) {
+  return prisma.backup.findMany({
+    where: { projectId },
+    orderBy: { createdAt: 'desc' },
+    select: BACKUP_SUMMARY_SELECT,
+  })
+}
+
+// Every backup of the user's projects, including those of deleted projects
+export async function listAllBackups(userId: string) {
+  return prisma.backup.findMany({
+    where: { ownerId: userId },
+    orderBy: { createdAt: 'desc' },
+    select: BACKUP_SUMMARY_SELECT,
+  })
+}
+
+export async function getBackupDownload(backupId: string, userId: string) {
+  const backup = await findOwnedBackup(backupId, userId)
+  if (!backup || backup.status !== 'succeeded') return null
+  return { path: backupPath(backup.file), filename: backup.file.split(path.sep).join('-') }
+}
+
+export async function deleteBackup(backupId: string, userId: string) {
+  try {
+    const backup = await findOwnedBackup(backupId, userId)
+    if (!backup) {
+      throw new Error('Backup not found')
+    }
+    if (backup.status === 'running') {
+      throw new Error('The backup is still running')
+    }
+
+    await fs.rm(backupPath(backup.file), { force: true })
+    await prisma.backup.delete({
+      where: { id: backupId },
+    })
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to delete backup:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+export async function getBackupPolicy(projectId: string) {
+  return prisma.backupPolicy.findUnique({
+    where: { projectId },
+  })
+}
+
+export async function setBackupPolicy(projectId: string, input: BackupPolicyInput) {
+  try {
+    const cronError = validateCron(input.schedule)
+    if (cronError) {
+      throw new Error(cronError)
+    }
+    if (!Number.isInteger(input.retention) || input.retention < 1 || input.retention > MAX_RETENTION) {
+      throw new Error(`Retention must be a whole number between 1 and ${MAX_RETENTION}`)
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    })
+    if (!project) {
+      throw new Error('Project not found')
+    }
+
+    const data = {
+      schedule: input.schedule.trim(),
+      retention: input.retention,
+      enabled: input.enabled,
+      nextRunAt: input.enabled ? nextCronRun(input.schedule) : null,
+      lastError: null,
+    }
+    const policy = await prisma.backupPolicy.upsert({
+      where: { projectId },
+      update: data,
+      create: { ...data, projectId },
+    })
+
+    return { success: true, policy }
+  } catch (error) {
+    console.error('Failed to save backup policy:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+// Runs the backups whose time has come, one after another. The next run is scheduled before a
+// backup starts, so a failing backup does not retry on every tick. Errors are recorded on the
+// policy they belong to and never stop the pass.
+export async function runDueBackups() {
+  const now = new Date()
+  const due: { id: string; schedule: string; projectId: string; project: { name: string; slug: string; status: string } }[] =
+    await prisma.backupPolicy.findMany({
+      where: { enabled: true, nextRunAt: { lte: now }, project: { status: { not: 'trashed' } } },
+      include: { project: { select: { name: true, slug: true, status: true } } },
+    })
+
+  for (const policy of due) {
+    let nextRunAt: Date
+    try {
+      nextRunAt = nextCronRun(policy.schedule, now)
+    } catch (error) {
+      // A schedule that cannot be parsed never runs again until it is saved anew
+      const message = error instanceof Error ? error.message : 'Invalid schedule'
+      console.warn(`Backup schedule of ${policy.project.slug} is invalid:`, message)
+      await prisma.backupPolicy.update({
+        where: { id: policy.id },
+        data: { nextRunAt: null, lastError: `Invalid schedule: ${message}`.slice(0, 2000) },
+      }).catch(() => {})
+      continue
+    }
+
+    try {
+      await prisma.backupPolicy.update({
+        where: { id: policy.id },
+        data: { lastRunAt: now, nextRunAt },
+      })
+      await assertDatabaseReady(policy.project)
+      await createBackup(policy.projectId, 'scheduled')
+      await prisma.backupPolicy.update({
+        where: { id: policy.id },
+        data: { lastError: null },
+      })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      console.warn(`Scheduled backup of ${policy.project.slug} failed:`, message)
+      await prisma.backupPolicy.update({
+        where: { id: policy.id },
+        data: { lastError: message.slice(0, 2000) },
+      }).catch(() => {})
+    }
+  }
+}
+
+const globalForBackups = globalThis as unknown as {
+  backupScheduler: NodeJS.Timeout | undefined
+}
+
+// Starts the backup scheduler once per server process. Disabled with BACKUP_SCHEDULER_ENABLED=false.
+export function startBackupScheduler() {
+  if (globalForBackups.backupScheduler || process.env.BACKUP_SCHEDULER_ENABLED === 'false') return
+
+  const interval = parseInt(process.env.BACKUP_SCHEDULER_INTERVAL_MS || '', 10) || DEFAULT_INTERVAL_MS
+
+  let running = false
+  globalForBackups.backupScheduler = setInterval(() => {
+    // Backups can take longer than the interval; never run two passes at once
+    if (running) return
+    running = true
+    runDueBackups()
+      .catch((e) => console.warn('Backup scheduler failed:', e instanceof Error ? e.message : e))
+      .finally(() => {
+        running = false
+      })
+  }, interval)
+
+  console.log(`Backup scheduler started (every ${Math.round(interval / 1000)}s, writing to ${backupDir()})`)
+}
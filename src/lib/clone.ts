@@ -0,0 +1,132 @@
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { prisma } from './db'
+import { startJob, type JobLogger } from './jobs'
+import { createProject, deployProject, writeProjectEnvFile, UNIQUE_ENV_KEYS, LOCAL_URL_KEYS } from './project'
+import { dumpDatabaseToFile, restoreDatabaseFromFile, isDatabaseReady, MANAGED_DATA_SCHEMAS } from './pg'
+import { parseEnabledServices } from './supabase-services'
+import { getProjectEnvVars, setProjectEnvVars, recordEnvVersion } from './env-vars'
+
+// Runtime data is never copied as files; storage files only on request
+const DATA_DIRS = ['volumes/db/data', 'volumes/storage']
+
+export interface CloneOptions {
+  name: string
+  description?: string
+  includeData?: boolean // dump the source database into the clone; deploys the clone
+  includeStorage?: boolean // copy storage files; needs includeData for the object metadata
+}
+
+interface CloneSource {
+  id: string
+  name: string
+  slug: string
+}
+
+function dockerDir(slug: string) {
+  return path.join(process.cwd(), 'supabase-projects', slug, 'docker')
+}
+
+async function copyConfiguration(source: CloneSource, target: CloneSource, log: JobLogger) {
+  log(`Copying configuration from ${source.name}...`)
+  const sourceEnv = await getProjectEnvVars(source.id)
+  const targetEnv = await getProjectEnvVars(target.id)
+  const sourceGateway = `http://localhost:${sourceEnv.KONG_HTTP_PORT}`
+
+  const copied: Record<string, string> = {}
+  for (const [key, value] of Object.entries(sourceEnv)) {
+    if (UNIQUE_ENV_KEYS.includes(key) || targetEnv[key] === value) continue
+    if (LOCAL_URL_KEYS.includes(key) && value === sourceGateway) continue
+    copied[key] = value
+  }
+  await setProjectEnvVars(target.id, copied)
+  await recordEnvVersion(target.id, 'clone')
+  await writeProjectEnvFile(target.id, target.slug)
+  log(`Copied ${Object.keys(copied).length} environment variable(s); secrets and ports were generated fresh`)
+}
+
+async function copyFiles(source: CloneSource, target: CloneSource, includeStorage: boolean, log: JobLogger) {
+  const from = dockerDir(source.slug)
+  const to = dockerDir(target.slug)
+  const skipped = includeStorage ? DATA_DIRS.filter((dir) => dir !== 'volumes/storage') : DATA_DIRS
+
+  log(includeStorage ? 'Copying project files and storage objects...' : 'Copying project files...')
+  await fs.cp(path.join(from, 'volumes'), path.join(to, 'volumes'), {
+    recursive: true,
+    force: true,
+    filter: (file) => {
+      const relative = path.relative(from, file).split(path.sep).join('/')
+      return !skipped.some((dir) => relative === dir || relative.startsWith(`${dir}/`))
+    },
+  })
+}
+
+async function copyDatabase(source: CloneSource, target: CloneSource, log: JobLogger) {
+  const dumpFile = path.join(os.tmpdir(), `supaconsole-clone-${target.id}.sql`)
+  try {
+    log(`Dumping ${source.name}...`)
+    const schemas = await dumpDatabaseToFile(source.slug, dumpFile, { dataSchemas: MANAGED_DATA_SCHEMAS })
+    const { size } = await fs.stat(dumpFile)
+    log(`Dumped schemas ${schemas.join(', ')} and the data of ${MANAGED_DATA_SCHEMAS.join(', ')} (${(size / 1024 / 1024).toFixed(1)} MiB), restoring into the clone...`)
+    await restoreDatabaseFromFile(target.slug, dumpFile)
+    log('Database restored')
+  } finally {
+    await fs.rm(dumpFile, { force: true })
+  }
+}
+
+async function runClone(source: CloneSource, target: CloneSource, options: CloneOptions, log: JobLogger) {
+  await copyConfiguration(source, target, log)
+  await copyFiles(source, target, !!options.includeStorage, log)
+
+  if (!options.includeData) {
+    log('Clone ready; configure and deploy it like a new project')
+    return { success: true, projectId: target.id }
+  }
+
+  log('Deploying the clone...')
+  const deploy = await deployProject(target.id, { onLog: log })
+  if (!deploy.success) {
+    throw new Error(`Deploying the clone failed: ${deploy.error}`)
+  }
+
+  await copyDatabase(source, target, log)
+  return { success: true, projectId: target.id, publicUrl: deploy.publicUrl }
+}
+
+// Creates the clone through createProject (fresh slug, ports and secrets) and copies the rest in a
+// background job on the new project. The source is only read.
+export async function cloneProject(sourceId: string, userId: string, options: CloneOptions) {
+  try {
+    const source = await prisma.project.findUnique({
+      where: { id: sourceId },
+    })
+
+    if (!source) {
+      throw new Error('Project not found')
+    }
+    if (options.includeStorage && !options.includeData) {
+      throw new Error('Storage files can only be cloned together with the database')
+    }
+    if (options.includeData && !(await isDatabaseReady(source.slug).catch(() => false))) {
+      throw new Error(`The database of ${source.name} is not running; start the project to clone its data`)
+    }
+
+    const created = await createProject(options.name, userId, options.description, {
+      services: parseEnabledServices(source.services),
+      coreVersionId: source.coreVersionId ?? undefined,
+    })
+    if (!created.success || !created.project) {
+      throw new Error(created.error || 'Failed to create the clone')
+    }
+
+    const target = created.project
+    const job = await startJob(target.id, 'clone', (log) => runClone(source, target, options, log))
+
+    return { success: true, project: target, job, warnings: created.warnings }
+  } catch (error) {
+    console.error('Failed to clone project:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
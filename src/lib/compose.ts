@@ -0,0 +1,229 @@
+import { promises as fs } from 'fs'
+import YAML, { Document, isMap, isSeq, isScalar, YAMLMap } from 'yaml'
+import { SUPABASE_SERVICES } from './supabase-services'
+import { composeProjectName } from './runtime'
+
+// Rewrites an upstream Supabase docker-compose.yml for one project. Every step works on the
+// parsed document and reports what it could not apply instead of silently leaving the file as is.
+
+export interface ComposeTransformOptions {
+  slug: string
+  enabledServices: string[]
+}
+
+export interface ComposeTransformResult {
+  content: string
+  warnings: string[]
+}
+
+export const LABEL_PROJECT = 'supaconsole.project'
+export const LABEL_SERVICE = 'supaconsole.service'
+
+// Host ports published by upstream that must come from the project's .env, otherwise every
+// project would try to bind the same ports. Each rule applies to the first enabled service
+// that publishes the container port.
+const PORT_RULES = [
+  { services: ['kong'], containerPort: 8000, variable: 'KONG_HTTP_PORT' },
+  { services: ['kong'], containerPort: 8443, variable: 'KONG_HTTPS_PORT' },
+  { services: ['studio'], containerPort: 3000, variable: 'STUDIO_PORT' },
+  { services: ['analytics'], containerPort: 4000, variable: 'ANALYTICS_PORT' },
+  { services: ['pooler', 'db'], containerPort: 5432, variable: 'POSTGRES_PORT' },
+  { services: ['pooler'], containerPort: 6543, variable: 'POOLER_PROXY_PORT_TRANSACTION' },
+]
+
+// Not published by every upstream version, so a missing mapping is not worth a warning
+const OPTIONAL_PORT_VARIABLES = ['STUDIO_PORT', 'KONG_HTTPS_PORT']
+
+const composeServiceKey = new Map(SUPABASE_SERVICES.map((service) => [service.composeService, service.key]))
+
+function pruneServices(services: YAMLMap, enabledServices: string[]) {
+  const disabled = new Set(
+    SUPABASE_SERVICES.filter((service) => !enabledServices.includes(service.key)).map((service) => service.composeService)
+  )
+  if (disabled.size === 0) return
+
+  for (const name of disabled) {
+    services.delete(name)
+  }
+
+  // Drop depends_on references to removed services, in both list and map form
+  for (const pair of services.items) {
+    if (!isMap(pair.value)) continue
+    const dependsOn = pair.value.get('depends_on')
+    if (isSeq(dependsOn)) {
+      dependsOn.items = dependsOn.items.filter((item) => !(isScalar(item) && disabled.has(String(item.value))))
+    } else if (isMap(dependsOn)) {
+      for (const name of disabled) {
+        dependsOn.delete(name)
+      }
+    }
+    if ((isSeq(dependsOn) || isMap(dependsOn)) && dependsOn.items.length === 0) {
+      pair.value.delete('depends_on')
+    }
+  }
+}
+
+function renameContainers(services: YAMLMap, slug: string, warnings: string[]) {
+  for (const pair of services.items) {
+    const name = String(isScalar(pair.key) ? pair.key.value : pair.key)
+    if (!isMap(pair.value)) {
+      warnings.push(`Service "${name}" is not a mapping; container name not changed`)
+      continue
+    }
+
+    const service = SUPABASE_SERVICES.find((s) => s.composeService === name)
+    if (service) {
+      pair.value.set('container_name', service.containerName(slug))
+    } else {
+      pair.value.set('container_name', `${slug}-${name}`)
+      warnings.push(`Service "${name}" is not known to SupaConsole; named its container ${slug}-${name}`)
+    }
+  }
+}
+
+// Splits short port syntax ("[ip:]host:container[/protocol]") into its parts. The host part
+// may itself contain ":" inside a ${VAR:-default} reference, so the container port is taken from the end.
+function parseShortPort(value: string) {
+  const [mapping, protocol] = value.split('/')
+  const separator = mapping.lastIndexOf(':')
+  if (separator === -1) {
+    return { host: null, containerPort: parseInt(mapping, 10), protocol }
+  }
+  return { host: mapping.slice(0, separator), containerPort: parseInt(mapping.slice(separator + 1), 10), protocol }
+}
+
+function parameterizePorts(services: YAMLMap, enabledServices: string[], warnings: string[]) {
+  for (const rule of PORT_RULES) {
+    const candidates = SUPABASE_SERVICES.filter((s) => rule.services.includes(s.key) && enabledServices.includes(s.key))
+    if (candidates.length === 0) continue
+
+    let applied = false
+    for (const candidate of candidates) {
+      const service = services.get(candidate.composeService)
+      if (!isMap(service)) continue
+      const ports = service.get('ports')
+      if (!isSeq(ports)) continue
+
+      for (const item of ports.items) {
+        // Long syntax: { target, published }
+        if (isMap(item)) {
+          if (Number(item.get('target')) !== rule.containerPort) continue
+          const published = item.get('published')
+          if (published === undefined || published === null) {
+            applied = true
+          } else if (String(published).includes('${')) {
+            applied = true
+            if (!String(published).includes(rule.variable)) {
+              warnings.push(`Port ${rule.containerPort} of "${candidate.composeService}" is published through a different variable than ${rule.variable}`)
+            }
+          } else {
+            item.set('published', '${' + rule.variable + ':-' + published + '}')
+            applied = true
+          }
+          continue
+        }
+
+        if (!isScalar(item)) continue
+        const port = parseShortPort(String(item.value))
+        if (port.containerPort !== rule.containerPort) continue
+        applied = true
+
+        // Container-only ports get an ephemeral host port, nothing to parameterize
+        if (port.host === null) continue
+        if (port.host.includes('${')) {
+          if (!port.host.includes(rule.variable)) {
+            warnings.push(`Port ${rule.containerPort} of "${candidate.composeService}" is published through a different variable than ${rule.variable}`)
+          }
+          continue
+        }
+
+        const hostMatch = port.host.match(/^(?:(.+):)?(\d+)$/)
+        if (!hostMatch) {
+          applied = false
+          warnings.push(`Could not parse host port "${port.host}" of "${candidate.composeService}"; ${rule.variable} not applied`)
+          continue
+        }
+        const ip = hostMatch[1] ? `${hostMatch[1]}:` : ''
+        const protocol = port.protocol ? `/${port.protocol}` : ''
+        item.value = ip + '${' + rule.variable + ':-' + hostMatch[2] + '}' + `:${rule.containerPort}${protocol}`
+      }
+      if (applied) break
+    }
+
+    if (!applied && !OPTIONAL_PORT_VARIABLES.includes(rule.variable)) {
+      warnings.push(`No published port ${rule.containerPort} found on ${rule.services.join('/')}; ${rule.variable} has no effect`)
+    }
+  }
+}
+
+function injectLabels(doc: Document, services: YAMLMap, slug: string, warnings: string[]) {
+  for (const pair of services.items) {
+    const name = String(isScalar(pair.key) ? pair.key.value : pair.key)
+    if (!isMap(pair.value)) continue
+    const labels = {
+      [LABEL_PROJECT]: slug,
+      [LABEL_SERVICE]: composeServiceKey.get(name) || name,
+    }
+
+    const existing = pair.value.get('labels')
+    if (existing === undefined) {
+      pair.value.set('labels', doc.createNode(labels))
+    } else if (isMap(existing)) {
+      for (const [key, value] of Object.entries(labels)) {
+        existing.set(key, value)
+      }
+    } else if (isSeq(existing)) {
+      existing.items = existing.items.filter((item) => !(isScalar(item) && String(item.value).startsWith('supaconsole.')))
+      for (const [key, value] of Object.entries(labels)) {
+        existing.add(doc.createNode(`${key}=${value}`))
+      }
+    } else {
+      warnings.push(`Labels of "${name}" have an unexpected format; SupaConsole labels not added`)
+    }
+  }
+}
+
+export function transformCompose(content: string, options: ComposeTransformOptions): ComposeTransformResult {
+  const warnings: string[] = []
+  const doc = YAML.parseDocument(content)
+  if (doc.errors.length > 0) {
+    return { content, warnings: [`docker-compose.yml could not be parsed: ${doc.errors[0].message}`] }
+  }
+
+  const services = doc.get('services')
+  if (!isMap(services)) {
+    return { content, warnings: ['docker-compose.yml has no services section; no changes applied'] }
+  }
+
+  for (const service of SUPABASE_SERVICES) {
+    if (options.enabledServices.includes(service.key) && !services.has(service.composeService)) {
+      warnings.push(`Service "${service.composeService}" (${service.label}) is not defined in docker-compose.yml`)
+    }
+  }
+
+  // Compose project name keeps volumes and networks of different projects apart
+  const hadName = doc.has('name')
+  doc.set('name', composeProjectName(options.slug))
+  if (!hadName && isMap(doc.contents)) {
+    // Keep it at the top like upstream does
+    const items = doc.contents.items
+    items.unshift(...items.splice(items.length - 1, 1))
+  }
+
+  pruneServices(services, options.enabledServices)
+  renameContainers(services, options.slug, warnings)
+  parameterizePorts(services, options.enabledServices, warnings)
+  injectLabels(doc, services, options.slug, warnings)
+
+  return { content: doc.toString(), warnings }
+}
+
+// Transforms a compose file in place; returns the warnings
+export async function transformComposeFile(file: string, options: ComposeTransformOptions) {
+  const content = await fs.readFile(file, 'utf8')
+  const result = transformCompose(content, options)
+  if (result.content !== content) {
+    await fs.writeFile(file, result.content, 'utf8')
+  }
+  return result.warnings
+}
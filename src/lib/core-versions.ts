@@ -0,0 +1,262 @@
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { exec } from 'child_process'
+import { promisify } from 'util'
+import { createHash } from 'crypto'
+import { prisma } from './db'
+
+const execAsync = promisify(exec)
+
+// Checked-out Supabase repositories live in supabase-cores/<directory>, one per tag, branch or commit.
+// Projects created before versions existed keep using the single supabase-core checkout.
+const CORES_DIR = path.join(process.cwd(), 'supabase-cores')
+const LEGACY_CORE_DIR = path.join(process.cwd(), 'supabase-core')
+
+const REF_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._/-]{0,99}$/
+
+export interface CoreVersionInfo {
+  id: string
+  ref: string
+  commit: string | null
+  status: string
+}
+
+function repoUrl() {
+  return process.env.SUPABASE_CORE_REPO_URL || 'https://github.com/supabase/supabase'
+}
+
+// Readable name plus a hash of the ref, so refs that sanitize alike (release/1.0, release_1.0)
+// still get their own directory
+function directoryFor(ref: string) {
+  const hash = createHash('sha256').update(ref).digest('hex').slice(0, 8)
+  return `${ref.replace(/[^A-Za-z0-9._-]/g, '_')}-${hash}`
+}
+
+// Directory holding the docker/ folder projects are copied from
+export function coreDockerDir(version: { directory: string } | null) {
+  return version
+    ? path.join(CORES_DIR, version.directory, 'docker')
+    : path.join(LEGACY_CORE_DIR, 'docker')
+}
+
+// The docker/ folder the project's files were generated from, or null when that checkout has
+// since moved to another commit (or is gone) and no longer describes the project's stack
+export async function projectBaseDir(project: {
+  coreCommit: string | null
+  coreVersion: { directory: string; commit: string | null; status: string } | null
+}) {
+  if (project.coreVersion) {
+    const usable = project.coreVersion.commit === project.coreCommit && project.coreVersion.status === 'ready'
+    return usable ? coreDockerDir(project.coreVersion) : null
+  }
+  const legacyDir = coreDockerDir(null)
+  return await fs.access(legacyDir).then(() => true).catch(() => false) ? legacyDir : null
+}
+
+// A project runs an outdated stack when it was not created from the default version's current commit
+export function isOutdated(projectCommit: string | null, defaultVersion: CoreVersionInfo | null) {
+  if (!defaultVersion || defaultVersion.status !== 'ready' || !defaultVersion.commit) return false
+  return projectCommit !== defaultVersion.commit
+}
+
+// Shallow-fetches a single ref; works for tags, branches and commit SHAs alike. The checkout is
+// made in a temporary directory and swapped in when complete, so projects being created or
+// upgraded from the current one keep reading a whole tree.
+async function checkoutCoreVersion(id: string) {
+  const version = await prisma.coreVersion.findUnique({ where: { id } })
+  if (!version) return
+
+  const dir = path.join(CORES_DIR, version.directory)
+  const staging = `${dir}.checkout-${Date.now()}`
+  try {
+    await fs.mkdir(staging, { recursive: true })
+
+    const git = (args: string) => execAsync(`git ${args}`, { cwd: staging, timeout: 600000, maxBuffer: 1024 * 1024 * 10 })
+    await git('init --quiet')
+    await git(`remote add origin ${repoUrl()}`)
+    await git(`fetch --depth 1 origin "${version.ref}"`)
+    await git('checkout --quiet FETCH_HEAD')
+    const { stdout } = await git('rev-parse HEAD')
+
+    await fs.access(path.join(staging, 'docker', 'docker-compose.yml'))
+
+    // Move the old checkout aside first so the version's directory is never half-written
+    const previous = `${dir}.old-${Date.now()}`
+    const hadPrevious = await fs.rename(dir, previous).then(() => true).catch(() => false)
+    try {
+      await fs.rename(staging, dir)
+    } catch (error) {
+      if (hadPrevious) await fs.rename(previous, dir)
+      throw error
+    }
+    if (hadPrevious) {
+      await fs.rm(previous, { recursive: true, force: true })
+    }
+
+    await prisma.coreVersion.update({
+      where: { id },
+      data: { status: 'ready', commit: stdout.trim(), error: null },
+    })
+  } catch (error) {
+    console.error(`Failed to check out Supabase core ${version.ref}:`, error)
+    await fs.rm(staging, { recursive: true, force: true })
+    await prisma.coreVersion.update({
+      where: { id },
+      data: {
+        status: 'failed',
+        error: error instanceof Error ? error.message.slice(0, 2000) : 'Unknown error',
+      },
+    })
+  }
+}
+
+// Runs a checkout without awaiting it; a failure outside the checkout's own error handling
+// (e.g. the database going away) is stored on the version rather than left unhandled
+function startCheckout(id: string) {
+  return checkoutCoreVersion(id).catch(async (error) => {
+    console.error('Supabase core checkout failed:', error)
+    await prisma.coreVersion.updateMany({
+      where: { id },
+      data: {
+        status: 'failed',
+        error: error instanceof Error ? error.message.slice(0, 2000) : 'Unknown error',
+      },
+    }).catch(() => {})
+  })
+}
+
+export async function listCoreVersions() {
+  const versions = await prisma.coreVersion.findMany({
+    orderBy: { createdAt: 'desc' },
+    include: { _count: { select: { projects: true } } },
+  })
+
+  const result = []
+  for (const { _count, ...version } of versions) {
+    result.push({ ...version, projectCount: _count.projects })
+  }
+  return result
+}
+
+export async function getDefaultCoreVersion() {
+  return prisma.coreVersion.findFirst({
+    where: { isDefault: true },
+  })
+}
+
+// Registers a ref and checks it out. The checkout runs in the background unless `wait` is set;
+// poll the version's status to follow it.
+export async function addCoreVersion(ref: string, options: { wait?: boolean } = {}) {
+  try {
+    const trimmed = ref.trim()
+    if (!REF_PATTERN.test(trimmed) || trimmed.includes('..')) {
+      throw new Error('Invalid ref: use a tag, branch or commit SHA')
+    }
+
+    const existing = await prisma.coreVersion.findUnique({ where: { ref: trimmed } })
+    if (existing && existing.status !== 'failed') {
+      throw new Error(`Version ${trimmed} is already registered`)
+    }
+
+    const isFirst = (await prisma.coreVersion.count()) === 0
+    const version = existing
+      ? await prisma.coreVersion.update({
+          where: { id: existing.id },
+          data: { status: 'cloning', error: null },
+        })
+      : await prisma.coreVersion.create({
+          data: {
+            ref: trimmed,
+            directory: directoryFor(trimmed),
+            status: 'cloning',
+            isDefault: isFirst,
+          },
+        })
+
+    const checkout = startCheckout(version.id)
+    if (options.wait) {
+      await checkout
+    }
+
+    return { success: true, version }
+  } catch (error) {
+    console.error('Failed to add core version:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+// Re-fetches a ref, e.g. to move a branch version forward
+export async function refreshCoreVersion(id: string) {
+  try {
+    const version = await prisma.coreVersion.findUnique({ where: { id } })
+    if (!version) {
+      throw new Error('Version not found')
+    }
+    if (version.status === 'cloning') {
+      throw new Error('Version is already being checked out')
+    }
+
+    await prisma.coreVersion.update({
+      where: { id },
+      data: { status: 'cloning', error: null },
+    })
+    startCheckout(id)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to refresh core version:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+export async function setDefaultCoreVersion(id: string) {
+  try {
+    const version = await prisma.coreVersion.findUnique({ where: { id } })
+    if (!version) {
+      throw new Error('Version not found')
+    }
+    if (version.status !== 'ready') {
+      throw new Error('Only checked-out versions can be the default')
+    }
+
+    await prisma.coreVersion.updateMany({
+      where: { isDefault: true },
+      data: { isDefault: false },
+    })
+    await prisma.coreVersion.update({
+      where: { id },
+      data: { isDefault: true },
+    })
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to set default core version:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+export async function deleteCoreVersion(id: string) {
+  try {
+    const version = await prisma.coreVersion.findUnique({
+      where: { id },
+      include: { _count: { select: { projects: true } } },
+    })
+    if (!version) {
+      throw new Error('Version not found')
+    }
+    if (version._count.projects > 0) {
+      throw new Error(`Version ${version.ref} is used by ${version._count.projects} project(s)`)
+    }
+    if (version.isDefault) {
+      throw new Error('The default version cannot be deleted')
+    }
+
+    await fs.rm(path.join(CORES_DIR, version.directory), { recursive: true, force: true })
+    await prisma.coreVersion.delete({ where: { id } })
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to delete core version:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
@@ -0,0 +1,149 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week), evaluated in the
+// server's local time. Supports *, lists, ranges and steps, e.g. "0 3 * * *" or "*/15 8-18 * * 1-5",
+// and the @hourly, @daily, @weekly and @monthly shorthands.
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }, // 0 and 7 are both Sunday
+]
+
+const SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+}
+
+// Nothing matches for this long means the expression can never fire, e.g. "0 0 30 2 *"
+const SEARCH_LIMIT_MS = 5 * 366 * 24 * 60 * 60 * 1000
+
+export interface CronSchedule {
+  minutes: Set<number>
+  hours: Set<number>
+  days: Set<number>
+  months: Set<number>
+  weekdays: Set<number>
+  // With both day fields restricted, a day matches when either does (standard cron behaviour)
+  daysRestricted: boolean
+  weekdaysRestricted: boolean
+}
+
+function parseNumber(value: string, field: typeof FIELDS[number]) {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${field.name}: ${value}`)
+  }
+  const number = parseInt(value, 10)
+  if (number < field.min || number > field.max) {
+    throw new Error(`${field.name} must be between ${field.min} and ${field.max}: ${value}`)
+  }
+  return number
+}
+
+function parseField(value: string, field: typeof FIELDS[number]) {
+  const values = new Set<number>()
+  for (const part of value.split(',')) {
+    const [range, stepValue] = part.split('/')
+    const step = stepValue === undefined ? 1 : parseNumber(stepValue, { ...field, min: 1, max: field.max + 1 })
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = field.min
+      end = field.max
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-')
+      start = parseNumber(from, field)
+      end = parseNumber(to, field)
+      if (start > end) {
+        throw new Error(`Invalid ${field.name} range: ${range}`)
+      }
+    } else {
+      start = parseNumber(range, field)
+      end = stepValue === undefined ? start : field.max
+    }
+
+    for (let i = start; i <= end; i += step) {
+      values.add(i)
+    }
+  }
+  return values
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const normalized = SHORTHANDS[expression.trim().toLowerCase()] ?? expression.trim()
+  const parts = normalized.split(/\s+/)
+  if (parts.length !== 5) {
+    throw new Error('A cron expression needs five fields: minute hour day-of-month month day-of-week')
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseField(part, FIELDS[i]))
+  if (weekdays.delete(7)) {
+    weekdays.add(0)
+  }
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    daysRestricted: parts[2] !== '*',
+    weekdaysRestricted: parts[4] !== '*',
+  }
+}
+
+// Returns an error message, or null when the expression is valid
+export function validateCron(expression: string) {
+  try {
+    parseCron(expression)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression'
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date) {
+  const day = schedule.days.has(date.getDate())
+  const weekday = schedule.weekdays.has(date.getDay())
+  if (schedule.daysRestricted && schedule.weekdaysRestricted) return day || weekday
+  if (schedule.daysRestricted) return day
+  if (schedule.weekdaysRestricted) return weekday
+  return true
+}
+
+// First time strictly after `after` the schedule fires. Skips whole months, days and hours that
+// cannot match instead of testing every minute.
+export function nextCronRun(expression: string | CronSchedule, after: Date = new Date()): Date {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression
+  const date = new Date(after)
+  date.setSeconds(0, 0)
+  date.setMinutes(date.getMinutes() + 1)
+
+  const limit = after.getTime() + SEARCH_LIMIT_MS
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1)
+      date.setHours(0, 0, 0, 0)
+      continue
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1)
+      date.setHours(0, 0, 0, 0)
+      continue
+    }
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0)
+      continue
+    }
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0)
+      continue
+    }
+    return date
+  }
+
+  throw new Error('The cron expression never matches a date')
+}
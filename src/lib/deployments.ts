@@ -0,0 +1,331 @@
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { prisma } from './db'
+import { transitionProject, canTransition, InvalidTransitionError } from './lifecycle'
+import { startJob, getActiveJob, type JobLogger } from './jobs'
+import { getContainerRuntime, composeProject } from './runtime'
+import { deriveRuntimeStatus } from './reconciler'
+import { parseEnabledServices } from './supabase-services'
+import {
+  getProjectEnvVars,
+  replaceProjectEnvVars,
+  recordEnvVersion,
+  clearNeedsRedeploy,
+  sealSnapshotField,
+  openSnapshotField,
+  keepLiveEnvVars,
+} from './env-vars'
+
+// Every deploy stores the .env, docker-compose.yml and env var rows it ran with. A deploy that
+// fails goes back to the last succeeded snapshot; any snapshot can also be restored by hand.
+// Other files under docker/ (e.g. volumes/ from an upgrade) are not part of the snapshot.
+
+const DEFAULT_HEALTH_TIMEOUT_MS = 3 * 60 * 1000
+const HEALTH_POLL_INTERVAL_MS = 5000
+// Older snapshots are pruned, except the last succeeded one
+const HISTORY_LIMIT = 20
+
+export const DEPLOYMENT_SUMMARY_SELECT = {
+  id: true,
+  number: true,
+  trigger: true,
+  status: true,
+  sourceNumber: true,
+  coreCommit: true,
+  error: true,
+  createdAt: true,
+  finishedAt: true,
+}
+
+interface ProjectRef {
+  id: string
+  slug: string
+  services: string | null
+}
+
+function projectDockerDir(slug: string) {
+  return path.join(process.cwd(), 'supabase-projects', slug, 'docker')
+}
+
+// Records the configuration that is about to be deployed
+export async function createDeploymentSnapshot(projectId: string, options: { trigger?: string; sourceNumber?: number } = {}) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+  })
+  if (!project) {
+    throw new Error('Project not found')
+  }
+
+  const dir = projectDockerDir(project.slug)
+  const envVars = await getProjectEnvVars(projectId)
+
+  const last = await prisma.deployment.findFirst({
+    where: { projectId },
+    orderBy: { number: 'desc' },
+  })
+
+  return prisma.deployment.create({
+    data: {
+      projectId,
+      number: (last?.number ?? 0) + 1,
+      trigger: options.trigger ?? 'deploy',
+      sourceNumber: options.sourceNumber,
+      envFile: sealSnapshotField('envFile', await fs.readFile(path.join(dir, '.env'), 'utf8').catch(() => '')),
+      composeFile: await fs.readFile(path.join(dir, 'docker-compose.yml'), 'utf8'),
+      envVars: sealSnapshotField('envVars', JSON.stringify(envVars)),
+      services: project.services,
+      coreVersionId: project.coreVersionId,
+      coreCommit: project.coreCommit,
+    },
+  })
+}
+
+export async function finishDeployment(deploymentId: string, status: 'succeeded' | 'failed' | 'rolled_back', error?: string) {
+  const data: Record<string, unknown> = { status, finishedAt: new Date(), error: error?.slice(0, 2000) ?? null }
+  if (status === 'succeeded') {
+    // The deploy itself writes env vars (public URL); keep the snapshot in line with what is live
+    const deployment = await prisma.deployment.findUnique({ where: { id: deploymentId } })
+    if (deployment) {
+      const envVars = await getProjectEnvVars(deployment.projectId)
+      data.envVars = sealSnapshotField('envVars', JSON.stringify(envVars))
+      await clearNeedsRedeploy(deployment.projectId)
+    }
+  }
+
+  const deployment = await prisma.deployment.update({
+    where: { id: deploymentId },
+    data,
+  })
+  await pruneDeployments(deployment.projectId)
+  return deployment
+}
+
+async function pruneDeployments(projectId: string) {
+  const keep = await prisma.deployment.findMany({
+    where: { projectId },
+    orderBy: { number: 'desc' },
+    take: HISTORY_LIMIT,
+    select: { id: true },
+  })
+  const lastGood = await getLastGoodDeployment(projectId)
+  const ids = keep.map((d: { id: string }) => d.id)
+  if (lastGood) ids.push(lastGood.id)
+
+  await prisma.deployment.deleteMany({
+    where: { projectId, id: { notIn: ids } },
+  })
+}
+
+export async function getLastGoodDeployment(projectId: string, excludeId?: string) {
+  return prisma.deployment.findFirst({
+    where: { projectId, status: 'succeeded', ...(excludeId ? { id: { not: excludeId } } : {}) },
+    orderBy: { number: 'desc' },
+  })
+}
+
+// Waits until every enabled service runs and no health check is failing or still starting
+export async function waitForHealthyStack(project: ProjectRef, log: JobLogger) {
+  const timeout = parseInt(process.env.DEPLOY_HEALTH_TIMEOUT_MS || '', 10) || DEFAULT_HEALTH_TIMEOUT_MS
+  const deadline = Date.now() + timeout
+  const runtime = getContainerRuntime()
+  const enabled = parseEnabledServices(project.services)
+
+  log(`Waiting for services to become healthy (up to ${Math.round(timeout / 1000)}s)...`)
+  let reason = 'No containers found'
+  while (Date.now() < deadline) {
+    const containers = await runtime.ps(composeProject(project.slug))
+    const observed = deriveRuntimeStatus(enabled, containers)
+    const starting = containers.filter((c) => c.health === 'starting').map((c) => c.service)
+    if (observed.status === 'running' && starting.length === 0) {
+      log(`Health check passed: ${containers.filter((c) => c.state === 'running').length} containers running`)
+      return
+    }
+    reason = observed.reason || `Health checks still starting: ${starting.join(', ')}`
+    await new Promise((resolve) => setTimeout(resolve, HEALTH_POLL_INTERVAL_MS))
+  }
+  throw new Error(`Health check failed after ${Math.round(timeout / 1000)}s. ${reason}`)
+}
+
+// Sets, adds or removes single assignments in .env content; other lines stay as they are
+function patchEnvFile(content: string, changes: Record<string, string | null>) {
+  const pending = { ...changes }
+  const lines: string[] = []
+  for (const line of content.split('\n')) {
+    const key = line.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)=/)?.[1]
+    if (key && key in pending) {
+      if (pending[key] !== null) lines.push(`${key}=${pending[key]}`)
+      delete pending[key]
+    } else {
+      lines.push(line)
+    }
+  }
+  for (const [key, value] of Object.entries(pending)) {
+    if (value !== null) lines.push(`${key}=${value}`)
+  }
+  return lines.join('\n')
+}
+
+// Writes a snapshot back to the database and the project directory. Ports, the public URL and
+// database-held secrets keep their live values: an older snapshot's would no longer match the
+// port registry, the database or keys signed after a secret rotation.
+async function restoreSnapshot(deployment: {
+  projectId: string
+  envFile: string
+  composeFile: string
+  envVars: string
+  services: string | null
+  coreVersionId: string | null
+  coreCommit: string | null
+}) {
+  const project = await prisma.project.update({
+    where: { id: deployment.projectId },
+    data: { services: deployment.services, coreVersionId: deployment.coreVersionId, coreCommit: deployment.coreCommit },
+  })
+
+  const snapshot: Record<string, string> = JSON.parse(openSnapshotField('envVars', deployment.envVars))
+  const { envVars } = keepLiveEnvVars(await getProjectEnvVars(deployment.projectId), snapshot)
+  await replaceProjectEnvVars(deployment.projectId, envVars)
+  await recordEnvVersion(deployment.projectId, 'rollback')
+
+  const liveChanges: Record<string, string | null> = {}
+  for (const key of new Set([...Object.keys(snapshot), ...Object.keys(envVars)])) {
+    if (snapshot[key] !== envVars[key]) liveChanges[key] = envVars[key] ?? null
+  }
+  const dir = projectDockerDir(project.slug)
+  await fs.writeFile(path.join(dir, '.env'), patchEnvFile(openSnapshotField('envFile', deployment.envFile), liveChanges))
+  await fs.writeFile(path.join(dir, 'docker-compose.yml'), deployment.composeFile)
+  return project
+}
+
+// Restores a snapshot and brings the stack up with it. The caller owns the project status.
+export async function redeploySnapshot(deploymentId: string, log: JobLogger) {
+  const deployment = await prisma.deployment.findUnique({ where: { id: deploymentId } })
+  if (!deployment) {
+    throw new Error('Deployment not found')
+  }
+
+  log(`Restoring configuration of deployment #${deployment.number}...`)
+  const project = await restoreSnapshot(deployment)
+
+  await getContainerRuntime().up(composeProject(project.slug), {
+    removeOrphans: true,
+    timeout: 300000, // 5 minute timeout
+    onOutput: log,
+  })
+  await waitForHealthyStack(project, log)
+  // The stack runs the restored env vars, which are the live ones again
+  await clearNeedsRedeploy(project.id)
+  return deployment
+}
+
+// Runs after a failed deploy while the project is still 'starting'. Returns true when the
+// project is back on the last good deployment and active again.
+export async function rollbackFailedDeploy(projectId: string, failedId: string, error: string, log: JobLogger) {
+  const good = await getLastGoodDeployment(projectId, failedId)
+  if (!good) {
+    await finishDeployment(failedId, 'failed', error)
+    log('No earlier successful deployment to roll back to')
+    return false
+  }
+
+  log(`Deploy failed: ${error}`)
+  log(`Rolling back to deployment #${good.number}...`)
+  try {
+    await redeploySnapshot(good.id, log)
+    await finishDeployment(failedId, 'rolled_back', error)
+    await transitionProject(projectId, 'active', `Deploy failed and was rolled back to deployment #${good.number}`)
+    log(`Rolled back to deployment #${good.number}`)
+    return true
+  } catch (rollbackError) {
+    const message = rollbackError instanceof Error ? rollbackError.message : 'Unknown error'
+    log(`Rollback failed: ${message}`)
+    await finishDeployment(failedId, 'failed', `${error}\nRollback to #${good.number} failed: ${message}`)
+    return false
+  }
+}
+
+// Manually returns the project to an earlier deployment; recorded as a new deployment
+export async function rollbackProject(projectId: string, deploymentId: string, options: { onLog?: JobLogger } = {}) {
+  const log = (line: string) => {
+    console.log(line)
+    options.onLog?.(line)
+  }
+  let started = false
+  try {
+    const target = await prisma.deployment.findFirst({
+      where: { id: deploymentId, projectId },
+    })
+    if (!target) {
+      throw new Error('Deployment not found')
+    }
+
+    await transitionProject(projectId, 'starting', `Rolling back to deployment #${target.number}`)
+    started = true
+
+    await redeploySnapshot(target.id, log)
+    // Snapshot the restored state so it becomes the new last known-good deployment
+    const rollback = await createDeploymentSnapshot(projectId, { trigger: 'rollback', sourceNumber: target.number })
+    await finishDeployment(rollback.id, 'succeeded')
+    await transitionProject(projectId, 'active', `Rolled back to deployment #${target.number}`)
+    log(`Rolled back to deployment #${target.number}`)
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to roll back project:', error)
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    if (started) {
+      try {
+        await transitionProject(projectId, 'failed', `Rollback failed: ${message}`)
+      } catch (e) {
+        console.warn('Could not mark project as failed:', e)
+      }
+    }
+    return { success: false, error: message }
+  }
+}
+
+// Runs rollbackProject as a deploy job, so the configure page follows it like any deploy
+export async function queueRollbackProject(projectId: string, deploymentId: string) {
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+
+    if (await getActiveJob(projectId, 'deploy')) {
+      throw new Error('A deployment is already running')
+    }
+
+    if (!canTransition(project.status, 'starting')) {
+      throw new InvalidTransitionError(project.status, 'starting')
+    }
+
+    const job = await startJob(projectId, 'deploy', (log) => rollbackProject(projectId, deploymentId, { onLog: log }))
+    return { success: true, job }
+  } catch (error) {
+    console.error('Failed to queue rollback:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof InvalidTransitionError ? 'invalid_transition' : undefined,
+    }
+  }
+}
+
+export async function listDeployments(projectId: string) {
+  try {
+    const deployments = await prisma.deployment.findMany({
+      where: { projectId },
+      orderBy: { number: 'desc' },
+      select: DEPLOYMENT_SUMMARY_SELECT,
+    })
+
+    return { success: true, deployments }
+  } catch (error) {
+    console.error('Failed to list deployments:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
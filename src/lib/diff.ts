@@ -0,0 +1,115 @@
+// Line based unified diff, used to preview file changes before they are applied
+
+type Op = { type: 'equal' | 'delete' | 'insert'; line: string }
+
+// Above this many LCS cells the changed region is shown as a whole replacement
+const MAX_CELLS = 4_000_000
+
+function splitLines(text: string) {
+  if (text === '') return []
+  const lines = text.split('\n')
+  if (lines[lines.length - 1] === '') lines.pop()
+  return lines
+}
+
+function diffLines(a: string[], b: string[]): Op[] {
+  // Common prefix and suffix are cheap to strip and usually cover most of the file
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const ops: Op[] = a.slice(0, start).map((line) => ({ type: 'equal', line }))
+  const midA = a.slice(start, endA)
+  const midB = b.slice(start, endB)
+  const n = midA.length
+  const m = midB.length
+
+  if (n * m > MAX_CELLS) {
+    ops.push(...midA.map((line): Op => ({ type: 'delete', line })))
+    ops.push(...midB.map((line): Op => ({ type: 'insert', line })))
+  } else {
+    // table[i][j] = length of the LCS of midA[i..] and midB[j..]
+    const width = m + 1
+    const table = new Uint32Array((n + 1) * width)
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        table[i * width + j] = midA[i] === midB[j]
+          ? table[(i + 1) * width + j + 1] + 1
+          : Math.max(table[(i + 1) * width + j], table[i * width + j + 1])
+      }
+    }
+
+    let i = 0
+    let j = 0
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        ops.push({ type: 'equal', line: midA[i] })
+        i++
+        j++
+      } else if (table[(i + 1) * width + j] >= table[i * width + j + 1]) {
+        ops.push({ type: 'delete', line: midA[i++] })
+      } else {
+        ops.push({ type: 'insert', line: midB[j++] })
+      }
+    }
+    while (i < n) ops.push({ type: 'delete', line: midA[i++] })
+    while (j < m) ops.push({ type: 'insert', line: midB[j++] })
+  }
+
+  ops.push(...a.slice(endA).map((line): Op => ({ type: 'equal', line })))
+  return ops
+}
+
+// Returns an empty string when both texts are equal
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  options: { oldLabel?: string; newLabel?: string; context?: number } = {}
+) {
+  const context = options.context ?? 3
+  const ops = diffLines(splitLines(oldText), splitLines(newText))
+  const changed = ops.map((op, i) => (op.type === 'equal' ? -1 : i)).filter((i) => i >= 0)
+  if (changed.length === 0) return ''
+
+  // Line numbers (1-based) each op starts at in the old and new text
+  const oldLine: number[] = []
+  const newLine: number[] = []
+  let o = 1
+  let n = 1
+  for (const op of ops) {
+    oldLine.push(o)
+    newLine.push(n)
+    if (op.type !== 'insert') o++
+    if (op.type !== 'delete') n++
+  }
+
+  // Group changes whose context overlaps into hunks
+  const ranges: Array<[number, number]> = []
+  for (const index of changed) {
+    const from = Math.max(0, index - context)
+    const to = Math.min(ops.length, index + context + 1)
+    const last = ranges[ranges.length - 1]
+    if (last && from <= last[1]) {
+      last[1] = Math.max(last[1], to)
+    } else {
+      ranges.push([from, to])
+    }
+  }
+
+  const out = [`--- ${options.oldLabel ?? 'a'}`, `+++ ${options.newLabel ?? 'b'}`]
+  for (const [from, to] of ranges) {
+    const slice = ops.slice(from, to)
+    const oldCount = slice.filter((op) => op.type !== 'insert').length
+    const newCount = slice.filter((op) => op.type !== 'delete').length
+    out.push(`@@ -${oldCount ? oldLine[from] : oldLine[from] - 1},${oldCount} +${newCount ? newLine[from] : newLine[from] - 1},${newCount} @@`)
+    for (const op of slice) {
+      out.push(`${op.type === 'equal' ? ' ' : op.type === 'delete' ? '-' : '+'}${op.line}`)
+    }
+  }
+  return out.join('\n')
+}
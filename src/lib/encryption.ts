@@ -0,0 +1,110 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto'
+
+// Values are sealed with AES-256-GCM under a master key from CONSOLE_MASTER_KEY and stored as
+// `enc:v<version>:<base64url(iv | tag | ciphertext)>`. The version names the key that sealed the
+// value, so the master key can be rotated while older values stay readable until re-encrypted.
+
+const PREFIX = 'enc:v'
+const IV_BYTES = 12
+const TAG_BYTES = 16
+const KEY_BYTES = 32
+
+interface MasterKey {
+  version: number
+  key: Buffer
+}
+
+export class MasterKeyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'MasterKeyError'
+  }
+}
+
+let cached: { source: string; keys: MasterKey[] } | null = null
+
+// CONSOLE_MASTER_KEY is a comma-separated list of `<version>:<base64 key>` entries. The first
+// entry seals new values; the others only open values sealed before a rotation. A key without
+// a version prefix is version 1. Generate a key with `openssl rand -base64 32`.
+function masterKeys(): MasterKey[] {
+  const source = process.env.CONSOLE_MASTER_KEY?.trim() || ''
+  if (cached?.source === source) return cached.keys
+
+  const keys: MasterKey[] = []
+  for (const entry of source.split(',').map((e) => e.trim()).filter(Boolean)) {
+    const match = entry.match(/^(\d+):(.+)$/)
+    const version = match ? parseInt(match[1], 10) : 1
+    const key = Buffer.from(match ? match[2] : entry, 'base64')
+    if (key.length !== KEY_BYTES) {
+      throw new MasterKeyError(`CONSOLE_MASTER_KEY version ${version} must be ${KEY_BYTES} bytes, base64 encoded`)
+    }
+    if (keys.some((k) => k.version === version)) {
+      throw new MasterKeyError(`CONSOLE_MASTER_KEY lists version ${version} twice`)
+    }
+    keys.push({ version, key })
+  }
+
+  cached = { source, keys }
+  return keys
+}
+
+export function encryptionEnabled() {
+  return masterKeys().length > 0
+}
+
+// Version of the key new values are sealed with, or null without a master key
+export function currentKeyVersion() {
+  return masterKeys()[0]?.version ?? null
+}
+
+export function isEncrypted(value: string) {
+  return value.startsWith(PREFIX)
+}
+
+// Version of the key that sealed a stored value; null for plaintext
+export function encryptedKeyVersion(value: string) {
+  const match = value.match(/^enc:v(\d+):/)
+  return match ? parseInt(match[1], 10) : null
+}
+
+// The context (e.g. the env var name) is authenticated with the value, so a sealed value
+// copied to another field fails to open
+export function encryptValue(plaintext: string, context: string): string {
+  const current = masterKeys()[0]
+  if (!current) {
+    throw new MasterKeyError('CONSOLE_MASTER_KEY is not set')
+  }
+
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv('aes-256-gcm', current.key, iv)
+  cipher.setAAD(Buffer.from(context, 'utf8'))
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+  const sealed = Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url')
+  return `${PREFIX}${current.version}:${sealed}`
+}
+
+// Opens a sealed value; plaintext passes through unchanged
+export function decryptValue(stored: string, context: string): string {
+  const version = encryptedKeyVersion(stored)
+  if (version === null) return stored
+
+  const master = masterKeys().find((k) => k.version === version)
+  if (!master) {
+    throw new MasterKeyError(`A value for ${context} is encrypted with master key version ${version}, which CONSOLE_MASTER_KEY does not contain`)
+  }
+
+  const data = Buffer.from(stored.slice(stored.indexOf(':', PREFIX.length) + 1), 'base64url')
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', master.key, data.subarray(0, IV_BYTES))
+    decipher.setAAD(Buffer.from(context, 'utf8'))
+    decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES))
+    return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]).toString('utf8')
+  } catch {
+    throw new MasterKeyError(`The value for ${context} could not be decrypted with master key version ${version}`)
+  }
+}
+
+// Seals a value when a master key is configured; without one values are stored as given
+export function sealValue(plaintext: string, context: string): string {
+  return encryptionEnabled() ? encryptValue(plaintext, context) : plaintext
+}
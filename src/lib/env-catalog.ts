@@ -0,0 +1,498 @@
+// Catalog of the env vars a Supabase project knows about, with the rules the console validates
+// them against; kept free of server-only imports so the configure page renders its form from it
+
+export type EnvVarType = 'string' | 'secret' | 'jwt' | 'port' | 'url' | 'boolean' | 'integer' | 'csv' | 'email' | 'path'
+
+export type EnvGroupKey =
+  | 'secrets'
+  | 'keys'
+  | 'database'
+  | 'pooler'
+  | 'api'
+  | 'auth'
+  | 'email'
+  | 'studio'
+  | 'functions'
+  | 'storage'
+  | 'analytics'
+
+// What it takes for a changed value to reach the running project
+export type EnvRestartImpact =
+  | 'restart' // the listed services are recreated on the next deploy
+  | 'rotation' // the database keeps the old value; change it from the Secrets page instead
+
+export interface EnvGroup {
+  key: EnvGroupKey
+  title: string
+  description: string
+}
+
+export interface EnvVarSpec {
+  key: string
+  label: string
+  type: EnvVarType
+  group: EnvGroupKey
+  description: string
+  secret?: boolean
+  // Empty values are rejected unless the variable is optional
+  optional?: boolean
+  // Service keys (see supabase-services.ts) whose containers read the variable
+  services: string[]
+  restart: EnvRestartImpact
+  default?: string
+  // Published on the host from the project's port block; no two may share a port
+  hostPort?: boolean
+  minLength?: number
+  min?: number
+  max?: number
+  pattern?: RegExp
+  patternMessage?: string
+  // Placeholders from Supabase's .env.example that must never reach a deployment
+  insecureDefaults?: string[]
+}
+
+export const ENV_GROUPS: EnvGroup[] = [
+  { key: 'secrets', title: '🔐 Secrets', description: 'Passwords and keys generated for this project. Generate new values rather than typing them.' },
+  { key: 'keys', title: '🔑 JWT Keys', description: 'JSON Web Tokens signed with the JWT secret. After changing the secret, sign new keys with it.' },
+  { key: 'database', title: '🗄️ Database Configuration', description: 'PostgreSQL database connection settings.' },
+  { key: 'pooler', title: '🔀 Connection Pooler', description: 'Supavisor pool sizes and its transaction-mode port.' },
+  { key: 'api', title: '🌐 API Gateway', description: 'Kong ports, the public URLs and the schemas PostgREST exposes.' },
+  { key: 'auth', title: '👤 Authentication Settings', description: 'Configure authentication behavior and URLs.' },
+  { key: 'email', title: '📧 Email Configuration', description: 'SMTP settings for authentication emails.' },
+  { key: 'studio', title: '🎨 Studio Configuration', description: 'Supabase Studio dashboard settings.' },
+  { key: 'functions', title: '⚡ Edge Functions', description: 'Edge runtime settings.' },
+  { key: 'storage', title: '🖼️ Storage', description: 'Image transformation settings.' },
+  { key: 'analytics', title: '📊 Analytics & Logs', description: 'Logflare access tokens and the log collector.' },
+]
+
+const DB_CLIENTS = ['auth', 'rest', 'realtime', 'storage', 'meta', 'functions', 'analytics', 'pooler']
+
+export const ENV_CATALOG: EnvVarSpec[] = [
+  // Secrets
+  {
+    key: 'POSTGRES_PASSWORD', label: 'PostgreSQL Password', type: 'secret', group: 'secrets', secret: true,
+    description: 'Password of the postgres role and the service roles. It is embedded in connection URLs, so it is limited to letters and digits.',
+    services: ['db', 'studio', ...DB_CLIENTS], restart: 'rotation',
+    minLength: 16, pattern: /^[A-Za-z0-9]+$/, patternMessage: 'Use letters and digits only',
+    insecureDefaults: ['your-super-secret-and-long-postgres-password'],
+  },
+  {
+    key: 'JWT_SECRET', label: 'JWT Secret', type: 'secret', group: 'secrets', secret: true,
+    description: 'Signs and verifies every JWT, including the anon and service role keys.',
+    services: ['db', 'studio', 'kong', 'auth', 'rest', 'realtime', 'storage', 'functions', 'pooler'], restart: 'rotation',
+    minLength: 32,
+    insecureDefaults: ['your-super-secret-jwt-token-with-at-least-32-characters-long'],
+  },
+  {
+    key: 'DASHBOARD_USERNAME', label: 'Dashboard Username', type: 'string', group: 'secrets',
+    description: 'Username of the basic auth in front of Studio.',
+    services: ['kong'], restart: 'restart', default: 'supabase',
+  },
+  {
+    key: 'DASHBOARD_PASSWORD', label: 'Dashboard Password', type: 'secret', group: 'secrets', secret: true,
+    description: 'Password of the basic auth in front of Studio. It must contain at least one letter.',
+    services: ['kong'], restart: 'restart',
+    minLength: 8, pattern: /[A-Za-z]/, patternMessage: 'Include at least one letter',
+    insecureDefaults: ['this_password_is_insecure_and_should_be_updated'],
+  },
+  {
+    key: 'SECRET_KEY_BASE', label: 'Secret Key Base', type: 'secret', group: 'secrets', secret: true,
+    description: 'Signs Realtime and Supavisor sessions.',
+    services: ['realtime', 'pooler'], restart: 'restart',
+    minLength: 64,
+    insecureDefaults: ['UpNVntn3cDxHJpq99YMc1T1AQgQpc8kfYTuRgBiYa15BLrx8etQoXz3gZv1/u2oq'],
+  },
+  {
+    key: 'VAULT_ENC_KEY', label: 'Vault Encryption Key', type: 'secret', group: 'secrets', secret: true,
+    description: 'Encrypts the pooler tenant, which stores the database password.',
+    services: ['pooler'], restart: 'rotation',
+    minLength: 32,
+    insecureDefaults: ['your-encryption-key-32-chars-min'],
+  },
+
+  // JWT keys
+  {
+    key: 'ANON_KEY', label: 'Anonymous Key (Public)', type: 'jwt', group: 'keys',
+    description: 'Key for browsers and other untrusted clients; signed with JWT_SECRET with the anon role.',
+    services: ['kong', 'studio', 'functions'], restart: 'restart',
+  },
+  {
+    key: 'SERVICE_ROLE_KEY', label: 'Service Role Key (Secret)', type: 'jwt', group: 'keys', secret: true,
+    description: 'Key that bypasses row level security; signed with JWT_SECRET with the service_role role.',
+    services: ['kong', 'studio', 'storage', 'functions'], restart: 'restart',
+  },
+
+  // Database
+  {
+    key: 'POSTGRES_HOST', label: 'PostgreSQL Host', type: 'string', group: 'database',
+    description: 'Host name of the database inside the compose network.',
+    services: DB_CLIENTS, restart: 'restart', default: 'db',
+  },
+  {
+    key: 'POSTGRES_DB', label: 'Database Name', type: 'string', group: 'database',
+    description: 'Database the services connect to.',
+    services: ['db', ...DB_CLIENTS], restart: 'restart', default: 'postgres',
+  },
+  {
+    key: 'POSTGRES_PORT', label: 'PostgreSQL Port', type: 'port', group: 'database',
+    description: 'Port Postgres listens on; reserved from the project\'s port block.',
+    services: ['db', ...DB_CLIENTS], restart: 'restart', hostPort: true, default: '5432',
+  },
+
+  // Pooler
+  {
+    key: 'POOLER_PROXY_PORT_TRANSACTION', label: 'Transaction Pooler Port', type: 'port', group: 'pooler',
+    description: 'Host port of transaction-mode pooled connections.',
+    services: ['pooler'], restart: 'restart', hostPort: true, default: '6543',
+  },
+  {
+    key: 'POOLER_DEFAULT_POOL_SIZE', label: 'Default Pool Size', type: 'integer', group: 'pooler',
+    description: 'Server connections per user and database pair.',
+    services: ['pooler'], restart: 'restart', default: '20', min: 1,
+  },
+  {
+    key: 'POOLER_MAX_CLIENT_CONN', label: 'Max Client Connections', type: 'integer', group: 'pooler',
+    description: 'Client connections the pooler accepts.',
+    services: ['pooler'], restart: 'restart', default: '100', min: 1,
+  },
+  {
+    key: 'POOLER_TENANT_ID', label: 'Tenant ID', type: 'string', group: 'pooler',
+    description: 'Tenant name; part of the pooler connection user (postgres.<tenant>).',
+    services: ['pooler'], restart: 'restart',
+    pattern: /^[A-Za-z0-9_-]+$/, patternMessage: 'Use letters, digits, dashes and underscores only',
+  },
+  {
+    key: 'POOLER_DB_POOL_SIZE', label: 'Internal Pool Size', type: 'integer', group: 'pooler',
+    description: 'Connections Supavisor keeps for its own metadata.',
+    services: ['pooler'], restart: 'restart', default: '5', min: 1,
+  },
+
+  // API gateway
+  {
+    key: 'KONG_HTTP_PORT', label: 'Kong HTTP Port', type: 'port', group: 'api',
+    description: 'Host port of the API gateway; reserved from the project\'s port block.',
+    services: ['kong'], restart: 'restart', hostPort: true, default: '8000',
+  },
+  {
+    key: 'KONG_HTTPS_PORT', label: 'Kong HTTPS Port', type: 'port', group: 'api',
+    description: 'Host port of the API gateway over TLS.',
+    services: ['kong'], restart: 'restart', hostPort: true, default: '8443',
+  },
+  {
+    key: 'API_EXTERNAL_URL', label: 'API External URL', type: 'url', group: 'api',
+    description: 'URL clients reach the API gateway on; used in auth emails and redirects.',
+    services: ['auth'], restart: 'restart', default: 'http://localhost:8000',
+  },
+  {
+    key: 'SUPABASE_PUBLIC_URL', label: 'Supabase Public URL', type: 'url', group: 'api',
+    description: 'URL Studio shows and calls for the project API.',
+    services: ['studio'], restart: 'restart', default: 'http://localhost:8000',
+  },
+  {
+    key: 'PGRST_DB_SCHEMAS', label: 'PostgREST DB Schemas', type: 'csv', group: 'api',
+    description: 'Comma-separated schemas exposed through the REST API.',
+    services: ['rest'], restart: 'restart', default: 'public,storage,graphql_public',
+  },
+
+  // Auth
+  {
+    key: 'SITE_URL', label: 'Site URL', type: 'url', group: 'auth',
+    description: 'Default redirect after sign-in and the base of links in auth emails.',
+    services: ['auth'], restart: 'restart', default: 'http://localhost:3000',
+  },
+  {
+    key: 'ADDITIONAL_REDIRECT_URLS', label: 'Additional Redirect URLs', type: 'csv', group: 'auth', optional: true,
+    description: 'Comma-separated URLs auth may redirect to besides the site URL.',
+    services: ['auth'], restart: 'restart', default: '',
+  },
+  {
+    key: 'JWT_EXPIRY', label: 'JWT Expiry (seconds)', type: 'integer', group: 'auth',
+    description: 'Lifetime of access tokens issued at sign-in.',
+    services: ['auth'], restart: 'restart', default: '3600', min: 30, max: 604800,
+  },
+  {
+    key: 'DISABLE_SIGNUP', label: 'Disable Signup', type: 'boolean', group: 'auth',
+    description: 'Only existing users can sign in.',
+    services: ['auth'], restart: 'restart', default: 'false',
+  },
+  {
+    key: 'ENABLE_EMAIL_SIGNUP', label: 'Enable Email Signup', type: 'boolean', group: 'auth',
+    description: 'Allow sign-up with email and password.',
+    services: ['auth'], restart: 'restart', default: 'true',
+  },
+  {
+    key: 'ENABLE_EMAIL_AUTOCONFIRM', label: 'Auto-confirm Email', type: 'boolean', group: 'auth',
+    description: 'Skip the confirmation email for new email users.',
+    services: ['auth'], restart: 'restart', default: 'false',
+  },
+  {
+    key: 'ENABLE_ANONYMOUS_USERS', label: 'Enable Anonymous Users', type: 'boolean', group: 'auth',
+    description: 'Allow anonymous sign-ins.',
+    services: ['auth'], restart: 'restart', default: 'false',
+  },
+  {
+    key: 'ENABLE_PHONE_SIGNUP', label: 'Enable Phone Signup', type: 'boolean', group: 'auth',
+    description: 'Allow sign-up with a phone number.',
+    services: ['auth'], restart: 'restart', default: 'true',
+  },
+  {
+    key: 'ENABLE_PHONE_AUTOCONFIRM', label: 'Auto-confirm Phone', type: 'boolean', group: 'auth',
+    description: 'Skip the SMS confirmation for new phone users.',
+    services: ['auth'], restart: 'restart', default: 'true',
+  },
+  {
+    key: 'MAILER_URLPATHS_CONFIRMATION', label: 'Confirmation Path', type: 'path', group: 'auth',
+    description: 'Path of the link in confirmation emails.',
+    services: ['auth'], restart: 'restart', default: '/auth/v1/verify',
+  },
+  {
+    key: 'MAILER_URLPATHS_INVITE', label: 'Invite Path', type: 'path', group: 'auth',
+    description: 'Path of the link in invite emails.',
+    services: ['auth'], restart: 'restart', default: '/auth/v1/verify',
+  },
+  {
+    key: 'MAILER_URLPATHS_RECOVERY', label: 'Recovery Path', type: 'path', group: 'auth',
+    description: 'Path of the link in password recovery emails.',
+    services: ['auth'], restart: 'restart', default: '/auth/v1/verify',
+  },
+  {
+    key: 'MAILER_URLPATHS_EMAIL_CHANGE', label: 'Email Change Path', type: 'path', group: 'auth',
+    description: 'Path of the link in email change emails.',
+    services: ['auth'], restart: 'restart', default: '/auth/v1/verify',
+  },
+
+  // Email
+  {
+    key: 'SMTP_ADMIN_EMAIL', label: 'Admin Email', type: 'email', group: 'email',
+    description: 'Sender address of auth emails.',
+    services: ['auth'], restart: 'restart', default: 'admin@example.com',
+  },
+  {
+    key: 'SMTP_HOST', label: 'SMTP Host', type: 'string', group: 'email',
+    description: 'Mail server auth sends through.',
+    services: ['auth'], restart: 'restart', default: 'supabase-mail',
+  },
+  {
+    key: 'SMTP_PORT', label: 'SMTP Port', type: 'port', group: 'email',
+    description: 'Port of the mail server.',
+    services: ['auth'], restart: 'restart', default: '2500',
+  },
+  {
+    key: 'SMTP_USER', label: 'SMTP User', type: 'string', group: 'email', optional: true,
+    description: 'User name for the mail server.',
+    services: ['auth'], restart: 'restart', default: '',
+  },
+  {
+    key: 'SMTP_PASS', label: 'SMTP Password', type: 'secret', group: 'email', secret: true, optional: true,
+    description: 'Password for the mail server.',
+    services: ['auth'], restart: 'restart',
+  },
+  {
+    key: 'SMTP_SENDER_NAME', label: 'SMTP Sender Name', type: 'string', group: 'email',
+    description: 'Display name of auth emails.',
+    services: ['auth'], restart: 'restart', default: 'fake_sender',
+  },
+
+  // Studio
+  {
+    key: 'STUDIO_DEFAULT_ORGANIZATION', label: 'Default Organization', type: 'string', group: 'studio',
+    description: 'Organization name Studio shows.',
+    services: ['studio'], restart: 'restart', default: 'Default Organization',
+  },
+  {
+    key: 'STUDIO_DEFAULT_PROJECT', label: 'Default Project', type: 'string', group: 'studio',
+    description: 'Project name Studio shows.',
+    services: ['studio'], restart: 'restart', default: 'Default Project',
+  },
+  {
+    key: 'STUDIO_PORT', label: 'Studio Port', type: 'port', group: 'studio',
+    description: 'Host port of Studio; reserved from the project\'s port block.',
+    services: ['studio'], restart: 'restart', hostPort: true, default: '3000',
+  },
+  {
+    key: 'OPENAI_API_KEY', label: 'OpenAI API Key', type: 'secret', group: 'studio', secret: true, optional: true,
+    description: 'Enables the SQL Editor assistant.',
+    services: ['studio'], restart: 'restart',
+  },
+
+  // Functions
+  {
+    key: 'FUNCTIONS_VERIFY_JWT', label: 'Functions Verify JWT', type: 'boolean', group: 'functions',
+    description: 'Require a valid JWT to invoke edge functions.',
+    services: ['functions'], restart: 'restart', default: 'false',
+  },
+
+  // Storage
+  {
+    key: 'IMGPROXY_ENABLE_WEBP_DETECTION', label: 'WebP Detection', type: 'boolean', group: 'storage',
+    description: 'Serve WebP to browsers that accept it.',
+    services: ['imgproxy'], restart: 'restart', default: 'true',
+  },
+
+  // Analytics
+  {
+    key: 'ANALYTICS_PORT', label: 'Analytics Port', type: 'port', group: 'analytics',
+    description: 'Host port of Logflare; reserved from the project\'s port block.',
+    services: ['analytics'], restart: 'restart', hostPort: true, default: '4000',
+  },
+  {
+    key: 'LOGFLARE_PUBLIC_ACCESS_TOKEN', label: 'Logflare Public Token', type: 'secret', group: 'analytics', secret: true,
+    description: 'Token the log collector ingests with.',
+    services: ['analytics', 'vector', 'studio'], restart: 'restart',
+    minLength: 32,
+    insecureDefaults: ['your-super-secret-and-long-logflare-key-public'],
+  },
+  {
+    key: 'LOGFLARE_PRIVATE_ACCESS_TOKEN', label: 'Logflare Private Token', type: 'secret', group: 'analytics', secret: true,
+    description: 'Token Studio queries logs with.',
+    services: ['analytics', 'studio'], restart: 'restart',
+    minLength: 32,
+    insecureDefaults: ['your-super-secret-and-long-logflare-key-private'],
+  },
+  {
+    key: 'DOCKER_SOCKET_LOCATION', label: 'Docker Socket', type: 'path', group: 'analytics',
+    description: 'Socket the log collector reads container logs from.',
+    services: ['vector'], restart: 'restart', default: '/var/run/docker.sock',
+  },
+  {
+    key: 'GOOGLE_PROJECT_ID', label: 'Google Project ID', type: 'string', group: 'analytics', optional: true,
+    description: 'Only used with the BigQuery backend of Logflare.',
+    services: ['analytics'], restart: 'restart', default: 'GOOGLE_PROJECT_ID',
+  },
+  {
+    key: 'GOOGLE_PROJECT_NUMBER', label: 'Google Project Number', type: 'string', group: 'analytics', optional: true,
+    description: 'Only used with the BigQuery backend of Logflare.',
+    services: ['analytics'], restart: 'restart', default: 'GOOGLE_PROJECT_NUMBER',
+  },
+]
+
+export function findEnvVarSpec(key: string): EnvVarSpec | undefined {
+  return ENV_CATALOG.find((spec) => spec.key === key)
+}
+
+// Passwords, secrets, keys and tokens among variables the catalog doesn't know
+const SECRET_KEY_PATTERN = /(PASSWORD|_PASS|SECRET|SECRET_KEY_BASE|_KEY|TOKEN)$/
+
+// Whether a variable's value is secret: encrypted at rest, masked in plans and history. The
+// catalog decides for the variables it lists; the name pattern only covers the rest.
+export function isSecretEnvKey(key: string) {
+  const spec = findEnvVarSpec(key)
+  return spec ? !!spec.secret : SECRET_KEY_PATTERN.test(key)
+}
+
+// Valid env var names, as accepted everywhere env vars are stored
+export const ENV_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/
+const INTEGER_PATTERN = /^\d+$/
+const JWT_PATTERN = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/
+
+function isHttpUrl(value: string) {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// Checks one value against its catalog entry; returns the error message or null
+export function validateEnvValue(spec: EnvVarSpec, value: string): string | null {
+  if (value === '') {
+    return spec.optional ? null : 'Required'
+  }
+  if (spec.insecureDefaults?.includes(value)) {
+    return 'This is the public placeholder from the Supabase template; generate a new value'
+  }
+  if (spec.minLength && value.length < spec.minLength) {
+    return `Must be at least ${spec.minLength} characters`
+  }
+  if (spec.pattern && !spec.pattern.test(value)) {
+    return spec.patternMessage || 'Invalid format'
+  }
+
+  switch (spec.type) {
+    case 'port': {
+      const port = Number(value)
+      return INTEGER_PATTERN.test(value) && port >= 1 && port <= 65535 ? null : 'Must be a port between 1 and 65535'
+    }
+    case 'integer': {
+      if (!INTEGER_PATTERN.test(value)) return 'Must be a whole number'
+      const number = Number(value)
+      if (spec.min !== undefined && number < spec.min) return `Must be at least ${spec.min}`
+      if (spec.max !== undefined && number > spec.max) return `Must be at most ${spec.max}`
+      return null
+    }
+    case 'boolean':
+      return value === 'true' || value === 'false' ? null : 'Must be true or false'
+    case 'url':
+      return isHttpUrl(value) ? null : 'Must be an http:// or https:// URL'
+    case 'email':
+      return EMAIL_PATTERN.test(value) ? null : 'Must be an email address'
+    case 'path':
+      return value.startsWith('/') ? null : 'Must start with /'
+    case 'jwt':
+      return JWT_PATTERN.test(value) ? null : 'Must be a JWT (three base64url parts separated by dots)'
+    case 'csv':
+      return value.split(',').every((item) => item.trim() !== '') ? null : 'Remove the empty entry from the list'
+    default:
+      return null
+  }
+}
+
+export type EnvFieldErrors = Record<string, string>
+
+// Validates a submitted set of env vars. Keys outside the catalog are accepted as long as their
+// name is valid; no value may span lines, since each one becomes a line of the .env file.
+export function validateEnvVars(input: Record<string, unknown>): { values: Record<string, string>; errors: EnvFieldErrors } {
+  const values: Record<string, string> = {}
+  const errors: EnvFieldErrors = {}
+
+  for (const [key, raw] of Object.entries(input)) {
+    if (!ENV_KEY_PATTERN.test(key)) {
+      errors[key] = 'Names may only contain letters, digits and underscores'
+      continue
+    }
+    if (typeof raw !== 'string' && typeof raw !== 'number' && typeof raw !== 'boolean') {
+      errors[key] = 'Must be a string'
+      continue
+    }
+    const value = String(raw)
+    if (/[\r\n\0]/.test(value)) {
+      errors[key] = 'Must be a single line'
+      continue
+    }
+
+    const spec = findEnvVarSpec(key)
+    const error = spec ? validateEnvValue(spec, value) : null
+    if (error) {
+      errors[key] = error
+    } else {
+      values[key] = value
+    }
+  }
+
+  for (const [key, error] of Object.entries(findPortConflicts(values))) {
+    errors[key] = error
+  }
+
+  return { values, errors }
+}
+
+// Two published ports on one host port cannot both bind. Only keys in `changed` (default: all)
+// are reported, so a partial update can be checked against the stored ports.
+export function findPortConflicts(values: Record<string, string>, changed?: string[]): EnvFieldErrors {
+  const errors: EnvFieldErrors = {}
+  const seen: Record<string, string> = {}
+  const specs = ENV_CATALOG.filter((s) => s.hostPort && s.key in values)
+  // Unchanged ports claim their value first
+  specs.sort((a, b) => Number(!!changed?.includes(a.key)) - Number(!!changed?.includes(b.key)))
+  for (const spec of specs) {
+    const other = seen[values[spec.key]]
+    if (other) {
+      if (!changed || changed.includes(spec.key)) errors[spec.key] = `Same port as ${other}`
+    } else {
+      seen[values[spec.key]] = spec.key
+    }
+  }
+  return errors
+}
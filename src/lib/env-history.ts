@@ -0,0 +1,140 @@
+import { prisma } from './db'
+import { getActiveJob } from './jobs'
+import { writeProjectEnvFile } from './project'
+import { isSecretEnvKey } from './env-catalog'
+import { SUPABASE_SERVICES, parseEnabledServices, disabledEnvKeys } from './supabase-services'
+import {
+  getProjectEnvVars,
+  replaceProjectEnvVars,
+  recordEnvVersion,
+  openEnvVersion,
+  keepLiveEnvVars,
+} from './env-vars'
+
+const HISTORY_PAGE = 50
+
+export interface EnvChange {
+  key: string
+  change: 'added' | 'removed' | 'changed'
+  secret: boolean
+  // Secret values are never returned; both sides are null for them
+  from: string | null
+  to: string | null
+}
+
+const SERVICE_ENV_KEYS = SUPABASE_SERVICES.flatMap((service) => service.envKeys || [])
+
+export function diffEnv(from: Record<string, string>, to: Record<string, string>): EnvChange[] {
+  const changes: EnvChange[] = []
+  const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort()
+  for (const key of keys) {
+    if (from[key] === to[key]) continue
+    const secret = isSecretEnvKey(key)
+    const change = !(key in from) ? 'added' : !(key in to) ? 'removed' : 'changed'
+    changes.push({
+      key,
+      change,
+      secret,
+      from: secret ? null : from[key] ?? null,
+      to: secret ? null : to[key] ?? null,
+    })
+  }
+  return changes
+}
+
+export async function listEnvVersions(projectId: string) {
+  // One extra version so the oldest listed one can be diffed against its predecessor
+  const rows: {
+    id: string
+    number: number
+    source: string
+    envVars: string
+    revertedTo: number | null
+    createdAt: Date
+    user: { name: string | null; email: string } | null
+  }[] = await prisma.envVarVersion.findMany({
+    where: { projectId },
+    orderBy: { number: 'desc' },
+    take: HISTORY_PAGE + 1,
+    include: { user: { select: { name: true, email: true } } },
+  })
+
+  const versions = []
+  for (let i = 0; i < Math.min(rows.length, HISTORY_PAGE); i++) {
+    const { envVars, ...version } = rows[i]
+    const previous = rows[i + 1]
+    let changes: EnvChange[] | null = null
+    try {
+      changes = diffEnv(previous ? openEnvVersion(previous.envVars) : {}, openEnvVersion(envVars))
+    } catch (error) {
+      console.warn(`Cannot diff env version ${version.number}:`, error instanceof Error ? error.message : error)
+    }
+    versions.push({ ...version, changes })
+  }
+  return versions
+}
+
+async function loadVersion(projectId: string, number: number) {
+  const version = await prisma.envVarVersion.findUnique({
+    where: { projectId_number: { projectId, number } },
+  })
+  if (!version) {
+    throw new Error(`Version ${number} not found`)
+  }
+  return openEnvVersion(version.envVars)
+}
+
+// Changes from one version to another, with secret values redacted
+export async function diffEnvVersions(projectId: string, from: number, to: number) {
+  try {
+    const changes = diffEnv(await loadVersion(projectId, from), await loadVersion(projectId, to))
+    return { success: true, changes }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+// Restores the env vars of an earlier version as a new version and rewrites .env. The running
+// stack keeps the old values until the project is redeployed.
+export async function revertEnvVersion(projectId: string, number: number, userId: string) {
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+
+    if (await getActiveJob(projectId, 'deploy') || await getActiveJob(projectId, 'rotate')) {
+      throw new Error('Wait for the running deployment or secret rotation to finish')
+    }
+
+    const target = await loadVersion(projectId, number)
+    const current = await getProjectEnvVars(projectId)
+    const disabled = disabledEnvKeys(parseEnabledServices(project.services))
+
+    // Ports, the public URL and database-held secrets keep their current values
+    const { envVars, kept } = keepLiveEnvVars(current, target)
+    const restored: Record<string, string> = {}
+    for (const [key, value] of Object.entries(envVars)) {
+      if (disabled.includes(key) && current[key] !== value) continue
+      restored[key] = value
+    }
+    for (const [key, value] of Object.entries(current)) {
+      // Settings of services enabled since that version keep their current value too
+      if (!(key in target) && SERVICE_ENV_KEYS.includes(key)) {
+        restored[key] = value
+      }
+    }
+
+    await replaceProjectEnvVars(projectId, restored)
+    const version = await recordEnvVersion(projectId, 'revert', { userId, revertedTo: number })
+    await writeProjectEnvFile(projectId, project.slug)
+
+    return { success: true, version: version?.number ?? null, kept }
+  } catch (error) {
+    console.error('Failed to revert env vars:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
@@ -0,0 +1,326 @@
+import { prisma } from './db'
+import {
+  sealValue,
+  decryptValue,
+  encryptionEnabled,
+  currentKeyVersion,
+  encryptedKeyVersion,
+  isEncrypted,
+  MasterKeyError,
+} from './encryption'
+import { isSecretEnvKey, ENV_CATALOG } from './env-catalog'
+import { PORT_VARIABLES } from './ports'
+
+// Every read and write of ProjectEnvVar rows, deployment snapshots and env var versions goes
+// through here, so secret values are encrypted at rest whenever CONSOLE_MASTER_KEY is set.
+
+// Only secret values (see isSecretEnvKey) are sealed; ports, URLs and flags stay readable
+function sealEnvValue(key: string, value: string) {
+  return isSecretEnvKey(key) ? sealValue(value, `env:${key}`) : value
+}
+
+function openEnvValue(key: string, stored: string) {
+  return decryptValue(stored, `env:${key}`)
+}
+
+export async function getProjectEnvVars(projectId: string): Promise<Record<string, string>> {
+  const rows: { key: string; value: string }[] = await prisma.projectEnvVar.findMany({
+    where: { projectId },
+  })
+  const envVars: Record<string, string> = {}
+  for (const row of rows) {
+    envVars[row.key] = openEnvValue(row.key, row.value)
+  }
+  return envVars
+}
+
+// Creates or overwrites the given env vars; others are left alone
+export async function setProjectEnvVars(projectId: string, envVars: Record<string, string>) {
+  for (const [key, value] of Object.entries(envVars)) {
+    const sealed = sealEnvValue(key, value)
+    await prisma.projectEnvVar.upsert({
+      where: { projectId_key: { projectId, key } },
+      update: { value: sealed },
+      create: { projectId, key, value: sealed },
+    })
+  }
+}
+
+// Makes the given env vars the project's complete set
+export async function replaceProjectEnvVars(projectId: string, envVars: Record<string, string>) {
+  await prisma.projectEnvVar.deleteMany({
+    where: { projectId },
+  })
+  for (const [key, value] of Object.entries(envVars)) {
+    await prisma.projectEnvVar.create({
+      data: { projectId, key, value: sealEnvValue(key, value) },
+    })
+  }
+}
+
+// Deletes the given env vars, or all of them
+export async function deleteProjectEnvVars(projectId: string, keys?: string[]) {
+  await prisma.projectEnvVar.deleteMany({
+    where: keys ? { projectId, key: { in: keys } } : { projectId },
+  })
+}
+
+// Env vars the console owns (ports, public hostname) and secrets the database holds. Older values
+// of these no longer match the port registry or the running database, so reverts and rollbacks
+// keep the live ones.
+const LIVE_ENV_KEYS = [
+  ...PORT_VARIABLES,
+  'PUBLIC_HOSTNAME',
+  'PUBLIC_URL',
+  ...ENV_CATALOG.filter((spec) => spec.restart === 'rotation').map((spec) => spec.key),
+]
+const API_KEYS = ['ANON_KEY', 'SERVICE_ROLE_KEY']
+
+// Returns `restored` with the live values of those keys, and the keys whose restored value was
+// replaced by the live one
+export function keepLiveEnvVars(current: Record<string, string>, restored: Record<string, string>) {
+  const kept = LIVE_ENV_KEYS.filter((key) => key in current && current[key] !== restored[key])
+  // Keys signed with a JWT secret that stays must stay as well
+  const live = kept.includes('JWT_SECRET') ? [...LIVE_ENV_KEYS, ...API_KEYS] : LIVE_ENV_KEYS
+  if (kept.includes('JWT_SECRET')) {
+    kept.push(...API_KEYS.filter((key) => key in current && current[key] !== restored[key]))
+  }
+
+  const envVars = { ...restored }
+  for (const key of live) {
+    delete envVars[key]
+    if (key in current) envVars[key] = current[key]
+  }
+  return { envVars, kept }
+}
+
+// Deployment snapshots keep the whole env var set and .env file, so both are sealed as one value
+export type SnapshotField = 'envVars' | 'envFile'
+
+export function sealSnapshotField(field: SnapshotField, value: string) {
+  return sealValue(value, `deployment:${field}`)
+}
+
+export function openSnapshotField(field: SnapshotField, stored: string) {
+  return decryptValue(stored, `deployment:${field}`)
+}
+
+// Env var versions keep the complete set as JSON, sealed like a deployment snapshot
+export function sealEnvVersion(envVars: Record<string, string>) {
+  return sealValue(JSON.stringify(envVars), 'env-version')
+}
+
+export function openEnvVersion(stored: string): Record<string, string> {
+  return JSON.parse(decryptValue(stored, 'env-version'))
+}
+
+export type EnvVersionSource =
+  | 'create'
+  | 'save'
+  | 'revert'
+  | 'rotation'
+  | 'services'
+  | 'ports'
+  | 'upgrade'
+  | 'rollback'
+  | 'publish'
+  | 'clone'
+  | 'import'
+
+function sameEnv(a: Record<string, string>, b: Record<string, string>) {
+  const keys = Object.keys(a)
+  return keys.length === Object.keys(b).length && keys.every((key) => b[key] === a[key])
+}
+
+// Records the project's env vars as a new version when they differ from the latest one and
+// flags the project for a redeploy; a successful deploy clears the flag again
+export async function recordEnvVersion(
+  projectId: string,
+  source: EnvVersionSource,
+  options: { userId?: string | null; revertedTo?: number } = {}
+) {
+  const envVars = await getProjectEnvVars(projectId)
+  const latest = await prisma.envVarVersion.findFirst({
+    where: { projectId },
+    orderBy: { number: 'desc' },
+  })
+
+  if (latest) {
+    try {
+      if (sameEnv(openEnvVersion(latest.envVars), envVars)) return null
+    } catch (error) {
+      // A version sealed with a key that is gone cannot be compared; record a new one
+      if (!(error instanceof MasterKeyError)) throw error
+    }
+  }
+
+  const version = await prisma.envVarVersion.create({
+    data: {
+      projectId,
+      number: (latest?.number ?? 0) + 1,
+      source,
+      envVars: sealEnvVersion(envVars),
+      revertedTo: options.revertedTo,
+      userId: options.userId ?? null,
+    },
+  })
+  await prisma.project.update({
+    where: { id: projectId },
+    data: { needsRedeploy: true },
+  })
+  return version
+}
+
+export async function clearNeedsRedeploy(projectId: string) {
+  await prisma.project.update({
+    where: { id: projectId },
+    data: { needsRedeploy: false },
+  })
+}
+
+// Brings a stored value in line with the current key: secrets are sealed with the current
+// version, values that are no longer secret are opened. Returns null when nothing changes.
+function resealed(stored: string, context: string, secret: boolean) {
+  if (!encryptionEnabled()) return null
+  const version = encryptedKeyVersion(stored)
+  if (!secret) {
+    return version === null ? null : decryptValue(stored, context)
+  }
+  if (version === currentKeyVersion()) return null
+  return sealValue(decryptValue(stored, context), context)
+}
+
+// Encrypts plaintext secrets in place and re-encrypts values sealed with an older master key
+// version. Rows are only written if they did not change in the meantime; values no listed key
+// opens are skipped and counted as failed.
+export async function reencryptSecrets() {
+  try {
+    let envVars = 0
+    let deployments = 0
+    let failed = 0
+
+    const rows: { id: string; key: string; value: string }[] = await prisma.projectEnvVar.findMany({
+      select: { id: true, key: true, value: true },
+    })
+    for (const row of rows) {
+      try {
+        const value = resealed(row.value, `env:${row.key}`, isSecretEnvKey(row.key))
+        if (value === null) continue
+        const result = await prisma.projectEnvVar.updateMany({
+          where: { id: row.id, value: row.value },
+          data: { value },
+        })
+        envVars += result.count
+      } catch (error) {
+        if (!(error instanceof MasterKeyError)) throw error
+        console.warn(error.message)
+        failed++
+      }
+    }
+
+    const snapshots: { id: string; envVars: string; envFile: string }[] = await prisma.deployment.findMany({
+      select: { id: true, envVars: true, envFile: true },
+    })
+    for (const snapshot of snapshots) {
+      try {
+        const sealedEnvVars = resealed(snapshot.envVars, 'deployment:envVars', true)
+        const sealedEnvFile = resealed(snapshot.envFile, 'deployment:envFile', true)
+        if (sealedEnvVars === null && sealedEnvFile === null) continue
+        const result = await prisma.deployment.updateMany({
+          where: { id: snapshot.id, envVars: snapshot.envVars, envFile: snapshot.envFile },
+          data: { envVars: sealedEnvVars ?? snapshot.envVars, envFile: sealedEnvFile ?? snapshot.envFile },
+        })
+        deployments += result.count
+      } catch (error) {
+        if (!(error instanceof MasterKeyError)) throw error
+        console.warn(error.message)
+        failed++
+      }
+    }
+
+    let versions = 0
+    const history: { id: string; envVars: string }[] = await prisma.envVarVersion.findMany({
+      select: { id: true, envVars: true },
+    })
+    for (const version of history) {
+      try {
+        const sealed = resealed(version.envVars, 'env-version', true)
+        if (sealed === null) continue
+        const result = await prisma.envVarVersion.updateMany({
+          where: { id: version.id, envVars: version.envVars },
+          data: { envVars: sealed },
+        })
+        versions += result.count
+      } catch (error) {
+        if (!(error instanceof MasterKeyError)) throw error
+        console.warn(error.message)
+        failed++
+      }
+    }
+
+    return { success: true, envVars, deployments, versions, failed }
+  } catch (error) {
+    console.error('Failed to re-encrypt secrets:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+// How many stored secrets are plaintext or sealed with each master key version
+export async function getEncryptionStatus() {
+  const byVersion: Record<string, number> = {}
+  let plaintext = 0
+
+  const count = (stored: string) => {
+    const version = encryptedKeyVersion(stored)
+    if (version === null) {
+      plaintext++
+    } else {
+      byVersion[version] = (byVersion[version] || 0) + 1
+    }
+  }
+
+  const rows: { key: string; value: string }[] = await prisma.projectEnvVar.findMany({
+    select: { key: true, value: true },
+  })
+  for (const row of rows) {
+    if (isSecretEnvKey(row.key) || isEncrypted(row.value)) count(row.value)
+  }
+  const snapshots: { envVars: string; envFile: string }[] = await prisma.deployment.findMany({
+    select: { envVars: true, envFile: true },
+  })
+  for (const snapshot of snapshots) {
+    count(snapshot.envVars)
+    count(snapshot.envFile)
+  }
+  const history: { envVars: string }[] = await prisma.envVarVersion.findMany({
+    select: { envVars: true },
+  })
+  for (const version of history) {
+    count(version.envVars)
+  }
+
+  const current = currentKeyVersion()
+  const stale = Object.entries(byVersion)
+    .filter(([version]) => Number(version) !== current)
+    .reduce((sum, [, n]) => sum + n, 0)
+
+  return { enabled: current !== null, currentVersion: current, plaintext, byVersion, stale }
+}
+
+// Runs the re-encryption once when the server starts
+export function startSecretEncryption() {
+  if (!encryptionEnabled()) {
+    console.warn('CONSOLE_MASTER_KEY is not set; project secrets are stored unencrypted')
+    return
+  }
+
+  reencryptSecrets().then((result) => {
+    if (!result.success) return
+    if (result.envVars || result.deployments || result.versions) {
+      console.log(`Encrypted ${result.envVars} env vars, ${result.deployments} deployment snapshots and ${result.versions} env var versions with master key version ${currentKeyVersion()}`)
+    }
+    if (result.failed) {
+      console.warn(`${result.failed} stored secrets could not be decrypted with CONSOLE_MASTER_KEY`)
+    }
+  })
+}
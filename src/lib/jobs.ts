@@ -0,0 +1,206 @@
+import { EventEmitter } from 'events'
+import { prisma } from './db'
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed'
+
+export type JobEvent =
+  | { type: 'log'; line: string }
+  | { type: 'done'; status: JobStatus; error?: string | null; result?: unknown }
+
+export type JobLogger = (line: string) => void
+
+export type JobTask = (log: JobLogger) => Promise<{ success: boolean; error?: string }>
+
+interface RunningJob {
+  emitter: EventEmitter
+  lines: string[]
+  dirty: boolean
+  flushTimer?: NodeJS.Timeout
+}
+
+// Keep the most recent output only, so a noisy image pull can't grow the row without bound
+const MAX_LOG_LINES = 5000
+const LOG_FLUSH_INTERVAL_MS = 1000
+
+export const JOB_SUMMARY_SELECT = {
+  id: true,
+  projectId: true,
+  type: true,
+  status: true,
+  error: true,
+  result: true,
+  createdAt: true,
+  startedAt: true,
+  finishedAt: true,
+}
+
+// Survive hot reloads in development, same as the Prisma client
+const globalForJobs = globalThis as unknown as {
+  runningJobs: Map<string, RunningJob> | undefined
+}
+
+const runningJobs = globalForJobs.runningJobs ?? new Map<string, RunningJob>()
+globalForJobs.runningJobs = runningJobs
+
+async function flushLog(jobId: string) {
+  const running = runningJobs.get(jobId)
+  if (!running || !running.dirty) return
+  running.dirty = false
+  try {
+    await prisma.job.update({
+      where: { id: jobId },
+      data: { log: running.lines.join('\n') },
+    })
+  } catch (e) {
+    console.warn(`Could not persist log for job ${jobId}:`, e)
+  }
+}
+
+function appendLog(jobId: string, line: string) {
+  const running = runningJobs.get(jobId)
+  if (!running) return
+  running.lines.push(line)
+  if (running.lines.length > MAX_LOG_LINES) {
+    running.lines.splice(0, running.lines.length - MAX_LOG_LINES)
+  }
+  running.dirty = true
+  running.emitter.emit('event', { type: 'log', line })
+}
+
+async function runJob(jobId: string, task: JobTask) {
+  const running = runningJobs.get(jobId)!
+  running.flushTimer = setInterval(() => { void flushLog(jobId) }, LOG_FLUSH_INTERVAL_MS)
+
+  let status: JobStatus = 'failed'
+  let error: string | null = null
+  let result: unknown = undefined
+
+  try {
+    await prisma.job.update({
+      where: { id: jobId },
+      data: { status: 'running', startedAt: new Date() },
+    })
+
+    const outcome = await task((line) => appendLog(jobId, line))
+    if (outcome.success) {
+      status = 'succeeded'
+      result = outcome
+    } else {
+      error = outcome.error || 'Job failed'
+    }
+  } catch (e) {
+    error = e instanceof Error ? e.message : 'Unknown error'
+  }
+
+  if (error) {
+    appendLog(jobId, `ERROR: ${error}`)
+  }
+
+  clearInterval(running.flushTimer)
+  running.dirty = true
+  await flushLog(jobId)
+
+  try {
+    await prisma.job.update({
+      where: { id: jobId },
+      data: {
+        status,
+        error,
+        result: result === undefined ? null : JSON.stringify(result),
+        finishedAt: new Date(),
+      },
+    })
+  } catch (e) {
+    console.error(`Could not record result for job ${jobId}:`, e)
+  }
+
+  running.emitter.emit('event', { type: 'done', status, error, result })
+  runningJobs.delete(jobId)
+}
+
+// Creates the job record and runs the task in the background. Returns as soon as the job is queued.
+export async function startJob(projectId: string, type: string, task: JobTask) {
+  const job = await prisma.job.create({
+    data: { projectId, type },
+    select: JOB_SUMMARY_SELECT,
+  })
+
+  runningJobs.set(job.id, {
+    emitter: new EventEmitter(),
+    lines: [],
+    dirty: false,
+  })
+
+  void runJob(job.id, task)
+
+  return job
+}
+
+// Jobs left queued/running by a previous server process can never finish; mark them as failed.
+async function settleOrphanedJob<T extends { id: string; status: string }>(job: T): Promise<T> {
+  if ((job.status === 'queued' || job.status === 'running') && !runningJobs.has(job.id)) {
+    const error = 'Interrupted: the console restarted while this job was running'
+    await prisma.job.update({
+      where: { id: job.id },
+      data: { status: 'failed', error, finishedAt: new Date() },
+    })
+    return { ...job, status: 'failed', error }
+  }
+  return job
+}
+
+export async function getJob(jobId: string) {
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+  })
+  if (!job) return null
+  return settleOrphanedJob(job)
+}
+
+export async function getLatestJob(projectId: string, type: string) {
+  const job = await prisma.job.findFirst({
+    where: { projectId, type },
+    orderBy: { createdAt: 'desc' },
+    select: JOB_SUMMARY_SELECT,
+  })
+  if (!job) return null
+  return settleOrphanedJob(job)
+}
+
+export async function getActiveJob(projectId: string, type: string) {
+  const job = await getLatestJob(projectId, type)
+  if (job && (job.status === 'queued' || job.status === 'running')) {
+    return job
+  }
+  return null
+}
+
+// Replays the output so far and then follows live output until the job completes.
+// Returns an unsubscribe function.
+export async function subscribeToJob(jobId: string, listener: (event: JobEvent) => void): Promise<() => void> {
+  const running = runningJobs.get(jobId)
+
+  if (!running) {
+    const job = await getJob(jobId)
+    if (job) {
+      for (const line of job.log ? job.log.split('\n') : []) {
+        listener({ type: 'log', line })
+      }
+      listener({
+        type: 'done',
+        status: job.status as JobStatus,
+        error: job.error,
+        result: job.result ? JSON.parse(job.result) : undefined,
+      })
+    }
+    return () => {}
+  }
+
+  for (const line of running.lines) {
+    listener({ type: 'log', line })
+  }
+  running.emitter.on('event', listener)
+  return () => {
+    running.emitter.off('event', listener)
+  }
+}
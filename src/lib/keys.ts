@@ -0,0 +1,134 @@
+import { createHmac, randomInt, timingSafeEqual } from 'crypto'
+
+const ALPHANUMERIC = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
+
+// Lifetime of generated API keys, as in Supabase's self-hosting guide
+const API_KEY_LIFETIME_SECONDS = 5 * 365 * 24 * 60 * 60
+
+export type ApiKeyRole = 'anon' | 'service_role'
+
+// Alphanumeric secret from the CSPRNG; safe in .env files, URLs and connection strings
+export function randomSecret(length: number): string {
+  let result = ''
+  for (let i = 0; i < length; i++) {
+    result += ALPHANUMERIC[randomInt(ALPHANUMERIC.length)]
+  }
+  return result
+}
+
+function base64url(value: string | Buffer) {
+  return Buffer.from(value).toString('base64url')
+}
+
+function hmacSha256(data: string, secret: string) {
+  return createHmac('sha256', secret).update(data).digest()
+}
+
+export function signJwt(payload: Record<string, unknown>, secret: string): string {
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }))
+  const body = base64url(JSON.stringify(payload))
+  return `${header}.${body}.${base64url(hmacSha256(`${header}.${body}`, secret))}`
+}
+
+export type JwtVerification =
+  | { valid: true; payload: Record<string, unknown> }
+  | { valid: false; error: string; payload?: Record<string, unknown> }
+
+// Checks an HS256 token against the secret and its exp claim
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function verifyJwt(token: string, secret: string, now = Date.now()): JwtVerification {
+  const parts = token.split('.')
+  if (parts.length !== 3) {
+    return { valid: false, error: 'Not a JWT' }
+  }
+  const [header, body, signature] = parts
+
+  let decodedHeader: unknown
+  let decodedPayload: unknown
+  try {
+    decodedHeader = JSON.parse(Buffer.from(header, 'base64url').toString('utf8'))
+    decodedPayload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'))
+  } catch {
+    return { valid: false, error: 'The token header or payload is not valid JSON' }
+  }
+  // Valid JSON is not necessarily an object, e.g. a payload of null
+  if (!isJsonObject(decodedHeader) || !isJsonObject(decodedPayload)) {
+    return { valid: false, error: 'The token header or payload is not a JSON object' }
+  }
+  if (decodedHeader.alg !== 'HS256') {
+    return { valid: false, error: `Unsupported algorithm ${decodedHeader.alg}` }
+  }
+  const payload = decodedPayload
+
+  const expected = hmacSha256(`${header}.${body}`, secret)
+  const actual = Buffer.from(signature, 'base64url')
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { valid: false, error: 'The signature does not match JWT_SECRET', payload }
+  }
+
+  if (typeof payload.exp === 'number' && payload.exp * 1000 <= now) {
+    return { valid: false, error: `Expired on ${new Date(payload.exp * 1000).toISOString()}`, payload }
+  }
+
+  return { valid: true, payload }
+}
+
+// ANON_KEY / SERVICE_ROLE_KEY: long-lived tokens Kong, PostgREST and GoTrue verify with JWT_SECRET
+export function generateApiKey(role: ApiKeyRole, jwtSecret: string, timestamp = Date.now()): string {
+  const iat = Math.floor(timestamp / 1000)
+  return signJwt({ role, iss: 'supabase', iat, exp: iat + API_KEY_LIFETIME_SECONDS }, jwtSecret)
+}
+
+// Every generated secret of a project's .env; the API keys are signed with the new JWT_SECRET
+export function generateProjectSecrets(timestamp = Date.now()) {
+  const jwtSecret = randomSecret(64)
+  return {
+    POSTGRES_PASSWORD: randomSecret(32),
+    JWT_SECRET: jwtSecret,
+    ANON_KEY: generateApiKey('anon', jwtSecret, timestamp),
+    SERVICE_ROLE_KEY: generateApiKey('service_role', jwtSecret, timestamp),
+    DASHBOARD_PASSWORD: randomSecret(16),
+    SECRET_KEY_BASE: randomSecret(64),
+    VAULT_ENC_KEY: randomSecret(32),
+    LOGFLARE_PUBLIC_ACCESS_TOKEN: randomSecret(64),
+    LOGFLARE_PRIVATE_ACCESS_TOKEN: randomSecret(64),
+  }
+}
+
+export interface ApiKeyCheck {
+  key: 'ANON_KEY' | 'SERVICE_ROLE_KEY'
+  role: ApiKeyRole
+  valid: boolean
+  error: string | null
+  expiresAt: string | null
+}
+
+// Verifies a project's stored API keys against its JWT_SECRET, including the role claim
+export function checkApiKeys(envVars: Record<string, string | undefined>): ApiKeyCheck[] {
+  const checks: { key: ApiKeyCheck['key']; role: ApiKeyRole }[] = [
+    { key: 'ANON_KEY', role: 'anon' },
+    { key: 'SERVICE_ROLE_KEY', role: 'service_role' },
+  ]
+
+  return checks.map(({ key, role }) => {
+    const token = envVars[key]
+    const secret = envVars.JWT_SECRET
+    if (!token || !secret) {
+      return { key, role, valid: false, error: `${token ? 'JWT_SECRET' : key} is not set`, expiresAt: null }
+    }
+
+    const result = verifyJwt(token, secret)
+    const exp = result.payload?.exp
+    const expiresAt = typeof exp === 'number' ? new Date(exp * 1000).toISOString() : null
+    if (!result.valid) {
+      return { key, role, valid: false, error: result.error, expiresAt }
+    }
+    if (result.payload.role !== role) {
+      return { key, role, valid: false, error: `The role claim is '${result.payload.role}', expected '${role}'`, expiresAt }
+    }
+    return { key, role, valid: true, error: null, expiresAt }
+  })
+}
@@ -0,0 +1,116 @@
+import { prisma } from './db'
+
+// Lifecycle states stored in Project.status
+export const PROJECT_STATES = [
+  'provisioning',
+  'starting',
+  'active',
+  'stopping',
+  'paused',
+  'failed',
+  'trashed',
+  'deleting',
+] as const
+
+export type ProjectState = typeof PROJECT_STATES[number]
+
+export type ProjectAction = 'start' | 'stop' | 'restart'
+
+// Allowed transitions: current state -> next states
+const TRANSITIONS: Record<ProjectState, ProjectState[]> = {
+  provisioning: ['starting', 'failed', 'trashed', 'deleting'],
+  starting: ['active', 'failed', 'deleting'],
+  active: ['starting', 'stopping', 'failed', 'trashed', 'deleting'],
+  stopping: ['paused', 'failed', 'deleting'],
+  paused: ['starting', 'trashed', 'deleting'],
+  failed: ['starting', 'stopping', 'trashed', 'deleting'],
+  // Restored projects come back stopped; provisioning when they were never deployed
+  trashed: ['provisioning', 'paused', 'deleting'],
+  deleting: ['failed'],
+}
+
+// States from which each user action may be triggered
+const ACTIONS: Record<ProjectAction, ProjectState[]> = {
+  start: ['paused', 'failed'],
+  stop: ['active', 'failed'],
+  restart: ['active', 'failed'],
+}
+
+export class InvalidTransitionError extends Error {
+  constructor(public from: string, public to: string) {
+    super(`Cannot move project from '${from}' to '${to}'`)
+    this.name = 'InvalidTransitionError'
+  }
+}
+
+// Maps statuses written before the state machine existed onto current states
+export function normalizeState(status: string): ProjectState {
+  if (status === 'stopped') return 'paused'
+  return (PROJECT_STATES as readonly string[]).includes(status) ? status as ProjectState : 'failed'
+}
+
+export function canTransition(from: string, to: ProjectState): boolean {
+  return TRANSITIONS[normalizeState(from)].includes(to)
+}
+
+export function canPerform(status: string, action: ProjectAction): boolean {
+  return ACTIONS[action].includes(normalizeState(status))
+}
+
+export function availableActions(status: string): ProjectAction[] {
+  return (Object.keys(ACTIONS) as ProjectAction[]).filter((action) => canPerform(status, action))
+}
+
+export function assertCanPerform(status: string, action: ProjectAction) {
+  if (!canPerform(status, action)) {
+    throw new InvalidTransitionError(status, action)
+  }
+}
+
+// Moves a project to the next state. The update is conditional on the status we read,
+// so two concurrent requests cannot both claim the same transition. Every transition is
+// recorded in the project's status history, with an optional reason. With `expectedFrom` the
+// transition only happens from that state, for callers acting on a status they read earlier.
+export async function transitionProject(projectId: string, to: ProjectState, reason?: string, expectedFrom?: ProjectState) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+  })
+
+  if (!project) {
+    throw new Error('Project not found')
+  }
+
+  if ((expectedFrom && project.status !== expectedFrom) || !canTransition(project.status, to)) {
+    throw new InvalidTransitionError(project.status, to)
+  }
+
+  const result = await prisma.project.updateMany({
+    where: { id: projectId, status: project.status },
+    data: { status: to },
+  })
+
+  if (result.count === 0) {
+    throw new InvalidTransitionError(project.status, to)
+  }
+
+  await recordStatusEvent(projectId, 'lifecycle', project.status, to, reason)
+
+  return { ...project, status: to }
+}
+
+export async function recordStatusEvent(
+  projectId: string,
+  kind: 'lifecycle' | 'runtime',
+  from: string | null,
+  to: string,
+  reason?: string
+) {
+  try {
+    await prisma.projectStatusEvent.create({
+      data: { projectId, kind, fromStatus: from, toStatus: to, reason: reason?.slice(0, 2000) },
+    })
+  } catch (e) {
+    // History is informational; never fail a transition because of it
+    console.warn('Could not record status event:', e)
+  }
+}
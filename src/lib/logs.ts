@@ -0,0 +1,100 @@
+import { prisma } from './db'
+import { findService } from './supabase-services'
+import { getContainerRuntime, composeProject } from './runtime'
+
+export interface LogOptions {
+  service?: string // service key from SUPABASE_SERVICES; all services when omitted
+  since?: string // relative duration (e.g. 10m, 2h) or RFC 3339 timestamp
+  tail?: number // number of lines per container; all lines when omitted
+  follow?: boolean
+}
+
+const DURATION_PATTERN = /^\d+(s|m|h)$/
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2})?(\.\d+)?(Z|[+-]\d{2}:\d{2})?)?$/
+
+export const DEFAULT_LOG_TAIL = 500
+
+// Validates raw query parameters; returns an error message for the first invalid one
+export function parseLogOptions(params: URLSearchParams): { options?: LogOptions; error?: string } {
+  const service = params.get('service') || undefined
+  if (service && !findService(service)) {
+    return { error: `Unknown service: ${service}` }
+  }
+
+  const since = params.get('since') || undefined
+  if (since && !DURATION_PATTERN.test(since) && !TIMESTAMP_PATTERN.test(since)) {
+    return { error: 'Invalid "since": use a duration like 15m or 2h, or an RFC 3339 timestamp' }
+  }
+
+  const tailParam = params.get('tail')
+  let tail: number | undefined = DEFAULT_LOG_TAIL
+  if (tailParam === 'all') {
+    tail = undefined
+  } else if (tailParam) {
+    tail = parseInt(tailParam, 10)
+    if (isNaN(tail) || tail < 0) {
+      return { error: 'Invalid "tail": use a non-negative number or "all"' }
+    }
+  }
+
+  return {
+    options: {
+      service,
+      since,
+      tail,
+      follow: params.get('follow') === '1' || params.get('follow') === 'true',
+    },
+  }
+}
+
+async function findProject(projectId: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+  })
+
+  if (!project) {
+    throw new Error('Project not found')
+  }
+
+  return project
+}
+
+// Streams the compose logs of the project line by line.
+// Resolves when the command exits or the signal aborts it.
+export async function streamProjectLogs(
+  projectId: string,
+  options: LogOptions,
+  onLine: (line: string) => void,
+  signal?: AbortSignal
+) {
+  const project = await findProject(projectId)
+
+  await getContainerRuntime().logs(
+    composeProject(project.slug),
+    {
+      services: options.service ? [findService(options.service)!.composeService] : undefined,
+      since: options.since,
+      tail: options.tail,
+      follow: options.follow,
+      signal,
+    },
+    onLine
+  )
+}
+
+export async function getProjectLogs(projectId: string, options: LogOptions) {
+  try {
+    const lines: string[] = []
+    await streamProjectLogs(projectId, { ...options, follow: false }, (line) => lines.push(line))
+    return { success: true, lines }
+  } catch (error) {
+    console.error('Failed to get project logs:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+export async function getLogDownloadName(projectId: string, service?: string) {
+  const project = await findProject(projectId)
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+  return `${project.slug}-${service || 'all'}-${stamp}.log`
+}
@@ -0,0 +1,221 @@
+import { prisma } from './db'
+import { SUPABASE_SERVICES } from './supabase-services'
+import { getContainerRuntime } from './runtime'
+
+const DEFAULT_INTERVAL_MS = 60 * 1000
+const DOWNSAMPLE_INTERVAL_MS = 60 * 60 * 1000
+const HOUR_MS = 60 * 60 * 1000
+// Raw samples are kept for a day, then folded into hourly averages kept for 30 days
+const RAW_RETENTION_MS = 24 * HOUR_MS
+const HOURLY_RETENTION_MS = 30 * 24 * HOUR_MS
+
+export const METRIC_RANGES: Record<string, number> = {
+  '1h': HOUR_MS,
+  '6h': 6 * HOUR_MS,
+  '24h': 24 * HOUR_MS,
+  '7d': 7 * 24 * HOUR_MS,
+  '30d': 30 * 24 * HOUR_MS,
+}
+
+interface SampleValues {
+  cpuPercent: number
+  memoryBytes: number
+  memoryLimitBytes: number
+  netRxBytes: number
+  netTxBytes: number
+  blockReadBytes: number
+  blockWriteBytes: number
+}
+
+export interface MetricPoint {
+  t: string
+  cpuPercent: number
+  memoryBytes: number
+  memoryLimitBytes: number
+  netRxRate: number // bytes per second
+  netTxRate: number
+  blockReadRate: number
+  blockWriteRate: number
+}
+
+// Samples the runtime's container stats once and stores a row per project container.
+// Containers are matched to projects through the ${slug}-* names set in createProject.
+export async function collectMetricSamples() {
+  const projects = await prisma.project.findMany({
+    select: { id: true, slug: true },
+  })
+  if (projects.length === 0) return 0
+
+  const containers = new Map<string, { projectId: string; service: string }>()
+  for (const project of projects) {
+    for (const service of SUPABASE_SERVICES) {
+      containers.set(service.containerName(project.slug), { projectId: project.id, service: service.key })
+    }
+  }
+
+  const stats = await getContainerRuntime().stats()
+
+  const sampledAt = new Date()
+  const rows = []
+  for (const { name, ...values } of stats) {
+    const owner = containers.get(name)
+    if (!owner) continue
+    rows.push({ ...owner, sampledAt, resolution: 'raw', ...values })
+  }
+
+  if (rows.length > 0) {
+    await prisma.metricSample.createMany({ data: rows })
+  }
+  return rows.length
+}
+
+// Folds raw samples older than the raw retention window into hourly averages and
+// drops hourly rows past their own retention.
+export async function downsampleMetrics() {
+  const rawCutoff = new Date(Math.floor((Date.now() - RAW_RETENTION_MS) / HOUR_MS) * HOUR_MS)
+  const old = await prisma.metricSample.findMany({
+    where: { resolution: 'raw', sampledAt: { lt: rawCutoff } },
+  })
+
+  const buckets = new Map<string, { projectId: string; service: string; sampledAt: Date; samples: SampleValues[] }>()
+  for (const sample of old) {
+    const hour = Math.floor(new Date(sample.sampledAt).getTime() / HOUR_MS) * HOUR_MS
+    const key = `${sample.projectId}:${sample.service}:${hour}`
+    if (!buckets.has(key)) {
+      buckets.set(key, { projectId: sample.projectId, service: sample.service, sampledAt: new Date(hour), samples: [] })
+    }
+    buckets.get(key)!.samples.push(sample)
+  }
+
+  const rows = [...buckets.values()].map(({ projectId, service, sampledAt, samples }) => {
+    const avg = (pick: (s: SampleValues) => number) => samples.reduce((sum, s) => sum + pick(s), 0) / samples.length
+    const max = (pick: (s: SampleValues) => number) => Math.max(...samples.map(pick))
+    return {
+      projectId,
+      service,
+      sampledAt,
+      resolution: 'hour',
+      cpuPercent: avg((s) => s.cpuPercent),
+      memoryBytes: avg((s) => s.memoryBytes),
+      memoryLimitBytes: max((s) => s.memoryLimitBytes),
+      // I/O counters are cumulative, so the bucket keeps the highest reading
+      netRxBytes: max((s) => s.netRxBytes),
+      netTxBytes: max((s) => s.netTxBytes),
+      blockReadBytes: max((s) => s.blockReadBytes),
+      blockWriteBytes: max((s) => s.blockWriteBytes),
+    }
+  })
+
+  if (rows.length > 0) {
+    await prisma.metricSample.createMany({ data: rows })
+  }
+  await prisma.metricSample.deleteMany({
+    where: { resolution: 'raw', sampledAt: { lt: rawCutoff } },
+  })
+  await prisma.metricSample.deleteMany({
+    where: { resolution: 'hour', sampledAt: { lt: new Date(Date.now() - HOURLY_RETENTION_MS) } },
+  })
+}
+
+// Converts cumulative I/O counters into per-second rates between consecutive points.
+// A drop in a counter means the container restarted, so that interval counts as zero.
+function toPoints(samples: Array<SampleValues & { sampledAt: Date }>): MetricPoint[] {
+  return samples.map((sample, i) => {
+    const prev = samples[i - 1]
+    const seconds = prev ? (new Date(sample.sampledAt).getTime() - new Date(prev.sampledAt).getTime()) / 1000 : 0
+    const rate = (pick: (s: SampleValues) => number) =>
+      prev && seconds > 0 ? Math.max(0, (pick(sample) - pick(prev)) / seconds) : 0
+    return {
+      t: new Date(sample.sampledAt).toISOString(),
+      cpuPercent: sample.cpuPercent,
+      memoryBytes: sample.memoryBytes,
+      memoryLimitBytes: sample.memoryLimitBytes,
+      netRxRate: rate((s) => s.netRxBytes),
+      netTxRate: rate((s) => s.netTxBytes),
+      blockReadRate: rate((s) => s.blockReadBytes),
+      blockWriteRate: rate((s) => s.blockWriteBytes),
+    }
+  })
+}
+
+export async function getProjectMetrics(projectId: string, range: string) {
+  try {
+    const windowMs = METRIC_RANGES[range]
+    if (!windowMs) {
+      throw new Error(`Unknown range: ${range}`)
+    }
+
+    const since = new Date(Date.now() - windowMs)
+    const resolution = windowMs <= RAW_RETENTION_MS ? 'raw' : 'hour'
+    const where = resolution === 'raw'
+      ? { projectId, resolution, sampledAt: { gte: since } }
+      // Hourly rows only exist for data older than a day, so recent raw rows fill the gap
+      : { projectId, sampledAt: { gte: since } }
+
+    const samples = await prisma.metricSample.findMany({
+      where,
+      orderBy: { sampledAt: 'asc' },
+    })
+
+    const byService = new Map<string, Array<SampleValues & { sampledAt: Date }>>()
+    for (const sample of samples) {
+      if (!byService.has(sample.service)) byService.set(sample.service, [])
+      byService.get(sample.service)!.push(sample)
+    }
+
+    const services: Record<string, MetricPoint[]> = {}
+    for (const [service, serviceSamples] of byService) {
+      services[service] = toPoints(serviceSamples)
+    }
+
+    // Project totals: sum the services for each collection tick
+    const totals = new Map<string, MetricPoint>()
+    for (const points of Object.values(services)) {
+      for (const point of points) {
+        const total = totals.get(point.t)
+        if (!total) {
+          totals.set(point.t, { ...point })
+          continue
+        }
+        total.cpuPercent += point.cpuPercent
+        total.memoryBytes += point.memoryBytes
+        total.memoryLimitBytes = Math.max(total.memoryLimitBytes, point.memoryLimitBytes)
+        total.netRxRate += point.netRxRate
+        total.netTxRate += point.netTxRate
+        total.blockReadRate += point.blockReadRate
+        total.blockWriteRate += point.blockWriteRate
+      }
+    }
+
+    return {
+      success: true,
+      resolution,
+      project: [...totals.values()].sort((a, b) => a.t.localeCompare(b.t)),
+      services,
+    }
+  } catch (error) {
+    console.error('Failed to get project metrics:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+const globalForMetrics = globalThis as unknown as {
+  metricsCollector: { sample: NodeJS.Timeout; downsample: NodeJS.Timeout } | undefined
+}
+
+// Starts the periodic sampler once per server process. Disabled with METRICS_ENABLED=false.
+export function startMetricsCollector() {
+  if (globalForMetrics.metricsCollector || process.env.METRICS_ENABLED === 'false') return
+
+  const interval = parseInt(process.env.METRICS_INTERVAL_MS || '', 10) || DEFAULT_INTERVAL_MS
+
+  const sample = setInterval(() => {
+    collectMetricSamples().catch((e) => console.warn('Metrics collection failed:', e instanceof Error ? e.message : e))
+  }, interval)
+  const downsample = setInterval(() => {
+    downsampleMetrics().catch((e) => console.warn('Metrics downsampling failed:', e))
+  }, DOWNSAMPLE_INTERVAL_MS)
+
+  globalForMetrics.metricsCollector = { sample, downsample }
+  console.log(`Metrics collector started (every ${Math.round(interval / 1000)}s)`)
+}
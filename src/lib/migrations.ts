@@ -0,0 +1,277 @@
+import { createHash } from 'crypto'
+import { prisma } from './db'
+import { startJob, getActiveJob, getLatestJob, type JobLogger } from './jobs'
+import { runSql, isDatabaseReady } from './pg'
+
+// Migration files are named <version>_<name>.sql, e.g. 20240101120000_create_todos.sql, and are
+// applied in numeric version order. Each one runs in its own transaction in the project's db container.
+const FILENAME_PATTERN = /^(\d{1,20})[_-]([A-Za-z0-9][A-Za-z0-9_.-]*?)(\.sql)?$/
+const MAX_SQL_LENGTH = 5 * 1024 * 1024
+
+export interface MigrationFile {
+  filename: string
+  sql: string
+}
+
+export class MigrationChecksumError extends Error {
+  constructor(version: string) {
+    super(`Migration ${version} was already applied with different contents; add a new migration instead of editing it`)
+    this.name = 'MigrationChecksumError'
+  }
+}
+
+interface MigrationRow {
+  id: string
+  version: string
+  name: string
+  sql: string
+  checksum: string
+  status: string
+}
+
+// Line endings are normalized so the same file checked out on another OS keeps its checksum
+function normalizeSql(sql: string) {
+  return sql.replace(/\r\n/g, '\n')
+}
+
+export function migrationChecksum(sql: string) {
+  return createHash('sha256').update(normalizeSql(sql)).digest('hex')
+}
+
+export function parseMigrationFilename(filename: string) {
+  const match = FILENAME_PATTERN.exec(filename.trim())
+  if (!match) return null
+  return { version: match[1], name: match[2] }
+}
+
+function compareVersions(a: string, b: string) {
+  const diff = BigInt(a) - BigInt(b)
+  return diff < BigInt(0) ? -1 : diff > BigInt(0) ? 1 : 0
+}
+
+function sortByVersion<T extends { version: string }>(migrations: T[]) {
+  return [...migrations].sort((a, b) => compareVersions(a.version, b.version))
+}
+
+const MIGRATION_SUMMARY_SELECT = {
+  id: true,
+  version: true,
+  name: true,
+  checksum: true,
+  status: true,
+  error: true,
+  createdAt: true,
+  appliedAt: true,
+}
+
+export async function listMigrations(projectId: string) {
+  try {
+    const migrations: { version: string }[] = await prisma.projectMigration.findMany({
+      where: { projectId },
+      select: MIGRATION_SUMMARY_SELECT,
+    })
+    return {
+      success: true,
+      migrations: sortByVersion(migrations),
+      job: await getLatestJob(projectId, 'migrate'),
+    }
+  } catch (error) {
+    console.error('Failed to list migrations:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+// Adds new migrations and replaces the contents of ones not applied yet. Uploading an applied
+// migration again is a no-op when unchanged and refused when its checksum differs.
+export async function addMigrations(projectId: string, files: MigrationFile[]) {
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+    if (files.length === 0) {
+      throw new Error('No migration files given')
+    }
+
+    const existing: MigrationRow[] = await prisma.projectMigration.findMany({
+      where: { projectId },
+    })
+    const byVersion = new Map(existing.map((row) => [row.version, row]))
+    const seen = new Set<string>()
+
+    // Validate everything before writing anything
+    const parsed = files.map((file) => {
+      const parts = parseMigrationFilename(file.filename)
+      if (!parts) {
+        throw new Error(`${file.filename}: file names must look like <version>_<name>.sql, e.g. 20240101120000_create_todos.sql`)
+      }
+      if (seen.has(parts.version)) {
+        throw new Error(`Version ${parts.version} appears more than once`)
+      }
+      seen.add(parts.version)
+      const sql = normalizeSql(file.sql)
+      if (!sql.trim()) {
+        throw new Error(`${file.filename} is empty`)
+      }
+      if (sql.length > MAX_SQL_LENGTH) {
+        throw new Error(`${file.filename} is larger than ${MAX_SQL_LENGTH / 1024 / 1024} MiB`)
+      }
+      const current = byVersion.get(parts.version)
+      const checksum = migrationChecksum(sql)
+      if (current?.status === 'applied' && current.checksum !== checksum) {
+        throw new MigrationChecksumError(parts.version)
+      }
+      return { ...parts, sql, checksum, current }
+    })
+
+    let added = 0
+    let updated = 0
+    let unchanged = 0
+    for (const migration of parsed) {
+      if (!migration.current) {
+        await prisma.projectMigration.create({
+          data: {
+            projectId,
+            version: migration.version,
+            name: migration.name,
+            sql: migration.sql,
+            checksum: migration.checksum,
+          },
+        })
+        added++
+      } else if (migration.current.checksum !== migration.checksum || migration.current.name !== migration.name) {
+        await prisma.projectMigration.update({
+          where: { id: migration.current.id },
+          data: {
+            name: migration.name,
+            sql: migration.sql,
+            checksum: migration.checksum,
+            status: 'pending',
+            error: null,
+          },
+        })
+        updated++
+      } else {
+        unchanged++
+      }
+    }
+
+    return { success: true, added, updated, unchanged }
+  } catch (error) {
+    console.error('Failed to add migrations:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof MigrationChecksumError ? 'checksum_mismatch' : undefined,
+    }
+  }
+}
+
+export async function deleteMigration(projectId: string, migrationId: string) {
+  try {
+    const migration = await prisma.projectMigration.findFirst({
+      where: { id: migrationId, projectId },
+    })
+
+    if (!migration) {
+      throw new Error('Migration not found')
+    }
+    if (migration.status === 'applied') {
+      throw new Error('Applied migrations cannot be deleted')
+    }
+
+    await prisma.projectMigration.delete({
+      where: { id: migrationId },
+    })
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to delete migration:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+// Migrations not applied yet, in order. Refuses versions older than the newest applied one, since
+// running them now would not reproduce the order other environments used.
+async function pendingMigrations(projectId: string) {
+  const rows: MigrationRow[] = await prisma.projectMigration.findMany({
+    where: { projectId },
+  })
+  const sorted = sortByVersion(rows)
+  const applied = sorted.filter((row) => row.status === 'applied')
+  const pending = sorted.filter((row) => row.status !== 'applied')
+  const latest = applied[applied.length - 1]
+
+  const outOfOrder = latest ? pending.filter((row) => compareVersions(row.version, latest.version) < 0) : []
+  if (outOfOrder.length > 0) {
+    throw new Error(`Migration(s) ${outOfOrder.map((row) => row.version).join(', ')} are older than the applied ${latest.version}; rename them with a newer version`)
+  }
+  return pending
+}
+
+async function applyMigrations(projectId: string, slug: string, log: JobLogger) {
+  const pending = await pendingMigrations(projectId)
+  log(`${pending.length} pending migration(s)`)
+
+  for (const migration of pending) {
+    // The stored checksum is what the user reviewed; never run contents that no longer match it
+    if (migrationChecksum(migration.sql) !== migration.checksum) {
+      throw new MigrationChecksumError(migration.version)
+    }
+
+    log(`Applying ${migration.version}_${migration.name}...`)
+    try {
+      await runSql(slug, migration.sql)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error'
+      await prisma.projectMigration.update({
+        where: { id: migration.id },
+        data: { status: 'failed', error: message.slice(0, 2000) },
+      })
+      log(message)
+      throw new Error(`Migration ${migration.version} failed and was rolled back; later migrations were not applied`)
+    }
+
+    await prisma.projectMigration.update({
+      where: { id: migration.id },
+      data: { status: 'applied', error: null, appliedAt: new Date() },
+    })
+  }
+
+  log('All migrations applied')
+  return { success: true, applied: pending.length }
+}
+
+// Applies pending migrations as a background job; if one is already running, returns that job
+export async function queueApplyMigrations(projectId: string) {
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+
+    const active = await getActiveJob(projectId, 'migrate')
+    if (active) {
+      return { success: true, job: active, alreadyRunning: true }
+    }
+
+    if (project.status !== 'active' || !(await isDatabaseReady(project.slug).catch(() => false))) {
+      throw new Error('The project database is not running; deploy or start the project first')
+    }
+    if ((await pendingMigrations(projectId)).length === 0) {
+      throw new Error('No pending migrations')
+    }
+
+    const job = await startJob(projectId, 'migrate', (log) => applyMigrations(projectId, project.slug, log))
+    return { success: true, job, alreadyRunning: false }
+  } catch (error) {
+    console.error('Failed to queue migrations:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
@@ -0,0 +1,220 @@
+import { createReadStream, createWriteStream } from 'fs'
+import { getContainerRuntime, composeProject } from './runtime'
+
+// Postgres access through the project's db container, so no client tools are needed on the host.
+// Commands run as supabase_admin (the superuser of the Supabase image), whose password is the
+// container's POSTGRES_PASSWORD.
+
+const DB_SERVICE = 'db'
+const DEFAULT_TIMEOUT_MS = 30 * 60 * 1000
+
+const IDENTIFIER = /^[a-z_][a-z0-9_]*(\.[a-z_][a-z0-9_]*)?$/
+
+// Schemas the Supabase image creates. Every other schema that no extension owns holds user data
+// and is dumped whole; of these, only the data of MANAGED_DATA_SCHEMAS is, and migration
+// bookkeeping is left alone so the target keeps its own.
+const SUPABASE_SCHEMAS = [
+  'auth',
+  'storage',
+  'extensions',
+  'graphql',
+  'graphql_public',
+  'realtime',
+  '_realtime',
+  '_analytics',
+  '_supavisor',
+  'supabase_functions',
+  'supabase_migrations',
+  'net',
+  'pgsodium',
+  'pgsodium_masks',
+  'vault',
+  'pgbouncer',
+  'cron',
+  'information_schema',
+]
+export const MANAGED_DATA_SCHEMAS = ['auth', 'storage']
+const EXCLUDED_TABLE_DATA = ['auth.schema_migrations', 'storage.migrations']
+
+export interface DumpOptions {
+  schemas?: string[] // dumped with schema and data, replacing existing objects on restore; default: listUserSchemas
+  dataSchemas?: string[] // dumped as data only, for schemas whose tables already exist on the target
+  timeout?: number
+}
+
+function quote(arg: string) {
+  return `'${arg.replace(/'/g, `'\\''`)}'`
+}
+
+function identifiers(names: string[]) {
+  for (const name of names) {
+    if (!IDENTIFIER.test(name)) {
+      throw new Error(`Invalid schema or table name: ${name}`)
+    }
+  }
+  return names
+}
+
+// Wraps a client command so it authenticates with the container's own password
+function asAdmin(command: string[]) {
+  return ['sh', '-c', `PGPASSWORD="$POSTGRES_PASSWORD" exec ${command.map(quote).join(' ')}`]
+}
+
+function connectionTo(database: string) {
+  return ['-h', '127.0.0.1', '-U', 'supabase_admin', '-d', identifiers([database])[0]]
+}
+
+const connection = connectionTo('postgres')
+
+function sqlList(names: string[]) {
+  return names.map((name) => `'${name.replace(/'/g, "''")}'`).join(', ')
+}
+
+// A pg_dump -n pattern matching exactly this name, whatever characters it contains
+function exactPattern(name: string) {
+  return `"${name.replace(/"/g, '""')}"`
+}
+
+// Every schema of the project database that holds user data: not Postgres' own, not one the
+// Supabase image creates and not one an extension owns. Found by exclusion, so schemas added
+// by hand or by migrations are included.
+export async function listUserSchemas(slug: string) {
+  const query = `SELECT n.nspname FROM pg_namespace n
+  WHERE n.nspname NOT LIKE 'pg\\_%' AND n.nspname NOT IN (${sqlList(SUPABASE_SCHEMAS)})
+  AND NOT EXISTS (
+    SELECT 1 FROM pg_depend d
+    WHERE d.classid = 'pg_namespace'::regclass AND d.objid = n.oid AND d.deptype = 'e'
+  )
+  ORDER BY 1`
+  const result = await getContainerRuntime().exec(composeProject(slug), DB_SERVICE, asAdmin(['psql', ...connection, '-At', '-c', query]), { timeout: 60000 })
+  if (result.exitCode !== 0) {
+    throw new Error(`Listing schemas failed: ${result.stderr.trim() || `exit code ${result.exitCode}`}`)
+  }
+  return result.stdout.split('\n').filter((line) => line.length > 0)
+}
+
+// Triggers on tables of the data schemas that call functions of the dumped schemas, e.g. a
+// trigger on auth.users that fills public.profiles. Neither dump contains them.
+function crossSchemaTriggers(dataSchemas: string[], schemas: string[]) {
+  return `SELECT tg.tgname, tn.nspname, tc.relname, pg_get_triggerdef(tg.oid)
+  FROM pg_trigger tg
+  JOIN pg_class tc ON tc.oid = tg.tgrelid
+  JOIN pg_namespace tn ON tn.oid = tc.relnamespace
+  JOIN pg_proc p ON p.oid = tg.tgfoid
+  JOIN pg_namespace pn ON pn.oid = p.pronamespace
+  WHERE NOT tg.tgisinternal AND tn.nspname IN (${sqlList(dataSchemas)}) AND pn.nspname IN (${sqlList(schemas)})`
+}
+
+// Makes the dump restorable over an existing database: drops the cross-schema triggers (they
+// would block dropping their functions) and empties the tables the data-only part refills
+function restorePrelude(dataSchemas: string[], schemas: string[]) {
+  return `DO $$
+DECLARE t record;
+BEGIN
+  FOR t IN ${crossSchemaTriggers(dataSchemas, schemas)}
+  LOOP
+    EXECUTE format('DROP TRIGGER %I ON %I.%I', t.tgname, t.nspname, t.relname);
+  END LOOP;
+  FOR t IN SELECT schemaname, tablename FROM pg_tables
+    WHERE schemaname IN (${sqlList(dataSchemas)}) AND schemaname || '.' || tablename NOT IN (${sqlList(EXCLUDED_TABLE_DATA)})
+  LOOP
+    EXECUTE format('TRUNCATE TABLE %I.%I CASCADE', t.schemaname, t.tablename);
+  END LOOP;
+END $$;
+`
+}
+
+// Writes a plain SQL dump to the stream. The stream is not ended, so several dumps can share a file.
+// Data schemas are restored first, so foreign keys from the schema dump to e.g. auth.users hold.
+// Returns the schemas dumped whole.
+export async function dumpDatabase(slug: string, output: NodeJS.WritableStream, options: DumpOptions = {}) {
+  const runtime = getContainerRuntime()
+  const project = composeProject(slug)
+  const schemas = options.schemas ?? await listUserSchemas(slug)
+  const dataSchemas = identifiers(options.dataSchemas ?? [])
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT_MS
+
+  let triggers: string[] = []
+  if (dataSchemas.length > 0 && schemas.length > 0) {
+    // An empty search_path makes pg_get_triggerdef schema-qualify everything, as the dump does
+    const query = `SET search_path = ''; SELECT def || ';' FROM (${crossSchemaTriggers(dataSchemas, schemas)}) AS t(name, nsp, rel, def)`
+    const result = await runtime.exec(project, DB_SERVICE, asAdmin(['psql', ...connection, '-At', '-c', query]), { timeout: 60000 })
+    if (result.exitCode !== 0) {
+      throw new Error(`Listing triggers failed: ${result.stderr.trim() || `exit code ${result.exitCode}`}`)
+    }
+    triggers = result.stdout.split('\n').filter((line) => line.trim())
+    output.write(restorePrelude(dataSchemas, schemas))
+  }
+
+  const runs: string[][] = []
+  if (dataSchemas.length > 0) {
+    runs.push([
+      'pg_dump', ...connection, '--data-only', '--disable-triggers',
+      ...dataSchemas.flatMap((schema) => ['-n', schema]),
+      ...EXCLUDED_TABLE_DATA.flatMap((table) => ['--exclude-table-data', table]),
+    ])
+  }
+  if (schemas.length > 0) {
+    runs.push([
+      'pg_dump', ...connection, '--clean', '--if-exists', '--no-owner', '--no-privileges',
+      ...schemas.flatMap((schema) => ['-n', exactPattern(schema)]),
+    ])
+  }
+
+  for (const command of runs) {
+    const result = await runtime.exec(project, DB_SERVICE, asAdmin(command), {
+      stdout: output,
+      timeout,
+    })
+    if (result.exitCode !== 0) {
+      throw new Error(`pg_dump failed: ${result.stderr.trim() || `exit code ${result.exitCode}`}`)
+    }
+  }
+
+  if (triggers.length > 0) {
+    output.write(`\n${triggers.join('\n')}\n`)
+  }
+  return schemas
+}
+
+// Runs a SQL script in one transaction, stopping at the first error. Uses the postgres
+// database unless another one is given.
+export async function runSql(slug: string, input: string | NodeJS.ReadableStream, options: { timeout?: number; database?: string } = {}) {
+  const result = await getContainerRuntime().exec(
+    composeProject(slug),
+    DB_SERVICE,
+    asAdmin(['psql', ...(options.database ? connectionTo(options.database) : connection), '-v', 'ON_ERROR_STOP=1', '--quiet', '--single-transaction']),
+    { stdin: input, timeout: options.timeout ?? DEFAULT_TIMEOUT_MS }
+  )
+  if (result.exitCode !== 0) {
+    throw new Error(`psql failed: ${result.stderr.trim() || `exit code ${result.exitCode}`}`)
+  }
+  return result
+}
+
+export async function dumpDatabaseToFile(slug: string, file: string, options: DumpOptions = {}) {
+  const output = createWriteStream(file)
+  try {
+    return await dumpDatabase(slug, output, options)
+  } finally {
+    await new Promise<void>((resolve, reject) => {
+      output.once('error', reject)
+      output.end(() => resolve())
+    })
+  }
+}
+
+export async function restoreDatabaseFromFile(slug: string, file: string, options: { timeout?: number } = {}) {
+  return runSql(slug, createReadStream(file), options)
+}
+
+// True when the project's db container accepts connections
+export async function isDatabaseReady(slug: string) {
+  const result = await getContainerRuntime().exec(
+    composeProject(slug),
+    DB_SERVICE,
+    asAdmin(['pg_isready', ...connection]),
+    { timeout: 30000 }
+  )
+  return result.exitCode === 0
+}
@@ -0,0 +1,174 @@
+import * as net from 'net'
+import { prisma } from './db'
+
+// Every project reserves one block of consecutive host ports. Blocks are aligned to BLOCK_SIZE
+// inside PORT_RANGE_START..PORT_RANGE_END, so a unique start port is enough to keep them apart.
+export const BLOCK_SIZE = 10
+
+// Offset of each published port inside a block. The remaining offsets are spare for future services.
+export const PORT_LAYOUT: Record<string, number> = {
+  KONG_HTTP_PORT: 0,
+  KONG_HTTPS_PORT: 1,
+  STUDIO_PORT: 2,
+  ANALYTICS_PORT: 3,
+  POSTGRES_PORT: 4,
+  POOLER_PROXY_PORT_TRANSACTION: 5,
+}
+
+export const PORT_VARIABLES = Object.keys(PORT_LAYOUT)
+
+export type ProjectPorts = Record<string, number>
+
+export interface PortConflict {
+  projectId: string
+  projectName: string
+  variable: string | null
+  port: number | null
+  kind: 'unallocated' | 'outside_block' | 'duplicate' | 'in_use'
+  message: string
+}
+
+export function portRange() {
+  const start = parseInt(process.env.PORT_RANGE_START || '', 10) || 10000
+  const end = parseInt(process.env.PORT_RANGE_END || '', 10) || 19999
+  return { start, end }
+}
+
+export function portsForBlock(startPort: number): ProjectPorts {
+  const ports: ProjectPorts = {}
+  for (const [variable, offset] of Object.entries(PORT_LAYOUT)) {
+    ports[variable] = startPort + offset
+  }
+  return ports
+}
+
+// True when nothing on this host listens on the port
+export function isHostPortFree(port: number) {
+  return new Promise<boolean>((resolve) => {
+    const server = net.createServer()
+    server.once('error', () => resolve(false))
+    server.once('listening', () => server.close(() => resolve(true)))
+    server.listen(port, '0.0.0.0')
+  })
+}
+
+async function isBlockFree(startPort: number) {
+  for (const port of Object.values(portsForBlock(startPort))) {
+    if (!(await isHostPortFree(port))) return false
+  }
+  return true
+}
+
+function isUniqueViolation(error: unknown) {
+  return typeof error === 'object' && error !== null && (error as { code?: string }).code === 'P2002'
+}
+
+export async function getProjectPorts(projectId: string): Promise<ProjectPorts | null> {
+  const allocation = await prisma.portAllocation.findUnique({
+    where: { projectId },
+  })
+  return allocation ? portsForBlock(allocation.startPort) : null
+}
+
+// Reserves a block for the project, or returns the one it already has. Blocks with a port
+// bound on the host are skipped; the unique start port settles races between two requests.
+export async function allocateProjectPorts(projectId: string): Promise<ProjectPorts> {
+  const existing = await getProjectPorts(projectId)
+  if (existing) return existing
+
+  const { start, end } = portRange()
+  const taken = new Set<number>()
+  for (const allocation of await prisma.portAllocation.findMany({ select: { startPort: true } })) {
+    taken.add(allocation.startPort)
+  }
+
+  for (let startPort = start; startPort + BLOCK_SIZE - 1 <= end; startPort += BLOCK_SIZE) {
+    if (taken.has(startPort) || !(await isBlockFree(startPort))) continue
+    try {
+      await prisma.portAllocation.create({
+        data: { projectId, startPort, size: BLOCK_SIZE },
+      })
+      return portsForBlock(startPort)
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error
+      // Another project claimed this block first, or this project got one concurrently
+      const concurrent = await getProjectPorts(projectId)
+      if (concurrent) return concurrent
+    }
+  }
+
+  throw new Error(`No free port block left between ${start} and ${end}; widen PORT_RANGE_START/PORT_RANGE_END`)
+}
+
+export async function releaseProjectPorts(projectId: string) {
+  await prisma.portAllocation.deleteMany({
+    where: { projectId },
+  })
+}
+
+// Compares every project's env ports with the registry and the host:
+// unallocated - the project has no block (created before the registry existed)
+// outside_block - an env port is not the one reserved for it
+// duplicate - another project uses the same port in its env
+// in_use - the project's containers are not running, yet something else listens on the port
+export async function findPortConflicts() {
+  const projects = await prisma.project.findMany({
+    include: { envVars: { where: { key: { in: PORT_VARIABLES } } }, portAllocation: true },
+  })
+
+  const owners = new Map<number, string[]>()
+  for (const project of projects) {
+    for (const envVar of project.envVars) {
+      const port = parseInt(envVar.value, 10)
+      if (!port) continue
+      owners.set(port, [...(owners.get(port) || []), project.id])
+    }
+  }
+
+  const conflicts: PortConflict[] = []
+  for (const project of projects) {
+    const base = { projectId: project.id, projectName: project.name }
+    const reserved = project.portAllocation ? portsForBlock(project.portAllocation.startPort) : null
+    if (!reserved) {
+      conflicts.push({ ...base, variable: null, port: null, kind: 'unallocated', message: 'No port block reserved' })
+    }
+
+    for (const envVar of project.envVars) {
+      const port = parseInt(envVar.value, 10)
+      if (!port) continue
+      const variable = envVar.key
+
+      const sharedWith = (owners.get(port) || []).filter((id) => id !== project.id)
+      if (sharedWith.length > 0) {
+        const names = projects.filter((p: { id: string }) => sharedWith.includes(p.id)).map((p: { name: string }) => p.name)
+        conflicts.push({ ...base, variable, port, kind: 'duplicate', message: `Also used by ${names.join(', ')}` })
+      } else if (reserved && reserved[variable] !== port) {
+        conflicts.push({ ...base, variable, port, kind: 'outside_block', message: `Reserved port is ${reserved[variable]}` })
+      }
+
+      if (project.runtimeStatus !== 'running' && project.runtimeStatus !== 'degraded' && !(await isHostPortFree(port))) {
+        conflicts.push({ ...base, variable, port, kind: 'in_use', message: 'Bound by another process on this host' })
+      }
+    }
+  }
+  return conflicts
+}
+
+export async function listPortAllocations() {
+  try {
+    const allocations = await prisma.portAllocation.findMany({
+      orderBy: { startPort: 'asc' },
+      include: { project: { select: { id: true, name: true, slug: true, status: true } } },
+    })
+
+    const result = []
+    for (const allocation of allocations) {
+      result.push({ ...allocation, ports: portsForBlock(allocation.startPort) })
+    }
+
+    return { success: true, allocations: result, conflicts: await findPortConflicts(), range: portRange() }
+  } catch (error) {
+    console.error('Failed to list port allocations:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
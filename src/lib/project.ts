@@ -4,58 +4,52 @@ import { exec } from 'child_process'
 import { promisify } from 'util'
 import { prisma } from './db'
 import { ensureProjectPublicExposure, cleanupProjectExposure } from './cloudflared'
+import { transitionProject, assertCanPerform, availableActions, canTransition, InvalidTransitionError } from './lifecycle'
+import { startJob, getActiveJob, type JobLogger } from './jobs'
+import { getContainerRuntime, composeProject } from './runtime'
+import { addCoreVersion, coreDockerDir, projectBaseDir, getDefaultCoreVersion } from './core-versions'
+import { transformCompose, transformComposeFile } from './compose'
+import { SUPABASE_SERVICES, ALL_SERVICE_KEYS, parseEnabledServices, resolveServiceSet, disabledEnvKeys } from './supabase-services'
+import { createDeploymentSnapshot, finishDeployment, rollbackFailedDeploy, waitForHealthyStack } from './deployments'
+import { runSql } from './pg'
+import { generateProjectSecrets, checkApiKeys } from './keys'
+import { allocateProjectPorts, releaseProjectPorts, getProjectPorts, isHostPortFree, PORT_VARIABLES, type ProjectPorts } from './ports'
+import { getProjectEnvVars, setProjectEnvVars, deleteProjectEnvVars, recordEnvVersion } from './env-vars'
+import { validateEnvVars, findEnvVarSpec, findPortConflicts } from './env-catalog'
 
 const execAsync = promisify(exec)
 
-// Helper functions for generating secure defaults
-function generateRandomString(length: number): string {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789'
-  let result = ''
-  for (let i = 0; i < length; i++) {
-    result += chars.charAt(Math.floor(Math.random() * chars.length))
-  }
-  return result
-}
+// Generated per project by createProject and deploy; never copied from one project to another
+export const UNIQUE_ENV_KEYS = [
+  'POSTGRES_PASSWORD',
+  'JWT_SECRET',
+  'ANON_KEY',
+  'SERVICE_ROLE_KEY',
+  'DASHBOARD_PASSWORD',
+  'SECRET_KEY_BASE',
+  'VAULT_ENC_KEY',
+  'LOGFLARE_PUBLIC_ACCESS_TOKEN',
+  'LOGFLARE_PRIVATE_ACCESS_TOKEN',
+  'POOLER_TENANT_ID',
+  'PUBLIC_HOSTNAME',
+  'PUBLIC_URL',
+  ...PORT_VARIABLES,
+]
 
-function generateJWT(role: 'anon' | 'service_role', timestamp: number): string {
-  // Generate a simple JWT-like token (for demo purposes)
-  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url')
-  const payload = Buffer.from(JSON.stringify({
-    role,
-    iss: 'supabase',
-    iat: Math.floor(timestamp / 1000),
-    exp: Math.floor(timestamp / 1000) + (365 * 24 * 60 * 60) // 1 year
-  })).toString('base64url')
-  const signature = generateRandomString(43) // Mock signature
-  return `${header}.${payload}.${signature}`
-}
+// Default to the project's own API gateway (http://localhost:<KONG_HTTP_PORT>)
+export const LOCAL_URL_KEYS = ['SITE_URL', 'API_EXTERNAL_URL', 'SUPABASE_PUBLIC_URL']
 
-// Pre-flight checks for Docker deployment
-async function checkDockerPrerequisites() {
-  const checks = {
-    docker: false,
-    dockerCompose: false,
-    internetConnection: false,
-  }
+// Pre-flight checks for deployment
+async function checkRuntimePrerequisites() {
+  const runtime = getContainerRuntime()
+  const { engine, compose } = await runtime.check()
   
-  try {
-    await execAsync('docker --version')
-    checks.docker = true
-  } catch {
-    // Docker not available
+  return {
+    engine,
+    compose,
+    // Multi-layered internet connectivity check
+    internetConnection: await checkInternetConnectivity(),
   }
-  
-  try {
-    await execAsync('docker compose version')
-    checks.dockerCompose = true
-  } catch {
-    // Docker Compose not available
-  }
-  
-  // Multi-layered internet connectivity check
-  checks.internetConnection = await checkInternetConnectivity()
-  
-  return checks
 }
 
 // Improved internet connectivity check using multiple methods
@@ -97,9 +91,11 @@ async function checkInternetConnectivity(): Promise<boolean> {
     // Ping failed
   }
   
-  // Method 4: Docker registry connectivity (original method as last resort)
+  // Method 4: Registry connectivity through the container engine (original method as last resort)
   try {
-    await execAsync('docker pull alpine:latest', { 
+    const runtime = getContainerRuntime()
+    if (runtime.name === 'simulated') return false
+    await execAsync(`${runtime.name} pull alpine:latest`, { 
       timeout: 30000,
       maxBuffer: 1024 * 1024 * 5 // 5MB buffer for Docker pull
     })
@@ -111,38 +107,11 @@ async function checkInternetConnectivity(): Promise<boolean> {
   return false
 }
 
-// Replace fixed host port mappings in docker-compose by env vars with defaults
-function injectPortVar(content: string, hostPort: number, containerPort: number, varName: string) {
-  const pattern = new RegExp(`-\\s*["']?${hostPort}:${containerPort}["']?`, 'g')
-  const replacement = '- ' + '${' + varName + ':-' + hostPort + '}' + ':' + containerPort
-  return content.replace(pattern, replacement)
-}
-
-async function patchComposePorts(composeFile: string) {
-  let content = await fs.readFile(composeFile, 'utf8')
-
-  const before = content
-
-  // Map known Supabase services host ports -> env vars (with docker-compose default fallbacks)
-  content = injectPortVar(content, 8000, 8000, 'KONG_HTTP_PORT')
-  content = injectPortVar(content, 8443, 8443, 'KONG_HTTPS_PORT')
-  content = injectPortVar(content, 3000, 3000, 'STUDIO_PORT')
-  content = injectPortVar(content, 4000, 4000, 'ANALYTICS_PORT')
-  content = injectPortVar(content, 5432, 5432, 'POSTGRES_PORT')
-  content = injectPortVar(content, 6543, 6543, 'POOLER_PROXY_PORT_TRANSACTION')
-
-  if (content !== before) {
-    await fs.writeFile(composeFile, content, 'utf8')
-  }
-}
-
 export async function initializeSupabaseCore() {
-  const coreDir = path.join(process.cwd(), 'supabase-core')
   const projectsDir = path.join(process.cwd(), 'supabase-projects')
   
   try {
     // Check if directories already exist
-    const coreExists = await fs.access(coreDir).then(() => true).catch(() => false)
     const projectsExists = await fs.access(projectsDir).then(() => true).catch(() => false)
     
     // Create supabase-projects directory if it doesn't exist
@@ -150,12 +119,17 @@ export async function initializeSupabaseCore() {
       await fs.mkdir(projectsDir, { recursive: true })
     }
     
-    // Clone repository if supabase-core doesn't exist
-    if (!coreExists) {
-      const repoUrl = process.env.SUPABASE_CORE_REPO_URL || 'https://github.com/supabase/supabase'
-      
-      // Use shallow clone for faster download
-      await execAsync(`git clone --depth 1 ${repoUrl} supabase-core`)
+    // Check out the first core version (it becomes the default) if none is registered yet
+    const versions = await prisma.coreVersion.count()
+    if (versions === 0) {
+      const result = await addCoreVersion(process.env.SUPABASE_CORE_REF || 'master', { wait: true })
+      if (!result.success || !result.version) {
+        throw new Error(result.error || 'Failed to register Supabase core version')
+      }
+      const version = await prisma.coreVersion.findUnique({ where: { id: result.version.id } })
+      if (version?.status !== 'ready') {
+        throw new Error(version?.error || 'Failed to check out Supabase core')
+      }
     }
     
     return { success: true }
@@ -165,8 +139,187 @@ export async function initializeSupabaseCore() {
   }
 }
 
-export async function createProject(name: string, userId: string, description?: string) {
+// Builds the project's docker-compose.yml from the pristine copy in the project's core version.
+// Returns the transformations that could not be applied.
+async function writeProjectCompose(slug: string, enabledServices: string[], coreDir: string) {
+  const coreComposeFile = path.join(coreDir, 'docker-compose.yml')
+  const dockerComposeFile = path.join(process.cwd(), 'supabase-projects', slug, 'docker', 'docker-compose.yml')
+  
+  const { content, warnings } = transformCompose(await fs.readFile(coreComposeFile, 'utf8'), { slug, enabledServices })
+  await fs.writeFile(dockerComposeFile, content, 'utf8')
+  
+  for (const warning of warnings) {
+    console.warn(`docker-compose.yml (${slug}): ${warning}`)
+  }
+  return warnings
+}
+
+export function buildDefaultEnvVars(timestamp: number, ports: ProjectPorts): Record<string, string> {
+  const basePort = ports.KONG_HTTP_PORT
+  const secrets = generateProjectSecrets(timestamp)
+  return {
+    // Secrets - random values from the CSPRNG; API keys signed with JWT_SECRET
+    POSTGRES_PASSWORD: secrets.POSTGRES_PASSWORD,
+    JWT_SECRET: secrets.JWT_SECRET,
+    ANON_KEY: secrets.ANON_KEY,
+    SERVICE_ROLE_KEY: secrets.SERVICE_ROLE_KEY,
+    DASHBOARD_USERNAME: 'supabase',
+    DASHBOARD_PASSWORD: secrets.DASHBOARD_PASSWORD,
+    SECRET_KEY_BASE: secrets.SECRET_KEY_BASE,
+    VAULT_ENC_KEY: secrets.VAULT_ENC_KEY,
+    
+    // Ports from the project's reserved block
+    POSTGRES_PORT: ports.POSTGRES_PORT.toString(),
+    POOLER_PROXY_PORT_TRANSACTION: ports.POOLER_PROXY_PORT_TRANSACTION.toString(),
+    KONG_HTTP_PORT: basePort.toString(),
+    KONG_HTTPS_PORT: ports.KONG_HTTPS_PORT.toString(),
+    ANALYTICS_PORT: ports.ANALYTICS_PORT.toString(),
+    
+    // Database
+    POSTGRES_HOST: 'db',
+    POSTGRES_DB: 'postgres',
+    
+    // Other defaults
+    POOLER_DEFAULT_POOL_SIZE: '20',
+    POOLER_MAX_CLIENT_CONN: '100',
+    POOLER_TENANT_ID: `project-${timestamp}`,
+    POOLER_DB_POOL_SIZE: '5',
+    PGRST_DB_SCHEMAS: 'public,storage,graphql_public',
+    SITE_URL: `http://localhost:${basePort}`,
+    ADDITIONAL_REDIRECT_URLS: '',
+    JWT_EXPIRY: '3600',
+    DISABLE_SIGNUP: 'false',
+    API_EXTERNAL_URL: `http://localhost:${basePort}`,
+    MAILER_URLPATHS_CONFIRMATION: '/auth/v1/verify',
+    MAILER_URLPATHS_INVITE: '/auth/v1/verify',
+    MAILER_URLPATHS_RECOVERY: '/auth/v1/verify',
+    MAILER_URLPATHS_EMAIL_CHANGE: '/auth/v1/verify',
+    ENABLE_EMAIL_SIGNUP: 'true',
+    ENABLE_EMAIL_AUTOCONFIRM: 'false',
+    SMTP_ADMIN_EMAIL: 'admin@example.com',
+    SMTP_HOST: 'supabase-mail',
+    SMTP_PORT: '2500',
+    SMTP_USER: 'fake_mail_user',
+    SMTP_PASS: 'fake_mail_password',
+    SMTP_SENDER_NAME: 'fake_sender',
+    ENABLE_ANONYMOUS_USERS: 'false',
+    ENABLE_PHONE_SIGNUP: 'true',
+    ENABLE_PHONE_AUTOCONFIRM: 'true',
+    STUDIO_DEFAULT_ORGANIZATION: 'Default Organization',
+    STUDIO_DEFAULT_PROJECT: 'Default Project',
+    STUDIO_PORT: ports.STUDIO_PORT.toString(),
+    SUPABASE_PUBLIC_URL: `http://localhost:${basePort}`,
+    IMGPROXY_ENABLE_WEBP_DETECTION: 'true',
+    OPENAI_API_KEY: '',
+    FUNCTIONS_VERIFY_JWT: 'false',
+    LOGFLARE_PUBLIC_ACCESS_TOKEN: secrets.LOGFLARE_PUBLIC_ACCESS_TOKEN,
+    LOGFLARE_PRIVATE_ACCESS_TOKEN: secrets.LOGFLARE_PRIVATE_ACCESS_TOKEN,
+    DOCKER_SOCKET_LOCATION: '/var/run/docker.sock',
+    GOOGLE_PROJECT_ID: 'GOOGLE_PROJECT_ID',
+    GOOGLE_PROJECT_NUMBER: 'GOOGLE_PROJECT_NUMBER'
+  }
+}
+
+function renderEnvFile(envVars: Record<string, string>) {
+  return Object.entries(envVars)
+    .map(([key, value]) => `${key}=${value}`)
+    .join('\n')
+}
+
+function parseEnvFile(content: string) {
+  const envVars: Record<string, string> = {}
+  for (const line of content.split('\n')) {
+    const match = line.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)=(.*)$/)
+    if (match) envVars[match[1]] = match[2]
+  }
+  return envVars
+}
+
+function projectEnvFilePath(slug: string) {
+  return path.join(process.cwd(), 'supabase-projects', slug, 'docker', '.env')
+}
+
+// Rewrites the project's .env from every env var stored for it
+export async function writeProjectEnvFile(projectId: string, slug: string) {
+  const envVars = await getProjectEnvVars(projectId)
+  
+  await fs.writeFile(projectEnvFilePath(slug), renderEnvFile(envVars))
+}
+
+// How the project's .env differs from its stored env vars, by key name only so no secret leaks
+export interface EnvFileDrift {
+  missingFile: boolean
+  added: string[] // only in .env
+  removed: string[] // stored, but not in .env
+  changed: string[]
+}
+
+// Compares the .env on disk with the stored env vars; null when they match
+export async function getEnvFileDrift(projectId: string): Promise<EnvFileDrift | null> {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+  })
+  if (!project) {
+    throw new Error('Project not found')
+  }
+  
+  const stored = await getProjectEnvVars(projectId)
+  const content = await fs.readFile(projectEnvFilePath(project.slug), 'utf8').catch(() => null)
+  const onDisk = parseEnvFile(content ?? '')
+  
+  const drift: EnvFileDrift = {
+    missingFile: content === null,
+    added: Object.keys(onDisk).filter((key) => !(key in stored)).sort(),
+    removed: Object.keys(stored).filter((key) => !(key in onDisk)).sort(),
+    changed: Object.keys(stored).filter((key) => key in onDisk && onDisk[key] !== stored[key]).sort(),
+  }
+  
+  if (!drift.missingFile && !drift.added.length && !drift.removed.length && !drift.changed.length) {
+    return null
+  }
+  return drift
+}
+
+// Undoes a half-created project, so a failed create leaves no row, reserved ports or files behind
+async function discardProject(projectId: string, projectDir: string) {
+  await releaseProjectPorts(projectId).catch((error: unknown) => console.error('Failed to release ports:', error))
+  await fs.rm(projectDir, { recursive: true, force: true }).catch((error: unknown) => console.error('Failed to remove project directory:', error))
+  await prisma.project.delete({ where: { id: projectId } }).catch((error: unknown) => console.error('Failed to delete project:', error))
+}
+
+export async function createProject(
+  name: string,
+  userId: string,
+  description?: string,
+  options: {
+    services?: string[]
+    coreVersionId?: string
+    envOverrides?: Record<string, string> // applied over the defaults, e.g. from a template
+    seedSql?: string // run once after the first successful deploy
+  } = {}
+) {
   try {
+    const overridden = Object.keys(options.envOverrides ?? {}).filter((key) => UNIQUE_ENV_KEYS.includes(key))
+    if (overridden.length > 0) {
+      throw new Error(`These env vars are generated per project and cannot be preset: ${overridden.join(', ')}`)
+    }
+    
+    const { services, error: servicesError } = resolveServiceSet(options.services ?? ALL_SERVICE_KEYS)
+    if (!services) {
+      throw new Error(servicesError)
+    }
+    
+    // Use the requested core version, else the default one; without any, fall back to supabase-core
+    const coreVersion = options.coreVersionId
+      ? await prisma.coreVersion.findUnique({ where: { id: options.coreVersionId } })
+      : await getDefaultCoreVersion()
+    if (options.coreVersionId && !coreVersion) {
+      throw new Error('Supabase core version not found')
+    }
+    if (coreVersion && coreVersion.status !== 'ready') {
+      throw new Error(`Supabase core version ${coreVersion.ref} is not checked out yet`)
+    }
+    
     // Generate unique slug
     const timestamp = Date.now()
     const slug = `${name.toLowerCase().replace(/[^a-z0-9]/g, '-')}-${timestamp}`
@@ -177,202 +330,150 @@ export async function createProject(name: string, userId: string, description?:
         name,
         slug,
         description,
+        status: 'provisioning',
+        services: JSON.stringify(services),
+        coreVersionId: coreVersion?.id ?? null,
+        coreCommit: coreVersion?.commit ?? null,
+        seedSql: options.seedSql?.trim() || null,
         ownerId: userId,
       },
     })
     
     // Create project directory
     const projectDir = path.join(process.cwd(), 'supabase-projects', slug)
-    const coreDockerDir = path.join(process.cwd(), 'supabase-core', 'docker')
-    
-    // Copy docker folder from supabase-core
-    await fs.mkdir(projectDir, { recursive: true })
     
-    // Use cross-platform copy command
-    const isWindows = process.platform === 'win32'
-    const copyCommand = isWindows 
-      ? `xcopy "${coreDockerDir}" "${path.join(projectDir, 'docker')}" /E /I /H /K`
-      : `cp -r "${coreDockerDir}" "${projectDir}/"`
+    try {
+      const coreDir = coreDockerDir(coreVersion)
+      
+      // Copy docker folder from the core version
+      await fs.mkdir(projectDir, { recursive: true })
       
-    await execAsync(copyCommand)
-    
-    // Customize docker-compose.yml with unique container names
-    const dockerComposeFile = path.join(projectDir, 'docker', 'docker-compose.yml')
-    let dockerComposeContent = await fs.readFile(dockerComposeFile, 'utf8')
-    
-    // Replace container names with project-specific names
-    const containerMappings = [
-      { original: 'supabase-studio', replacement: `${slug}-studio` },
-      { original: 'supabase-kong', replacement: `${slug}-kong` },
-      { original: 'supabase-auth', replacement: `${slug}-auth` },
-      { original: 'supabase-rest', replacement: `${slug}-rest` },
-      { original: 'realtime-dev.supabase-realtime', replacement: `realtime-dev.${slug}-realtime` },
-      { original: 'supabase-storage', replacement: `${slug}-storage` },
-      { original: 'supabase-imgproxy', replacement: `${slug}-imgproxy` },
-      { original: 'supabase-meta', replacement: `${slug}-meta` },
-      { original: 'supabase-edge-functions', replacement: `${slug}-edge-functions` },
-      { original: 'supabase-analytics', replacement: `${slug}-analytics` },
-      { original: 'supabase-db', replacement: `${slug}-db` },
-      { original: 'supabase-vector', replacement: `${slug}-vector` },
-      { original: 'supabase-pooler', replacement: `${slug}-pooler` }
-    ]
-    
-    // Replace container names in the compose file
-    for (const mapping of containerMappings) {
-      dockerComposeContent = dockerComposeContent.replace(
-        new RegExp(`container_name: ${mapping.original}`, 'g'),
-        `container_name: ${mapping.replacement}`
-      )
-    }
-    
-    // Update the compose project name to be unique
-    dockerComposeContent = dockerComposeContent.replace(
-      /^name: supabase$/m,
-      `name: ${slug}`
-    )
-    
-    // Write the modified docker-compose.yml back
-    await fs.writeFile(dockerComposeFile, dockerComposeContent, 'utf8')
-
-    // Ensure host port mappings use env vars (prevents cross-project collisions)
-    await patchComposePorts(dockerComposeFile)
-    
-    // Generate unique default port values to prevent conflicts
-    const basePort = 8000 + (timestamp % 10000) // Use last 4 digits of timestamp for uniqueness
-    const defaultEnvVars = {
-      // Secrets - generated random values
-      POSTGRES_PASSWORD: generateRandomString(32),
-      JWT_SECRET: generateRandomString(64),
-      ANON_KEY: generateJWT('anon', timestamp),
-      SERVICE_ROLE_KEY: generateJWT('service_role', timestamp),
-      DASHBOARD_USERNAME: 'supabase',
-      DASHBOARD_PASSWORD: generateRandomString(16),
-      SECRET_KEY_BASE: generateRandomString(64),
-      VAULT_ENC_KEY: generateRandomString(32),
+      // Use cross-platform copy command
+      const isWindows = process.platform === 'win32'
+      const copyCommand = isWindows 
+        ? `xcopy "${coreDir}" "${path.join(projectDir, 'docker')}" /E /I /H /K`
+        : `cp -r "${coreDir}" "${projectDir}/"`
       
-      // Unique ports to prevent conflicts between projects
-      POSTGRES_PORT: (basePort + 2000).toString(),
-      POOLER_PROXY_PORT_TRANSACTION: (basePort + 3000).toString(),
-      KONG_HTTP_PORT: basePort.toString(),
-      KONG_HTTPS_PORT: (basePort + 443).toString(),
-      ANALYTICS_PORT: (basePort + 1000).toString(),
+      await execAsync(copyCommand)
       
-      // Database
-      POSTGRES_HOST: 'db',
-      POSTGRES_DB: 'postgres',
+      // Generate docker-compose.yml with the selected services and unique container names
+      const warnings = await writeProjectCompose(slug, services, coreDir)
       
-      // Other defaults
-      POOLER_DEFAULT_POOL_SIZE: '20',
-      POOLER_MAX_CLIENT_CONN: '100',
-      POOLER_TENANT_ID: `project-${timestamp}`,
-      POOLER_DB_POOL_SIZE: '5',
-      PGRST_DB_SCHEMAS: 'public,storage,graphql_public',
-      SITE_URL: `http://localhost:${basePort}`,
-      ADDITIONAL_REDIRECT_URLS: '',
-      JWT_EXPIRY: '3600',
-      DISABLE_SIGNUP: 'false',
-      API_EXTERNAL_URL: `http://localhost:${basePort}`,
-      MAILER_URLPATHS_CONFIRMATION: '/auth/v1/verify',
-      MAILER_URLPATHS_INVITE: '/auth/v1/verify',
-      MAILER_URLPATHS_RECOVERY: '/auth/v1/verify',
-      MAILER_URLPATHS_EMAIL_CHANGE: '/auth/v1/verify',
-      ENABLE_EMAIL_SIGNUP: 'true',
-      ENABLE_EMAIL_AUTOCONFIRM: 'false',
-      SMTP_ADMIN_EMAIL: 'admin@example.com',
-      SMTP_HOST: 'supabase-mail',
-      SMTP_PORT: '2500',
-      SMTP_USER: 'fake_mail_user',
-      SMTP_PASS: 'fake_mail_password',
-      SMTP_SENDER_NAME: 'fake_sender',
-      ENABLE_ANONYMOUS_USERS: 'false',
-      ENABLE_PHONE_SIGNUP: 'true',
-      ENABLE_PHONE_AUTOCONFIRM: 'true',
-      STUDIO_DEFAULT_ORGANIZATION: 'Default Organization',
-      STUDIO_DEFAULT_PROJECT: 'Default Project',
-      STUDIO_PORT: (basePort + 100).toString(),
-      SUPABASE_PUBLIC_URL: `http://localhost:${basePort}`,
-      IMGPROXY_ENABLE_WEBP_DETECTION: 'true',
-      OPENAI_API_KEY: '',
-      FUNCTIONS_VERIFY_JWT: 'false',
-      LOGFLARE_PUBLIC_ACCESS_TOKEN: generateRandomString(64),
-      LOGFLARE_PRIVATE_ACCESS_TOKEN: generateRandomString(64),
-      DOCKER_SOCKET_LOCATION: '/var/run/docker.sock',
-      GOOGLE_PROJECT_ID: 'GOOGLE_PROJECT_ID',
-      GOOGLE_PROJECT_NUMBER: 'GOOGLE_PROJECT_NUMBER'
-    }
-    
-    // Write initial .env file with unique defaults
-    const envFilePath = path.join(projectDir, 'docker', '.env')
-    const envContent = Object.entries(defaultEnvVars)
-      .map(([key, value]) => `${key}=${value}`)
-      .join('\n')
-    
-    await fs.writeFile(envFilePath, envContent)
-    
-    // Save environment variables to database
-    for (const [key, value] of Object.entries(defaultEnvVars)) {
-      await prisma.projectEnvVar.create({
-        data: {
-          projectId: project.id,
-          key,
-          value,
-        },
-      })
+      // Reserve a block of host ports no other project or local process uses
+      const ports = await allocateProjectPorts(project.id)
+      const defaultEnvVars = { ...buildDefaultEnvVars(timestamp, ports), ...options.envOverrides }
+      
+      // Only keep env vars of enabled services
+      for (const key of disabledEnvKeys(services)) {
+        delete defaultEnvVars[key]
+      }
+      
+      // Write initial .env file with unique defaults
+      const envFilePath = path.join(projectDir, 'docker', '.env')
+      await fs.writeFile(envFilePath, renderEnvFile(defaultEnvVars))
+      
+      // Save environment variables to database
+      await setProjectEnvVars(project.id, defaultEnvVars)
+      await recordEnvVersion(project.id, 'create', { userId })
+      
+      return { success: true, project, warnings }
+    } catch (error) {
+      await discardProject(project.id, projectDir)
+      throw error
     }
-    
-    return { success: true, project }
   } catch (error) {
     console.error('Failed to create project:', error)
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
   }
 }
 
-export async function updateProjectEnvVars(projectId: string, envVars: Record<string, string>) {
+// Changes the optional services of an existing project: regenerates docker-compose.yml and
+// adds or drops the env vars owned by the services that changed. Takes effect on next deploy.
+export async function updateProjectServices(projectId: string, requested: string[]) {
   try {
+    const { services, error: servicesError } = resolveServiceSet(requested)
+    if (!services) {
+      throw new Error(servicesError)
+    }
+    
     const project = await prisma.project.findUnique({
       where: { id: projectId },
+      include: { coreVersion: true },
     })
     
     if (!project) {
       throw new Error('Project not found')
     }
+    if (['starting', 'stopping', 'deleting'].includes(project.status)) {
+      throw new Error(`Cannot change services while the project is ${project.status}`)
+    }
+    if (await getActiveJob(projectId, 'deploy') || await getActiveJob(projectId, 'restore')) {
+      throw new Error('Cannot change services while a deployment or restore of this project is running')
+    }
     
-    // Update environment variables in database
-    for (const [key, value] of Object.entries(envVars)) {
-      await prisma.projectEnvVar.upsert({
-        where: {
-          projectId_key: {
-            projectId,
-            key,
-          },
-        },
-        update: { value },
-        create: {
-          projectId,
-          key,
-          value,
-        },
-      })
+    // The compose file is rebuilt from the checkout the project came from; once that checkout has
+    // moved to another commit it would silently swap the stack, which is what upgrades are for
+    const baseDir = await projectBaseDir(project)
+    if (!baseDir) {
+      throw new Error('The Supabase version this project was created from is no longer checked out at its commit. Upgrade the project before changing services.')
     }
+    const warnings = await writeProjectCompose(project.slug, services, baseDir)
     
-    // Update .env file in project directory
-    const projectDir = path.join(process.cwd(), 'supabase-projects', project.slug, 'docker')
-    const envFilePath = path.join(projectDir, '.env')
+    const current = await getProjectEnvVars(projectId)
+    
+    // Defaults for newly enabled services use the project's reserved port block
+    const defaults = buildDefaultEnvVars(Date.now(), await allocateProjectPorts(projectId))
+    const removed = disabledEnvKeys(services)
     
-    const envContent = Object.entries(envVars)
-      .map(([key, value]) => `${key}=${value}`)
-      .join('\n')
+    await deleteProjectEnvVars(projectId, removed)
+    for (const key of removed) {
+      delete current[key]
+    }
     
-    await fs.writeFile(envFilePath, envContent)
+    const added: Record<string, string> = {}
+    for (const service of SUPABASE_SERVICES.filter((s) => services.includes(s.key))) {
+      for (const key of service.envKeys || []) {
+        if (key in current || !(key in defaults)) continue
+        current[key] = defaults[key]
+        added[key] = defaults[key]
+      }
+    }
+    await setProjectEnvVars(projectId, added)
+    await recordEnvVersion(projectId, 'services')
     
-    return { success: true }
+    await writeProjectEnvFile(projectId, project.slug)
+    
+    await prisma.project.update({
+      where: { id: projectId },
+      data: { services: JSON.stringify(services) },
+    })
+    
+    return { success: true, services, warnings }
   } catch (error) {
-    console.error('Failed to update project env vars:', error)
+    console.error('Failed to update project services:', error)
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
   }
 }
 
-export async function deployProject(projectId: string) {
+export async function getEnabledServices(projectId: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+  })
+  return project ? parseEnabledServices(project.services) : null
+}
+
+export interface EnvPatch {
+  // Created or overwritten
+  set?: Record<string, unknown>
+  // Deleted; keys that are not stored are ignored
+  unset?: string[]
+}
+
+// Merges a partial update into the stored env vars; keys the patch doesn't name are left alone.
+// The values are validated against the env catalog first and invalid input is rejected as a whole
+// with an error per field (code 'invalid_env'). The .env file is then rendered from the complete
+// stored set, so hand edits made to it since the last write are overwritten and returned as drift.
+export async function updateProjectEnvVars(projectId: string, patch: EnvPatch, userId?: string) {
   try {
     const project = await prisma.project.findUnique({
       where: { id: projectId },
@@ -382,62 +483,247 @@ export async function deployProject(projectId: string) {
       throw new Error('Project not found')
     }
     
+    const { values: envVars, errors } = validateEnvVars(patch.set ?? {})
+    const unset = [...new Set(patch.unset ?? [])]
+    
+    for (const key of unset) {
+      if (patch.set && key in patch.set) {
+        errors[key] = 'Cannot be set and unset at once'
+      } else if (UNIQUE_ENV_KEYS.includes(key)) {
+        errors[key] = 'Generated for the project and cannot be removed'
+      } else if (findEnvVarSpec(key) && !findEnvVarSpec(key)?.optional) {
+        errors[key] = 'Required'
+      }
+    }
+    
+    const current = await getProjectEnvVars(projectId)
+    const merged = { ...current, ...envVars }
+    for (const key of unset) {
+      delete merged[key]
+    }
+    
+    // The API keys must verify against the JWT secret they will be deployed with
+    if (['JWT_SECRET', 'ANON_KEY', 'SERVICE_ROLE_KEY'].some((key) => key in envVars)) {
+      for (const check of checkApiKeys(merged)) {
+        if (!check.valid && !errors[check.key]) {
+          errors[check.key] = check.error || 'Invalid key'
+        }
+      }
+    }
+    // A changed port must not collide with one the patch leaves alone
+    for (const [key, error] of Object.entries(findPortConflicts(merged, Object.keys(envVars)))) {
+      errors[key] = errors[key] || error
+    }
+    
+    if (Object.keys(errors).length > 0) {
+      return {
+        success: false,
+        error: `Invalid values for ${Object.keys(errors).join(', ')}`,
+        code: 'invalid_env',
+        fieldErrors: errors,
+      }
+    }
+    
+    const drift = await getEnvFileDrift(projectId)
+    
+    await setProjectEnvVars(projectId, envVars)
+    const removed = unset.filter((key) => key in current)
+    if (removed.length > 0) {
+      await deleteProjectEnvVars(projectId, removed)
+    }
+    const version = await recordEnvVersion(projectId, 'save', { userId })
+    await writeProjectEnvFile(projectId, project.slug)
+    
+    return { success: true, version: version?.number ?? null, drift }
+  } catch (error) {
+    console.error('Failed to update project env vars:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+// Moves a project's published ports onto its reserved block. Projects without a block, or whose
+// block is now bound by another process while they are down, get a fresh one. Takes effect on next deploy.
+export async function repairProjectPorts(projectId: string) {
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+    if (['starting', 'stopping', 'deleting'].includes(project.status)) {
+      throw new Error(`Cannot repair ports while the project is ${project.status}`)
+    }
+
+    let ports = await getProjectPorts(projectId)
+    const containersUp = project.runtimeStatus === 'running' || project.runtimeStatus === 'degraded'
+    if (ports && !containersUp) {
+      for (const port of Object.values(ports)) {
+        if (await isHostPortFree(port)) continue
+        await releaseProjectPorts(projectId)
+        ports = null
+        break
+      }
+    }
+    if (!ports) {
+      ports = await allocateProjectPorts(projectId)
+    }
+
+    const current = await getProjectEnvVars(projectId)
+
+    const updates: Record<string, string> = {}
+    for (const variable of PORT_VARIABLES) {
+      if (variable in current && current[variable] !== String(ports[variable])) {
+        updates[variable] = String(ports[variable])
+      }
+    }
+    // Local URLs that point at the old API gateway port follow it
+    if (updates.KONG_HTTP_PORT) {
+      const oldUrl = `http://localhost:${current.KONG_HTTP_PORT}`
+      for (const key of ['SITE_URL', 'API_EXTERNAL_URL', 'SUPABASE_PUBLIC_URL']) {
+        if (current[key] === oldUrl) {
+          updates[key] = `http://localhost:${ports.KONG_HTTP_PORT}`
+        }
+      }
+    }
+
+    const changes = Object.entries(updates).map(([key, value]) => ({ key, from: current[key], to: value }))
+    await setProjectEnvVars(projectId, updates)
+    if (changes.length > 0) {
+      await recordEnvVersion(projectId, 'ports')
+      await writeProjectEnvFile(projectId, project.slug)
+    }
+
+    return { success: true, ports, changes }
+  } catch (error) {
+    console.error('Failed to repair project ports:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+// Publishes the project through the Cloudflare tunnel and stores its public hostname and URL
+export async function publishProject(project: { id: string; name: string; slug: string }) {
+  // Determine internal service URL (port mode by default, proxy mode if INTERNAL_REVERSE_PROXY_URL exists)
+  const varMap = await getProjectEnvVars(project.id)
+  const portStr = varMap['KONG_HTTP_PORT'] || varMap['STUDIO_PORT'] || varMap['POSTGRES_PORT']
+  const port = portStr ? parseInt(portStr, 10) : undefined
+  const internalProxy = process.env.INTERNAL_REVERSE_PROXY_URL && process.env.INTERNAL_REVERSE_PROXY_URL.trim().length > 0
+    ? process.env.INTERNAL_REVERSE_PROXY_URL
+    : undefined
+
+  // Cloudflared integration (DNS + ingress + reload)
+  const exposure = await ensureProjectPublicExposure({
+    projectName: project.name,
+    projectSlug: project.slug,
+    port,
+    internalUrl: internalProxy,
+  })
+
+  // Persist public hostname/url as env vars for UI/records
+  await setProjectEnvVars(project.id, {
+    PUBLIC_HOSTNAME: exposure.hostname,
+    PUBLIC_URL: exposure.publicUrl,
+  })
+  await recordEnvVersion(project.id, 'publish')
+  await writeProjectEnvFile(project.id, project.slug)
+
+  return exposure
+}
+
+export async function deployProject(projectId: string, options: { onLog?: JobLogger } = {}) {
+  const log = (line: string) => {
+    console.log(line)
+    options.onLog?.(line)
+  }
+  let started = false
+  let deploymentId: string | null = null
+  try {
+    const project = await transitionProject(projectId, 'starting')
+    started = true
+    
     const projectDir = path.join(process.cwd(), 'supabase-projects', project.slug, 'docker')
     const composeFile = path.join(projectDir, 'docker-compose.yml')
 
-    // Ensure host port mappings use env vars (idempotent patch for existing projects)
+    // Re-apply the compose transformations (idempotent; upgrades files of older projects)
     try {
-      await patchComposePorts(composeFile)
+      const warnings = await transformComposeFile(composeFile, {
+        slug: project.slug,
+        enabledServices: parseEnabledServices(project.services),
+      })
+      for (const warning of warnings) {
+        log(`Warning: ${warning}`)
+      }
     } catch (e) {
-      console.warn('Could not patch docker-compose.yml ports:', e)
+      console.warn('Could not transform docker-compose.yml:', e)
+      log('Warning: could not transform docker-compose.yml')
     }
     
     // Run pre-flight checks
-    console.log('Running pre-flight checks...')
-    const checks = await checkDockerPrerequisites()
+    const runtime = getContainerRuntime()
+    const compose = composeProject(project.slug)
+    log(`Running pre-flight checks (${runtime.label})...`)
+    const checks = await checkRuntimePrerequisites()
+    
+    if (!checks.engine) {
+      throw new Error(runtime.name === 'podman'
+        ? 'Podman is not installed. Please install Podman 4.7 or later before deploying.'
+        : 'Docker is not installed or not running. Please install Docker Desktop and ensure it is started before deploying.')
+    }
     
-    if (!checks.docker) {
-      throw new Error('Docker is not installed or not running. Please install Docker Desktop and ensure it is started before deploying.')
+    if (!checks.compose) {
+      throw new Error(runtime.name === 'podman'
+        ? 'podman compose is not available. Please install docker-compose or podman-compose as its provider.'
+        : 'Docker Compose is not available. Please ensure Docker Desktop includes Docker Compose or install it separately.')
     }
     
-    if (!checks.dockerCompose) {
-      throw new Error('Docker Compose is not available. Please ensure Docker Desktop includes Docker Compose or install it separately.')
+    // Hand edits to .env are deployed as they are, but the next configuration save overwrites them
+    const drift = await getEnvFileDrift(projectId)
+    if (drift?.missingFile) {
+      log('Warning: .env is missing; writing it from the stored env vars')
+      await writeProjectEnvFile(projectId, project.slug)
+    } else if (drift) {
+      const keys = [...drift.added, ...drift.removed, ...drift.changed]
+      log(`Warning: .env was edited by hand and differs from the stored env vars in ${keys.join(', ')}`)
     }
+
+    // Snapshot what is about to go live, so a failure can return to the last good deployment
+    const deployment = await createDeploymentSnapshot(projectId)
+    deploymentId = deployment.id
+    log(`Deployment #${deployment.number}`)
     
     // Try to run Docker commands with better error handling
     try {
       // Only pull images if we have internet connectivity
       if (checks.internetConnection) {
-        console.log('Attempting to pull latest Docker images...')
+        log('Attempting to pull latest Docker images...')
         try {
-          await execAsync('docker compose pull', { 
-            cwd: projectDir, 
+          await runtime.pull(compose, {
             timeout: 300000, // 5 minute timeout
-            maxBuffer: 1024 * 1024 * 10 // 10MB buffer
+            onOutput: options.onLog,
           })
         } catch (pullError) {
           console.warn('Failed to pull some images, will try to use existing/cached images:', pullError)
+          log('Warning: failed to pull some images, will try to use existing/cached images')
           // Continue with deployment even if pull fails
         }
       } else {
-        console.warn('No internet connectivity detected, using cached Docker images')
+        log('Warning: no internet connectivity detected, using cached Docker images')
       }
       
       // Start the services
-      console.log('Starting Supabase services...')
-      await execAsync('docker compose up -d --remove-orphans', { 
-        cwd: projectDir, 
+      log('Starting Supabase services...')
+      await runtime.up(compose, {
+        removeOrphans: true,
         timeout: 300000, // 5 minute timeout
-        maxBuffer: 1024 * 1024 * 10 // 10MB buffer
+        onOutput: options.onLog,
       })
       
     } catch (composeError) {
       // If the main docker compose command fails, provide better error message
       const errorMessage = composeError instanceof Error ? composeError.message : 'Unknown Docker error'
       
-      if (errorMessage.includes('maxBuffer length exceeded')) {
-        throw new Error('Docker deployment generated too much output. This usually means the deployment is working but Docker is downloading many large images. Please wait a few more minutes and check Docker Desktop to see if containers are starting. You can also try running "docker compose up -d" manually in the project directory.')
-      } else if (errorMessage.includes('no such host') || errorMessage.includes('dial tcp')) {
+      if (errorMessage.includes('no such host') || errorMessage.includes('dial tcp')) {
         throw new Error('Network connectivity issue: Unable to reach Docker registry. This might be due to:\n\n1. Internet connection issues\n2. Corporate firewall blocking Docker registry\n3. DNS resolution problems\n\nSolution: Try running "docker pull supabase/postgres" manually to test connectivity, or work with your IT team to allow access to Docker Hub.')
       } else if (errorMessage.includes('permission denied')) {
         throw new Error('Docker permission denied. Please ensure:\n\n1. Docker Desktop is running\n2. Your user is in the "docker" group (Linux/Mac)\n3. You have administrator privileges (Windows)')
@@ -450,67 +736,59 @@ export async function deployProject(projectId: string) {
       }
     }
     
-    // Verify that containers are running
-    try {
-      const { stdout } = await execAsync('docker compose ps --format json', { 
-        cwd: projectDir,
-        maxBuffer: 1024 * 1024 * 2 // 2MB buffer for container status
+    // Verify that every service came up healthy
+    await waitForHealthyStack(project, log)
+
+    // Seed SQL from the project's template runs once, after the first healthy start
+    if (project.seedSql) {
+      log('Running seed SQL...')
+      try {
+        await runSql(project.slug, project.seedSql, { timeout: 300000 })
+      } catch (seedError) {
+        throw new Error(`Seed SQL failed: ${seedError instanceof Error ? seedError.message : 'Unknown error'}`)
+      }
+      await prisma.project.update({
+        where: { id: projectId },
+        data: { seedSql: null },
       })
-      const containers = JSON.parse(`[${stdout.trim().split('\n').join(',')}]`)
-      const runningContainers = containers.filter((c: { State: string }) => c.State === 'running')
-      console.log(`Deployment successful: ${runningContainers.length} containers running`)
-    } catch {
-      console.warn('Could not verify container status, but deployment may have succeeded')
+      log('Seed SQL applied')
     }
 
-    // Determine internal service URL (port mode by default, proxy mode if INTERNAL_REVERSE_PROXY_URL exists)
-    const envVars = await prisma.projectEnvVar.findMany({
-      where: { projectId },
-    })
-    const varMap = Object.fromEntries(envVars.map(v => [v.key, v.value]))
-    const portStr = varMap['KONG_HTTP_PORT'] || varMap['STUDIO_PORT'] || varMap['POSTGRES_PORT']
-    const port = portStr ? parseInt(portStr, 10) : undefined
-    const internalProxy = process.env.INTERNAL_REVERSE_PROXY_URL && process.env.INTERNAL_REVERSE_PROXY_URL.trim().length > 0
-      ? process.env.INTERNAL_REVERSE_PROXY_URL
-      : undefined
-
-    // Cloudflared integration (DNS + ingress + reload)
-    const exposure = await ensureProjectPublicExposure({
-      projectName: project.name,
-      projectSlug: project.slug,
-      port,
-      internalUrl: internalProxy,
-    })
-
-    // Persist public hostname/url as env vars for UI/records
-    await prisma.projectEnvVar.upsert({
-      where: { projectId_key: { projectId, key: 'PUBLIC_HOSTNAME' } },
-      update: { value: exposure.hostname },
-      create: { projectId, key: 'PUBLIC_HOSTNAME', value: exposure.hostname },
-    })
-    await prisma.projectEnvVar.upsert({
-      where: { projectId_key: { projectId, key: 'PUBLIC_URL' } },
-      update: { value: exposure.publicUrl },
-      create: { projectId, key: 'PUBLIC_URL', value: exposure.publicUrl },
-    })
+    log('Publishing project through Cloudflare tunnel...')
+    const exposure = await publishProject(project)
     
     // Update project status
-    await prisma.project.update({
-      where: { id: projectId },
-      data: { status: 'active' },
-    })
+    await finishDeployment(deployment.id, 'succeeded')
+    await transitionProject(projectId, 'active')
     
     // Log public URL
-    console.log(`Public URL for project ${project.slug}: ${exposure.publicUrl}`)
+    log(`Public URL for project ${project.slug}: ${exposure.publicUrl}`)
     
     return { success: true, publicUrl: exposure.publicUrl }
   } catch (error) {
     console.error('Failed to deploy project:', error)
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    let rolledBack = false
+    if (deploymentId) {
+      try {
+        rolledBack = await rollbackFailedDeploy(projectId, deploymentId, message, log)
+      } catch (rollbackError) {
+        console.error('Failed to roll back deployment:', rollbackError)
+      }
+    }
+    if (started && !rolledBack) {
+      await markProjectFailed(projectId, error)
+    }
+    return {
+      success: false,
+      error: rolledBack ? `${message}\n\nRolled back to the last successful deployment.` : message,
+      code: error instanceof InvalidTransitionError ? 'invalid_transition' : undefined,
+    }
   }
 }
 
-export async function pauseProject(projectId: string) {
+// Runs deployProject as a background job; if a deploy is already running, returns that job instead
+export async function queueDeployProject(projectId: string) {
   try {
     const project = await prisma.project.findUnique({
       where: { id: projectId },
@@ -520,25 +798,72 @@ export async function pauseProject(projectId: string) {
       throw new Error('Project not found')
     }
     
-    const projectDir = path.join(process.cwd(), 'supabase-projects', project.slug, 'docker')
+    const active = await getActiveJob(projectId, 'deploy')
+    if (active) {
+      return { success: true, job: active }
+    }
     
-    // Stop Docker containers
-    await execAsync('docker compose stop', { cwd: projectDir })
+    if (!canTransition(project.status, 'starting')) {
+      throw new InvalidTransitionError(project.status, 'starting')
+    }
     
-    // Update project status
-    await prisma.project.update({
+    const job = await startJob(projectId, 'deploy', (log) => deployProject(projectId, { onLog: log }))
+    return { success: true, job }
+  } catch (error) {
+    console.error('Failed to queue deployment:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof InvalidTransitionError ? 'invalid_transition' : undefined,
+    }
+  }
+}
+
+async function markProjectFailed(projectId: string, error: unknown) {
+  try {
+    await transitionProject(projectId, 'failed', error instanceof Error ? error.message : undefined)
+  } catch (e) {
+    console.warn('Could not mark project as failed:', e)
+  }
+}
+
+export async function startProject(projectId: string) {
+  let started = false
+  try {
+    const project = await prisma.project.findUnique({
       where: { id: projectId },
-      data: { status: 'paused' },
     })
     
-    return { success: true }
+    if (!project) {
+      throw new Error('Project not found')
+    }
+    
+    assertCanPerform(project.status, 'start')
+    await transitionProject(projectId, 'starting')
+    started = true
+    
+    // Bring containers back up without pulling images or touching Cloudflare
+    await getContainerRuntime().up(composeProject(project.slug), {
+      timeout: 300000, // 5 minute timeout
+    })
+    
+    const updated = await transitionProject(projectId, 'active')
+    return { success: true, status: updated.status, actions: availableActions(updated.status) }
   } catch (error) {
-    console.error('Failed to pause project:', error)
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    console.error('Failed to start project:', error)
+    if (started) {
+      await markProjectFailed(projectId, error)
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof InvalidTransitionError ? 'invalid_transition' : undefined,
+    }
   }
 }
 
-export async function deleteProject(projectId: string) {
+export async function stopProject(projectId: string) {
+  let stopping = false
   try {
     const project = await prisma.project.findUnique({
       where: { id: projectId },
@@ -548,16 +873,78 @@ export async function deleteProject(projectId: string) {
       throw new Error('Project not found')
     }
     
+    assertCanPerform(project.status, 'stop')
+    await transitionProject(projectId, 'stopping')
+    stopping = true
+    
+    // Stop the containers
+    await getContainerRuntime().stop(composeProject(project.slug), {
+      timeout: 120000, // 2 minutes timeout
+    })
+    
+    const updated = await transitionProject(projectId, 'paused')
+    return { success: true, status: updated.status, actions: availableActions(updated.status) }
+  } catch (error) {
+    console.error('Failed to stop project:', error)
+    if (stopping) {
+      await markProjectFailed(projectId, error)
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof InvalidTransitionError ? 'invalid_transition' : undefined,
+    }
+  }
+}
+
+export async function restartProject(projectId: string) {
+  let started = false
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    })
+    
+    if (!project) {
+      throw new Error('Project not found')
+    }
+    
+    assertCanPerform(project.status, 'restart')
+    await transitionProject(projectId, 'starting')
+    started = true
+    
+    await getContainerRuntime().restart(composeProject(project.slug), {
+      timeout: 300000, // 5 minute timeout
+    })
+    
+    const updated = await transitionProject(projectId, 'active')
+    return { success: true, status: updated.status, actions: availableActions(updated.status) }
+  } catch (error) {
+    console.error('Failed to restart project:', error)
+    if (started) {
+      await markProjectFailed(projectId, error)
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof InvalidTransitionError ? 'invalid_transition' : undefined,
+    }
+  }
+}
+
+export async function deleteProject(projectId: string) {
+  let deleting = false
+  try {
+    const project = await transitionProject(projectId, 'deleting')
+    deleting = true
+    
     const projectDir = path.join(process.cwd(), 'supabase-projects', project.slug)
-    const dockerDir = path.join(projectDir, 'docker')
     
-    // Step 1: Stop and remove Docker containers
+    // Step 1: Stop and remove containers
     try {
-      console.log(`Stopping Docker containers for project ${project.slug}...`)
-      await execAsync('docker compose down --volumes --remove-orphans', { 
-        cwd: dockerDir,
+      console.log(`Stopping containers for project ${project.slug}...`)
+      await getContainerRuntime().down(composeProject(project.slug), {
+        volumes: true,
         timeout: 120000, // 2 minutes timeout
-        maxBuffer: 1024 * 1024 * 5 // 5MB buffer
       })
     } catch (dockerError) {
       console.warn('Failed to stop Docker containers (they may not be running):', dockerError)
@@ -588,9 +975,10 @@ export async function deleteProject(projectId: string) {
     // Step 4: Clean up database records
     try {
       // Delete project environment variables
-      await prisma.projectEnvVar.deleteMany({
-        where: { projectId },
-      })
+      await deleteProjectEnvVars(projectId)
+      
+      // Free the project's port block
+      await releaseProjectPorts(projectId)
       
       // Delete the project itself
       await prisma.project.delete({
@@ -605,6 +993,13 @@ export async function deleteProject(projectId: string) {
     return { success: true }
   } catch (error) {
     console.error('Failed to delete project:', error)
-    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+    if (deleting) {
+      await markProjectFailed(projectId, error)
+    }
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof InvalidTransitionError ? 'invalid_transition' : undefined,
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,178 @@
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { prisma } from './db'
+import { SUPABASE_SERVICES, parseEnabledServices } from './supabase-services'
+import { getContainerRuntime, composeProject, type ComposeContainer } from './runtime'
+import { transitionProject, recordStatusEvent } from './lifecycle'
+
+const DEFAULT_INTERVAL_MS = 30 * 1000
+
+export const RUNTIME_STATUSES = ['running', 'degraded', 'stopped', 'missing'] as const
+
+export type RuntimeStatus = typeof RUNTIME_STATUSES[number]
+
+// Projects in these states are being changed by a request or job; their containers are expected to be in flux
+const SETTLING_STATES = ['provisioning', 'starting', 'stopping', 'deleting']
+
+// Derives the stack's real state from its containers:
+// running - every enabled service has a running, not unhealthy container
+// degraded - some services are running, others exited, restarting, unhealthy or absent
+// stopped - containers exist but none is running
+// missing - no containers at all
+export function deriveRuntimeStatus(enabledServices: string[], containers: ComposeContainer[]) {
+  if (containers.length === 0) {
+    return { status: 'missing' as RuntimeStatus, reason: 'No containers found' }
+  }
+
+  const problems: string[] = []
+  let running = 0
+  for (const service of SUPABASE_SERVICES.filter((s) => enabledServices.includes(s.key))) {
+    const container = containers.find((c) => c.service === service.composeService)
+    if (!container) {
+      problems.push(`${service.key} (missing)`)
+    } else if (container.state !== 'running') {
+      problems.push(`${service.key} (${container.state})`)
+    } else if (container.health === 'unhealthy') {
+      running++
+      problems.push(`${service.key} (unhealthy)`)
+    } else {
+      running++
+    }
+  }
+
+  if (problems.length === 0) {
+    return { status: 'running' as RuntimeStatus, reason: null }
+  }
+  return {
+    status: (running === 0 ? 'stopped' : 'degraded') as RuntimeStatus,
+    reason: `Not running: ${problems.join(', ')}`,
+  }
+}
+
+// Inspects one project's stack and stores what it found. Returns null when the project was skipped.
+export async function reconcileProject(projectId: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+  })
+  // Trashed projects are stopped on purpose and wait for restore or purge
+  if (!project || SETTLING_STATES.includes(project.status) || project.status === 'trashed') return null
+
+  const compose = composeProject(project.slug)
+  const hasCompose = await fs.access(path.join(compose.dir, 'docker-compose.yml')).then(() => true).catch(() => false)
+
+  let observed: { status: RuntimeStatus; reason: string | null }
+  if (!hasCompose) {
+    observed = { status: 'missing', reason: 'docker-compose.yml not found' }
+  } else {
+    // An unreachable engine says nothing about the project, so the error propagates and the project is skipped
+    const containers = await getContainerRuntime().ps(compose)
+    observed = deriveRuntimeStatus(parseEnabledServices(project.services), containers)
+  }
+
+  await prisma.project.update({
+    where: { id: projectId },
+    data: { runtimeStatus: observed.status, runtimeCheckedAt: new Date() },
+  })
+
+  if (observed.status !== project.runtimeStatus) {
+    await recordStatusEvent(projectId, 'runtime', project.runtimeStatus, observed.status, observed.reason ?? undefined)
+  }
+
+  // An active project whose stack went away has failed; paused and failed projects are left to the user
+  if (project.status === 'active' && (observed.status === 'stopped' || observed.status === 'missing')) {
+    try {
+      // Only from 'active': a deploy, start or stop that began during the ps owns the project now
+      await transitionProject(projectId, 'failed', `Containers ${observed.status}: ${observed.reason}`, 'active')
+    } catch (e) {
+      // A request changed the status in the meantime; the next pass will look again
+      console.warn(`Could not mark project ${project.slug} as failed:`, e instanceof Error ? e.message : e)
+    }
+  }
+
+  return observed
+}
+
+export async function reconcileProjects() {
+  const projects = await prisma.project.findMany({
+    select: { id: true, slug: true },
+  })
+
+  let checked = 0
+  for (const project of projects) {
+    try {
+      if (await reconcileProject(project.id)) checked++
+    } catch (e) {
+      console.warn(`Status reconciliation failed for ${project.slug}:`, e instanceof Error ? e.message : e)
+    }
+  }
+  return checked
+}
+
+export async function getProjectStatusHistory(projectId: string, limit = 100) {
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+
+    const events = await prisma.projectStatusEvent.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'desc' },
+      take: Math.min(Math.max(limit, 1), 500),
+    })
+
+    return {
+      success: true,
+      status: project.status,
+      runtimeStatus: project.runtimeStatus,
+      runtimeCheckedAt: project.runtimeCheckedAt,
+      events,
+    }
+  } catch (error) {
+    console.error('Failed to get project status history:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+// Runs one reconciliation pass for a project outside the schedule, e.g. from the dashboard
+export async function checkProjectStatus(projectId: string) {
+  try {
+    const observed = await reconcileProject(projectId)
+    if (!observed) {
+      throw new Error('The project is changing state; try again once it settles')
+    }
+
+    return { success: true, runtimeStatus: observed.status, reason: observed.reason }
+  } catch (error) {
+    console.error('Failed to check project status:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+const globalForReconciler = globalThis as unknown as {
+  statusReconciler: NodeJS.Timeout | undefined
+}
+
+// Starts the periodic reconciler once per server process. Disabled with RECONCILER_ENABLED=false.
+export function startStatusReconciler() {
+  if (globalForReconciler.statusReconciler || process.env.RECONCILER_ENABLED === 'false') return
+
+  const interval = parseInt(process.env.RECONCILER_INTERVAL_MS || '', 10) || DEFAULT_INTERVAL_MS
+
+  let running = false
+  globalForReconciler.statusReconciler = setInterval(() => {
+    // A slow engine can make a pass outlast the interval; never run two at once
+    if (running) return
+    running = true
+    reconcileProjects()
+      .catch((e) => console.warn('Status reconciliation failed:', e instanceof Error ? e.message : e))
+      .finally(() => {
+        running = false
+      })
+  }, interval)
+
+  console.log(`Status reconciler started (every ${Math.round(interval / 1000)}s)`)
+}
@@ -0,0 +1,285 @@
+import { prisma } from './db'
+import { transitionProject, canTransition, InvalidTransitionError } from './lifecycle'
+import { startJob, getActiveJob, type JobLogger } from './jobs'
+import { getContainerRuntime, composeProject } from './runtime'
+import { writeProjectEnvFile } from './project'
+import { runSql } from './pg'
+import { generateProjectSecrets } from './keys'
+import { getProjectEnvVars, setProjectEnvVars, recordEnvVersion } from './env-vars'
+import { findService, parseEnabledServices } from './supabase-services'
+import { createDeploymentSnapshot, finishDeployment, waitForHealthyStack } from './deployments'
+
+export type SecretClassKey = 'jwt' | 'postgres' | 'dashboard' | 'logflare' | 'vault'
+
+export interface SecretClass {
+  key: SecretClassKey
+  label: string
+  envKeys: string[]
+  services: string[] // service keys whose containers read these values
+  impact: string
+}
+
+// Which env vars each rotation regenerates and which containers must be recreated to pick them up
+export const SECRET_CLASSES: SecretClass[] = [
+  {
+    key: 'jwt',
+    label: 'JWT secret and API keys',
+    envKeys: ['JWT_SECRET', 'ANON_KEY', 'SERVICE_ROLE_KEY'],
+    services: ['studio', 'kong', 'auth', 'rest', 'realtime', 'storage', 'functions', 'pooler'],
+    impact: 'Clients need the new anon and service role keys, and every signed-in user is signed out.',
+  },
+  {
+    key: 'postgres',
+    label: 'Postgres password',
+    envKeys: ['POSTGRES_PASSWORD'],
+    services: ['db', 'studio', 'auth', 'rest', 'realtime', 'storage', 'meta', 'functions', 'analytics', 'pooler'],
+    impact: 'Direct database and pooler connections need the new password. Most services restart, and the pooler tenant is recreated.',
+  },
+  {
+    key: 'dashboard',
+    label: 'Dashboard password',
+    envKeys: ['DASHBOARD_PASSWORD'],
+    services: ['kong'],
+    impact: 'Studio asks for the new password.',
+  },
+  {
+    key: 'logflare',
+    label: 'Logflare tokens',
+    envKeys: ['LOGFLARE_PUBLIC_ACCESS_TOKEN', 'LOGFLARE_PRIVATE_ACCESS_TOKEN'],
+    services: ['analytics', 'vector', 'studio'],
+    impact: 'Log shipping pauses while analytics restarts.',
+  },
+  {
+    key: 'vault',
+    label: 'Vault encryption key',
+    envKeys: ['VAULT_ENC_KEY'],
+    services: ['pooler'],
+    impact: "The pooler's tenant is recreated from the project's settings; pooled connections drop.",
+  },
+]
+
+// Roles the Supabase image gives POSTGRES_PASSWORD; missing ones are skipped
+const PASSWORD_ROLES = [
+  'postgres',
+  'supabase_admin',
+  'authenticator',
+  'pgbouncer',
+  'supabase_auth_admin',
+  'supabase_functions_admin',
+  'supabase_storage_admin',
+]
+
+export function findSecretClass(key: string) {
+  return SECRET_CLASSES.find((secretClass) => secretClass.key === key)
+}
+
+function sqlLiteral(value: string) {
+  return `'${value.replace(/'/g, "''")}'`
+}
+
+interface SqlStep {
+  sql: string
+  database?: string
+  optional?: boolean // failures are logged as warnings
+}
+
+// Supavisor stores its tenant, including the database password, encrypted with VAULT_ENC_KEY.
+// pooler.exs recreates a missing tenant from the current env when the pooler starts.
+function resetPoolerTenant(envVars: Record<string, string>): SqlStep {
+  return {
+    database: '_supabase',
+    optional: true,
+    sql: `DO $$
+BEGIN
+  IF to_regclass('_supavisor.tenants') IS NOT NULL THEN
+    DELETE FROM _supavisor.tenants WHERE external_id = ${sqlLiteral(envVars.POOLER_TENANT_ID || '')};
+  END IF;
+END $$;`,
+  }
+}
+
+// Database changes that must land before the services get the new values
+function rotationSql(secretClass: SecretClassKey, values: Record<string, string>, envVars: Record<string, string>): SqlStep[] {
+  switch (secretClass) {
+    case 'jwt':
+      return [{ sql: `ALTER DATABASE postgres SET "app.settings.jwt_secret" TO ${sqlLiteral(values.JWT_SECRET)};` }]
+    case 'postgres':
+      // The tenant goes first, while the old password still works
+      return [resetPoolerTenant(envVars), {
+        sql: `DO $$
+DECLARE r text;
+BEGIN
+  FOREACH r IN ARRAY ARRAY[${PASSWORD_ROLES.map(sqlLiteral).join(', ')}] LOOP
+    IF EXISTS (SELECT 1 FROM pg_roles WHERE rolname = r) THEN
+      EXECUTE format('ALTER ROLE %I WITH PASSWORD %L', r, ${sqlLiteral(values.POSTGRES_PASSWORD)});
+    END IF;
+  END LOOP;
+END $$;`,
+      }]
+    case 'vault':
+      return [resetPoolerTenant(envVars)]
+    default:
+      return []
+  }
+}
+
+async function runRotation(projectId: string, rotationId: string, secretClass: SecretClass, userId: string, log: JobLogger) {
+  let started = false
+  let databaseChanged = false
+  let saved = false
+  try {
+    const project = await transitionProject(projectId, 'starting', `Rotating ${secretClass.label}`)
+    started = true
+
+    const envVars = await getProjectEnvVars(projectId)
+
+    const generated: Record<string, string> = generateProjectSecrets()
+    const values: Record<string, string> = {}
+    for (const key of secretClass.envKeys) {
+      values[key] = generated[key]
+    }
+
+    for (const step of rotationSql(secretClass.key, values, envVars)) {
+      log(`Applying the new value to the ${step.database ?? 'postgres'} database...`)
+      try {
+        await runSql(project.slug, step.sql, { timeout: 60000, database: step.database })
+        databaseChanged = databaseChanged || !step.optional
+      } catch (sqlError) {
+        if (!step.optional) throw sqlError
+        log(`Warning: ${sqlError instanceof Error ? sqlError.message : 'the database change failed'}`)
+      }
+    }
+
+    log(`Saving ${secretClass.envKeys.join(', ')}...`)
+    await setProjectEnvVars(projectId, values)
+    await recordEnvVersion(projectId, 'rotation', { userId })
+    await writeProjectEnvFile(projectId, project.slug)
+    saved = true
+
+    const enabled = parseEnabledServices(project.services)
+    const services = secretClass.services
+      .filter((key) => key === 'db' || enabled.includes(key))
+      .map((key) => findService(key)?.composeService)
+      .filter((service): service is string => !!service)
+    await prisma.secretRotation.update({
+      where: { id: rotationId },
+      data: { services: JSON.stringify(services) },
+    })
+
+    log(`Recreating ${services.join(', ')}...`)
+    await getContainerRuntime().up(composeProject(project.slug), {
+      services,
+      forceRecreate: true,
+      noDeps: true,
+      timeout: 300000, // 5 minute timeout
+      onOutput: log,
+    })
+    await waitForHealthyStack(project, log)
+
+    // The rotated values become the last known-good configuration, so a later rollback keeps them
+    const snapshot = await createDeploymentSnapshot(projectId, { trigger: 'rotation' })
+    await finishDeployment(snapshot.id, 'succeeded')
+
+    await prisma.secretRotation.update({
+      where: { id: rotationId },
+      data: { status: 'succeeded', finishedAt: new Date() },
+    })
+    await transitionProject(projectId, 'active', `Rotated ${secretClass.label}`)
+    log(`Rotated ${secretClass.label}`)
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to rotate secrets:', error)
+    let message = error instanceof Error ? error.message : 'Unknown error'
+    if (saved) {
+      message += '\nThe new values are saved; deploy the project to bring every service up with them.'
+    } else if (databaseChanged) {
+      message += '\nThe database already uses the new value, but it was not saved in the project settings.'
+    }
+    await prisma.secretRotation.update({
+      where: { id: rotationId },
+      data: { status: 'failed', error: message.slice(0, 2000), finishedAt: new Date() },
+    })
+    if (started) {
+      try {
+        await transitionProject(projectId, 'failed', `Secret rotation failed: ${message}`)
+      } catch (e) {
+        console.warn('Could not mark project as failed:', e)
+      }
+    }
+    return { success: false, error: message }
+  }
+}
+
+// Rotates one class of secrets as a background job. The project must be active: database-side
+// changes need the db container, and the affected services are recreated with the new values.
+export async function queueSecretRotation(projectId: string, secretClassKey: string, userId: string) {
+  try {
+    const secretClass = findSecretClass(secretClassKey)
+    if (!secretClass) {
+      throw new Error(`Unknown secret class: ${secretClassKey}`)
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+
+    if (await getActiveJob(projectId, 'rotate')) {
+      throw new Error('A secret rotation is already running')
+    }
+
+    if (project.status !== 'active' || !canTransition(project.status, 'starting')) {
+      throw new InvalidTransitionError(project.status, 'starting')
+    }
+
+    const rotation = await prisma.secretRotation.create({
+      data: {
+        projectId,
+        userId,
+        secretClass: secretClass.key,
+        keys: JSON.stringify(secretClass.envKeys),
+        services: JSON.stringify([]),
+      },
+    })
+
+    const job = await startJob(projectId, 'rotate', (log) => runRotation(projectId, rotation.id, secretClass, userId, log))
+    return { success: true, job, rotation }
+  } catch (error) {
+    console.error('Failed to queue secret rotation:', error)
+    return {
+      success: false,
+      error: error instanceof InvalidTransitionError
+        ? `Secrets can only be rotated while the project is active (it is ${error.from})`
+        : error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof InvalidTransitionError ? 'invalid_transition' : undefined,
+    }
+  }
+}
+
+export async function listSecretRotations(projectId: string) {
+  const rotations: {
+    id: string
+    secretClass: string
+    status: string
+    keys: string
+    services: string
+    error: string | null
+    createdAt: Date
+    finishedAt: Date | null
+    user: { name: string | null; email: string } | null
+  }[] = await prisma.secretRotation.findMany({
+    where: { projectId },
+    orderBy: { createdAt: 'desc' },
+    take: 50,
+    include: { user: { select: { name: true, email: true } } },
+  })
+
+  return rotations.map((rotation) => ({
+    ...rotation,
+    keys: JSON.parse(rotation.keys) as string[],
+    services: JSON.parse(rotation.services) as string[],
+  }))
+}
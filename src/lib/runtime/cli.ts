@@ -0,0 +1,330 @@
+import { spawn } from 'child_process'
+import type {
+  ComposeContainer,
+  ComposeProject,
+  ContainerDetails,
+  ContainerRuntime,
+  ContainerStats,
+  ExecResult,
+  RuntimeChecks,
+} from './types'
+
+// Shared driver for engines with a Docker compatible CLI (docker, podman)
+
+interface SpawnOptions {
+  cwd?: string
+  timeout?: number
+  onLine?: (line: string) => void // called for every line of stdout and stderr
+  capture?: boolean // collect stdout
+  stdin?: string | NodeJS.ReadableStream
+  stdout?: NodeJS.WritableStream
+  signal?: AbortSignal
+  allowFailure?: boolean // resolve with the exit code instead of rejecting
+}
+
+function spawnCommand(command: string, args: string[], options: SpawnOptions = {}) {
+  return new Promise<ExecResult>((resolve, reject) => {
+    const child = spawn(command, args, { cwd: options.cwd })
+    const commandLine = [command, ...args].join(' ')
+    // Keep the tail of the output so failures still carry the engine's error message
+    let tail = ''
+    let stdout = ''
+    let stderr = ''
+    const partial: Record<'stdout' | 'stderr', string> = { stdout: '', stderr: '' }
+    let settled = false
+
+    const finish = (fn: () => void) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      options.signal?.removeEventListener('abort', abort)
+      fn()
+    }
+
+    const timer = options.timeout
+      ? setTimeout(() => {
+          child.kill()
+          finish(() => reject(new Error(`Command timed out: ${commandLine}`)))
+        }, options.timeout)
+      : undefined
+
+    const abort = () => child.kill()
+    options.signal?.addEventListener('abort', abort)
+
+    const handle = (stream: 'stdout' | 'stderr') => (chunk: Buffer) => {
+      const text = chunk.toString()
+      tail = (tail + text).slice(-4000)
+      if (stream === 'stdout' && options.capture) stdout += text
+      if (stream === 'stderr') stderr = (stderr + text).slice(-10000)
+      if (!options.onLine) return
+      const lines = (partial[stream] + text).split(/\r?\n|\r/)
+      partial[stream] = lines.pop() ?? ''
+      for (const line of lines) {
+        if (line.trim()) options.onLine(line)
+      }
+    }
+
+    if (options.stdout) {
+      child.stdout.pipe(options.stdout, { end: false })
+    } else {
+      child.stdout.on('data', handle('stdout'))
+    }
+    child.stderr.on('data', handle('stderr'))
+
+    if (typeof options.stdin === 'string') {
+      child.stdin.end(options.stdin)
+    } else if (options.stdin) {
+      options.stdin.pipe(child.stdin)
+    } else {
+      child.stdin.end()
+    }
+    // The command may exit before reading all of its input
+    child.stdin.on('error', () => {})
+
+    child.on('error', (error) => finish(() => reject(error)))
+    child.on('close', (code) => {
+      for (const rest of Object.values(partial)) {
+        if (rest.trim()) options.onLine?.(rest)
+      }
+      const exitCode = code ?? 1
+      if (exitCode === 0 || options.allowFailure || options.signal?.aborted) {
+        finish(() => resolve({ exitCode, stdout, stderr }))
+      } else {
+        finish(() => reject(new Error(`${commandLine} exited with code ${exitCode}: ${tail.trim()}`)))
+      }
+    })
+  })
+}
+
+// compose prints either a JSON array or one JSON object per line depending on its version
+export function parseJsonOutput<T>(stdout: string): T[] {
+  const trimmed = stdout.trim()
+  if (!trimmed) return []
+  if (trimmed.startsWith('[')) return JSON.parse(trimmed)
+  return trimmed.split('\n').filter((line) => line.trim()).map((line) => JSON.parse(line))
+}
+
+// `docker compose ps` output; the podman-compose provider prints `podman ps` entries instead
+interface PsEntry {
+  Name?: string
+  Names?: string[] | string
+  Service?: string
+  State?: string
+  Health?: string
+  Status?: string
+  Labels?: Record<string, string> | string
+  Publishers?: Array<{ TargetPort: number; PublishedPort: number; Protocol: string }>
+  Ports?: Array<{ host_port?: number; container_port?: number; protocol?: string }> | string
+}
+
+function labelsOf(entry: PsEntry): Record<string, string> {
+  if (entry.Labels && typeof entry.Labels === 'object') return entry.Labels
+  const labels: Record<string, string> = {}
+  for (const pair of (entry.Labels || '').split(',')) {
+    const [key, ...value] = pair.split('=')
+    if (key) labels[key] = value.join('=')
+  }
+  return labels
+}
+
+function normalizePsEntry(entry: PsEntry): ComposeContainer {
+  const labels = labelsOf(entry)
+  const name = entry.Name || (Array.isArray(entry.Names) ? entry.Names[0] : entry.Names) || ''
+  const health = entry.Health || entry.Status?.match(/\((healthy|unhealthy|starting)\)/)?.[1] || null
+  const ports = entry.Publishers
+    ? entry.Publishers
+        .filter((p) => p.PublishedPort > 0)
+        .map((p) => ({ hostPort: p.PublishedPort, containerPort: p.TargetPort, protocol: p.Protocol }))
+    : Array.isArray(entry.Ports)
+      ? entry.Ports
+          .filter((p) => p.host_port && p.container_port)
+          .map((p) => ({ hostPort: p.host_port!, containerPort: p.container_port!, protocol: p.protocol || 'tcp' }))
+      : []
+
+  return {
+    name,
+    service: entry.Service || labels['com.docker.compose.service'] || labels['io.podman.compose.service'] || '',
+    state: (entry.State || '').toLowerCase(),
+    health,
+    ports,
+  }
+}
+
+interface InspectEntry {
+  Name: string
+  RestartCount?: number
+  State?: {
+    Running?: boolean
+    StartedAt?: string
+    Health?: { Status: string }
+    Healthcheck?: { Status: string } // podman
+  }
+}
+
+function normalizeInspectEntry(entry: InspectEntry): ContainerDetails {
+  const health = entry.State?.Health?.Status || entry.State?.Healthcheck?.Status || null
+  return {
+    name: entry.Name.replace(/^\//, ''),
+    restartCount: entry.RestartCount ?? 0,
+    startedAt: entry.State?.Running && entry.State.StartedAt ? entry.State.StartedAt : null,
+    health,
+  }
+}
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1e3,
+  mb: 1e6,
+  gb: 1e9,
+  tb: 1e12,
+  kib: 1024,
+  mib: 1024 ** 2,
+  gib: 1024 ** 3,
+  tib: 1024 ** 4,
+}
+
+// Parses human readable sizes such as "12.5MiB" or "3.2kB"
+function parseSize(value: string): number {
+  const match = value.trim().match(/^([\d.]+)\s*([a-zA-Z]*)$/)
+  if (!match) return 0
+  const unit = (match[2] || 'b').toLowerCase()
+  return parseFloat(match[1]) * (SIZE_UNITS[unit] ?? 1)
+}
+
+function parsePair(value: string): [number, number] {
+  const [first = '0', second = '0'] = value.split('/')
+  return [parseSize(first), parseSize(second)]
+}
+
+// Both engines understand this template; their `{{json .}}` output differs
+const STATS_FORMAT = '{{.Name}}\t{{.CPUPerc}}\t{{.MemUsage}}\t{{.NetIO}}\t{{.BlockIO}}'
+
+function parseStatsLine(line: string): ContainerStats | null {
+  const [name, cpu, mem, net, block] = line.split('\t')
+  if (!name || mem === undefined) return null
+  const [memoryBytes, memoryLimitBytes] = parsePair(mem)
+  const [netRxBytes, netTxBytes] = parsePair(net || '')
+  const [blockReadBytes, blockWriteBytes] = parsePair(block || '')
+  return {
+    name,
+    cpuPercent: parseFloat(cpu) || 0,
+    memoryBytes,
+    memoryLimitBytes,
+    netRxBytes,
+    netTxBytes,
+    blockReadBytes,
+    blockWriteBytes,
+  }
+}
+
+export function createCliRuntime(config: { name: string; label: string; binary: string }): ContainerRuntime {
+  const { binary } = config
+
+  const compose = (project: ComposeProject, args: string[], options: Omit<SpawnOptions, 'cwd'> = {}) =>
+    spawnCommand(binary, ['compose', '--project-name', project.name, ...args], { ...options, cwd: project.dir })
+
+  const succeeds = async (args: string[]) => {
+    try {
+      const { exitCode } = await spawnCommand(binary, args, { timeout: 30000, allowFailure: true })
+      return exitCode === 0
+    } catch {
+      return false
+    }
+  }
+
+  return {
+    name: config.name,
+    label: config.label,
+
+    async check(): Promise<RuntimeChecks> {
+      const engine = await succeeds(['--version'])
+      return {
+        engine,
+        running: engine && await succeeds(['info']),
+        compose: engine && await succeeds(['compose', 'version']),
+      }
+    },
+
+    async pull(project, options = {}) {
+      await compose(project, ['pull'], { timeout: options.timeout ?? 300000, onLine: options.onOutput })
+    },
+
+    async up(project, options = {}) {
+      const args = ['up', '-d']
+      if (options.removeOrphans) args.push('--remove-orphans')
+      if (options.forceRecreate) args.push('--force-recreate')
+      if (options.noDeps) args.push('--no-deps')
+      await compose(project, [...args, ...(options.services || [])], {
+        timeout: options.timeout ?? 300000,
+        onLine: options.onOutput,
+      })
+    },
+
+    async down(project, options = {}) {
+      const args = ['down', '--remove-orphans']
+      if (options.volumes) args.push('--volumes')
+      await compose(project, args, { timeout: options.timeout ?? 120000, onLine: options.onOutput })
+    },
+
+    async stop(project, options = {}) {
+      await compose(project, ['stop', ...(options.services || [])], {
+        timeout: options.timeout ?? 120000,
+        onLine: options.onOutput,
+      })
+    },
+
+    async restart(project, options = {}) {
+      await compose(project, ['restart', ...(options.services || [])], {
+        timeout: options.timeout ?? 300000,
+        onLine: options.onOutput,
+      })
+    },
+
+    async ps(project) {
+      const { stdout } = await compose(project, ['ps', '--all', '--format', 'json'], { timeout: 60000, capture: true })
+      return parseJsonOutput<PsEntry>(stdout).map(normalizePsEntry)
+    },
+
+    async inspect(names) {
+      if (names.length === 0) return []
+      const { stdout } = await spawnCommand(binary, ['inspect', ...names], {
+        timeout: 60000,
+        capture: true,
+        // Missing containers make inspect fail but it still prints the others
+        allowFailure: true,
+      })
+      return stdout.trim() ? (JSON.parse(stdout) as InspectEntry[]).map(normalizeInspectEntry) : []
+    },
+
+    async logs(project, options, onLine) {
+      const args = ['logs', '--no-color', '--timestamps']
+      if (options.follow) args.push('--follow')
+      if (options.since) args.push('--since', options.since)
+      args.push('--tail', options.tail === undefined ? 'all' : String(options.tail))
+      await compose(project, [...args, ...(options.services || [])], { onLine, signal: options.signal })
+    },
+
+    async exec(project, service, command, options = {}) {
+      return compose(project, ['exec', '-T', service, ...command], {
+        capture: !options.stdout,
+        stdin: options.stdin,
+        stdout: options.stdout,
+        timeout: options.timeout,
+        allowFailure: true,
+      })
+    },
+
+    async stats() {
+      const { stdout } = await spawnCommand(binary, ['stats', '--no-stream', '--format', STATS_FORMAT], {
+        timeout: 60000,
+        capture: true,
+      })
+      const stats: ContainerStats[] = []
+      for (const line of stdout.split('\n')) {
+        const entry = line.trim() ? parseStatsLine(line.trim()) : null
+        if (entry) stats.push(entry)
+      }
+      return stats
+    },
+  }
+}
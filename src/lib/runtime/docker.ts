@@ -0,0 +1,5 @@
+import { createCliRuntime } from './cli'
+
+export function createDockerRuntime() {
+  return createCliRuntime({ name: 'docker', label: 'Docker', binary: 'docker' })
+}
@@ -0,0 +1,44 @@
+import * as path from 'path'
+import { createDockerRuntime } from './docker'
+import { createPodmanRuntime } from './podman'
+import { createSimulatedRuntime } from './simulated'
+import type { ComposeProject, ContainerRuntime } from './types'
+
+export type * from './types'
+
+export const RUNTIME_NAMES = ['docker', 'podman', 'simulated']
+
+const globalForRuntime = globalThis as unknown as {
+  containerRuntime: ContainerRuntime | undefined
+}
+
+// Engine selected with CONTAINER_RUNTIME (docker by default)
+export function getContainerRuntime(): ContainerRuntime {
+  if (globalForRuntime.containerRuntime) return globalForRuntime.containerRuntime
+
+  const name = (process.env.CONTAINER_RUNTIME || 'docker').trim().toLowerCase()
+  let runtime: ContainerRuntime
+  if (name === 'podman') {
+    runtime = createPodmanRuntime()
+  } else if (name === 'simulated') {
+    runtime = createSimulatedRuntime()
+  } else {
+    if (name !== 'docker') {
+      console.warn(`Unknown CONTAINER_RUNTIME "${name}", falling back to docker (expected one of ${RUNTIME_NAMES.join(', ')})`)
+    }
+    runtime = createDockerRuntime()
+  }
+
+  globalForRuntime.containerRuntime = runtime
+  return runtime
+}
+
+// Compose project names may only hold lowercase letters, digits, '-' and '_' and must start with a
+// letter or digit; the slug is reduced the way compose itself normalizes names
+export function composeProjectName(slug: string) {
+  return slug.toLowerCase().replace(/[^a-z0-9_-]/g, '').replace(/^[_-]+/, '')
+}
+
+export function composeProject(slug: string): ComposeProject {
+  return { slug, name: composeProjectName(slug), dir: path.join(process.cwd(), 'supabase-projects', slug, 'docker') }
+}
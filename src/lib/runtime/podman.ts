@@ -0,0 +1,8 @@
+import { createCliRuntime } from './cli'
+
+// `podman compose` (Podman 4.7+) hands the compose file to docker-compose or podman-compose,
+// whichever is installed; both accept the same subcommands as `docker compose`.
+// Rootless Podman cannot bind host ports below 1024 unless net.ipv4.ip_unprivileged_port_start allows it.
+export function createPodmanRuntime() {
+  return createCliRuntime({ name: 'podman', label: 'Podman', binary: 'podman' })
+}
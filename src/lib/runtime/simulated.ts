@@ -0,0 +1,324 @@
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import YAML from 'yaml'
+import type {
+  ComposeContainer,
+  ComposeProject,
+  ContainerPort,
+  ContainerRuntime,
+  ContainerStats,
+  ServiceSelection,
+} from './types'
+
+// In-memory engine for machines without Docker or Podman. It reads the project's compose file
+// so ps/logs/stats reflect the real service list, but nothing is actually started.
+
+interface SimulatedContainer {
+  name: string
+  service: string
+  state: 'running' | 'exited'
+  health: string | null
+  ports: ContainerPort[]
+  startedAt: string | null
+  restartCount: number
+  logs: string[]
+  netRxBytes: number
+  netTxBytes: number
+  blockReadBytes: number
+  blockWriteBytes: number
+}
+
+interface ComposeServiceDefinition {
+  service: string
+  name: string
+  ports: ContainerPort[]
+  healthcheck: boolean
+}
+
+const MAX_LOG_LINES = 1000
+const FOLLOW_INTERVAL_MS = 5000
+
+const globalForSimulated = globalThis as unknown as {
+  simulatedProjects: Map<string, Map<string, SimulatedContainer>> | undefined
+}
+
+// slug -> compose service -> container; kept across hot reloads like the Prisma client
+const projects = globalForSimulated.simulatedProjects ?? new Map<string, Map<string, SimulatedContainer>>()
+globalForSimulated.simulatedProjects = projects
+
+async function readEnvFile(dir: string) {
+  const env: Record<string, string> = {}
+  try {
+    const content = await fs.readFile(path.join(dir, '.env'), 'utf8')
+    for (const line of content.split('\n')) {
+      const match = line.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)=(.*)$/)
+      if (match) env[match[1]] = match[2]
+    }
+  } catch {
+    // No .env yet
+  }
+  return env
+}
+
+// Resolves ${VAR}, ${VAR:-default} and ${VAR-default} the way compose does
+function interpolate(value: string, env: Record<string, string>) {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?:(:?-)([^}]*))?\}/g, (_, name: string, op?: string, fallback?: string) => {
+    const current = env[name]
+    if (op === ':-') return current ? current : fallback ?? ''
+    if (op === '-') return current !== undefined ? current : fallback ?? ''
+    return current ?? ''
+  })
+}
+
+function parsePort(item: unknown, env: Record<string, string>): ContainerPort | null {
+  if (item && typeof item === 'object') {
+    const { target, published, protocol } = item as { target?: unknown; published?: unknown; protocol?: string }
+    const hostPort = parseInt(interpolate(String(published ?? ''), env), 10)
+    const containerPort = parseInt(String(target ?? ''), 10)
+    return hostPort && containerPort ? { hostPort, containerPort, protocol: protocol || 'tcp' } : null
+  }
+
+  const [mapping, protocol = 'tcp'] = interpolate(String(item), env).split('/')
+  const parts = mapping.split(':')
+  if (parts.length < 2) return null
+  const hostPort = parseInt(parts[parts.length - 2], 10)
+  const containerPort = parseInt(parts[parts.length - 1], 10)
+  return hostPort && containerPort ? { hostPort, containerPort, protocol } : null
+}
+
+async function readComposeServices(project: ComposeProject): Promise<ComposeServiceDefinition[]> {
+  const content = await fs.readFile(path.join(project.dir, 'docker-compose.yml'), 'utf8')
+  const env = await readEnvFile(project.dir)
+  const parsed = YAML.parse(content) as { services?: Record<string, Record<string, unknown>> } | null
+  const definitions: ComposeServiceDefinition[] = []
+
+  for (const [service, definition] of Object.entries(parsed?.services || {})) {
+    const ports: ContainerPort[] = []
+    for (const item of Array.isArray(definition?.ports) ? definition.ports : []) {
+      const port = parsePort(item, env)
+      if (port) ports.push(port)
+    }
+    definitions.push({
+      service,
+      name: typeof definition?.container_name === 'string' ? definition.container_name : `${project.name}-${service}-1`,
+      ports,
+      healthcheck: Boolean(definition?.healthcheck),
+    })
+  }
+  return definitions
+}
+
+function containersOf(project: ComposeProject) {
+  if (!projects.has(project.slug)) projects.set(project.slug, new Map())
+  return projects.get(project.slug)!
+}
+
+function selected(containers: Map<string, SimulatedContainer>, options: ServiceSelection) {
+  return [...containers.values()].filter((c) => !options.services || options.services.includes(c.service))
+}
+
+function appendLog(container: SimulatedContainer, message: string) {
+  container.logs.push(`${new Date().toISOString()} ${message}`)
+  if (container.logs.length > MAX_LOG_LINES) {
+    container.logs.splice(0, container.logs.length - MAX_LOG_LINES)
+  }
+}
+
+function start(container: SimulatedContainer, healthcheck: boolean) {
+  container.state = 'running'
+  container.startedAt = new Date().toISOString()
+  container.health = healthcheck ? 'healthy' : null
+  appendLog(container, `[simulated] ${container.service} started`)
+}
+
+function stop(container: SimulatedContainer) {
+  container.state = 'exited'
+  container.startedAt = null
+  container.health = null
+  appendLog(container, `[simulated] ${container.service} stopped`)
+}
+
+// `since` is either a duration such as 15m or a timestamp
+function parseSince(since?: string) {
+  if (!since) return NaN
+  const duration = since.match(/^(\d+)(s|m|h)$/)
+  if (duration) {
+    const unit = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 }[duration[2] as 's' | 'm' | 'h']
+    return Date.now() - parseInt(duration[1], 10) * unit
+  }
+  return Date.parse(since)
+}
+
+function formatLogLine(container: SimulatedContainer, line: string) {
+  return `${container.name}  | ${line}`
+}
+
+export function createSimulatedRuntime(): ContainerRuntime {
+  return {
+    name: 'simulated',
+    label: 'Simulated runtime',
+
+    async check() {
+      return { engine: true, running: true, compose: true }
+    },
+
+    async pull(project, options = {}) {
+      for (const definition of await readComposeServices(project)) {
+        options.onOutput?.(`[simulated] Pulled ${definition.service}`)
+      }
+    },
+
+    async up(project, options = {}) {
+      const definitions = await readComposeServices(project)
+      const containers = containersOf(project)
+
+      if (options.removeOrphans) {
+        for (const service of containers.keys()) {
+          if (!definitions.some((d) => d.service === service)) containers.delete(service)
+        }
+      }
+
+      for (const definition of definitions) {
+        if (options.services && !options.services.includes(definition.service)) continue
+        let container = containers.get(definition.service)
+        if (!container) {
+          container = {
+            name: definition.name,
+            service: definition.service,
+            state: 'exited',
+            health: null,
+            ports: definition.ports,
+            startedAt: null,
+            restartCount: 0,
+            logs: [],
+            netRxBytes: 0,
+            netTxBytes: 0,
+            blockReadBytes: 0,
+            blockWriteBytes: 0,
+          }
+          containers.set(definition.service, container)
+        }
+        container.name = definition.name
+        container.ports = definition.ports
+        if (container.state !== 'running' || options.forceRecreate) {
+          start(container, definition.healthcheck)
+          options.onOutput?.(`Container ${container.name} Started (simulated)`)
+        } else {
+          options.onOutput?.(`Container ${container.name} Running (simulated)`)
+        }
+      }
+    },
+
+    async down(project, options = {}) {
+      for (const container of containersOf(project).values()) {
+        options.onOutput?.(`Container ${container.name} Removed (simulated)`)
+      }
+      projects.delete(project.slug)
+    },
+
+    async stop(project, options = {}) {
+      for (const container of selected(containersOf(project), options)) {
+        stop(container)
+        options.onOutput?.(`Container ${container.name} Stopped (simulated)`)
+      }
+    },
+
+    async restart(project, options = {}) {
+      const definitions = await readComposeServices(project)
+      for (const container of selected(containersOf(project), options)) {
+        start(container, definitions.some((d) => d.service === container.service && d.healthcheck))
+        options.onOutput?.(`Container ${container.name} Restarted (simulated)`)
+      }
+    },
+
+    async ps(project): Promise<ComposeContainer[]> {
+      return [...containersOf(project).values()].map((c) => ({
+        name: c.name,
+        service: c.service,
+        state: c.state,
+        health: c.health,
+        ports: c.state === 'running' ? c.ports : [],
+      }))
+    },
+
+    async inspect(names) {
+      const details = []
+      for (const containers of projects.values()) {
+        for (const c of containers.values()) {
+          if (names.includes(c.name)) {
+            details.push({ name: c.name, restartCount: c.restartCount, startedAt: c.startedAt, health: c.health })
+          }
+        }
+      }
+      return details
+    },
+
+    async logs(project, options, onLine) {
+      const containers = selected(containersOf(project), options)
+      const sinceMs = parseSince(options.since)
+      for (const container of containers) {
+        let lines = isNaN(sinceMs) ? container.logs : container.logs.filter((l) => Date.parse(l.split(' ')[0]) >= sinceMs)
+        if (options.tail !== undefined) lines = options.tail === 0 ? [] : lines.slice(-options.tail)
+        for (const line of lines) onLine(formatLogLine(container, line))
+      }
+      if (!options.follow) return
+
+      // Emit a heartbeat per running container until the caller aborts
+      await new Promise<void>((resolve) => {
+        const timer = setInterval(() => {
+          for (const container of containers) {
+            if (container.state !== 'running') continue
+            appendLog(container, '[simulated] heartbeat')
+            onLine(formatLogLine(container, container.logs[container.logs.length - 1]))
+          }
+        }, FOLLOW_INTERVAL_MS)
+        const done = () => {
+          clearInterval(timer)
+          resolve()
+        }
+        if (options.signal?.aborted) done()
+        options.signal?.addEventListener('abort', done)
+      })
+    },
+
+    async exec(project, service, command, options = {}) {
+      const container = containersOf(project).get(service)
+      if (!container || container.state !== 'running') {
+        return { exitCode: 1, stdout: '', stderr: `service "${service}" is not running` }
+      }
+
+      // Drain the input so piped producers finish
+      if (options.stdin && typeof options.stdin !== 'string') {
+        for await (const chunk of options.stdin) {
+          void chunk
+        }
+      }
+      appendLog(container, `[simulated] exec ${command.join(' ')}`)
+      return { exitCode: 0, stdout: '', stderr: '' }
+    },
+
+    async stats(): Promise<ContainerStats[]> {
+      const stats: ContainerStats[] = []
+      for (const containers of projects.values()) {
+        for (const c of containers.values()) {
+          if (c.state !== 'running') continue
+          c.netRxBytes += Math.round(Math.random() * 50000)
+          c.netTxBytes += Math.round(Math.random() * 50000)
+          c.blockReadBytes += Math.round(Math.random() * 10000)
+          c.blockWriteBytes += Math.round(Math.random() * 20000)
+          stats.push({
+            name: c.name,
+            cpuPercent: Math.random() * 5,
+            memoryBytes: (50 + Math.random() * 150) * 1024 ** 2,
+            memoryLimitBytes: 2 * 1024 ** 3,
+            netRxBytes: c.netRxBytes,
+            netTxBytes: c.netTxBytes,
+            blockReadBytes: c.blockReadBytes,
+            blockWriteBytes: c.blockWriteBytes,
+          })
+        }
+      }
+      return stats
+    },
+  }
+}
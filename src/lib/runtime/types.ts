@@ -0,0 +1,91 @@
+// Contract between the console and a container engine. Every compose operation works on one
+// project's compose directory; drivers live next to this file and are picked in ./index.ts.
+
+export interface ComposeProject {
+  slug: string
+  name: string // compose project name, see composeProjectName
+  dir: string // directory holding docker-compose.yml and .env
+}
+
+export interface RunOptions {
+  timeout?: number
+  onOutput?: (line: string) => void
+}
+
+export interface ServiceSelection {
+  services?: string[] // compose service names; all services when omitted
+}
+
+export interface ContainerPort {
+  hostPort: number
+  containerPort: number
+  protocol: string
+}
+
+export interface ComposeContainer {
+  name: string
+  service: string // compose service name
+  state: string // running, exited, restarting, paused, created
+  health: string | null
+  ports: ContainerPort[]
+}
+
+export interface ContainerDetails {
+  name: string
+  restartCount: number
+  startedAt: string | null
+  health: string | null
+}
+
+// I/O figures are cumulative counters since the container started
+export interface ContainerStats {
+  name: string
+  cpuPercent: number
+  memoryBytes: number
+  memoryLimitBytes: number
+  netRxBytes: number
+  netTxBytes: number
+  blockReadBytes: number
+  blockWriteBytes: number
+}
+
+export interface LogStreamOptions extends ServiceSelection {
+  since?: string
+  tail?: number // lines per container; all when omitted
+  follow?: boolean
+  signal?: AbortSignal
+}
+
+export interface ExecOptions {
+  stdin?: string | NodeJS.ReadableStream
+  stdout?: NodeJS.WritableStream // raw output goes here instead of being collected
+  timeout?: number
+}
+
+export interface ExecResult {
+  exitCode: number
+  stdout: string
+  stderr: string
+}
+
+export interface RuntimeChecks {
+  engine: boolean // CLI installed
+  running: boolean // daemon / service reachable
+  compose: boolean // compose support available
+}
+
+export interface ContainerRuntime {
+  name: string // value of CONTAINER_RUNTIME
+  label: string // human readable engine name for messages
+  check(): Promise<RuntimeChecks>
+  pull(project: ComposeProject, options?: RunOptions): Promise<void>
+  up(project: ComposeProject, options?: RunOptions & ServiceSelection & { forceRecreate?: boolean; removeOrphans?: boolean; noDeps?: boolean }): Promise<void>
+  down(project: ComposeProject, options?: RunOptions & { volumes?: boolean }): Promise<void>
+  stop(project: ComposeProject, options?: RunOptions & ServiceSelection): Promise<void>
+  restart(project: ComposeProject, options?: RunOptions & ServiceSelection): Promise<void>
+  ps(project: ComposeProject): Promise<ComposeContainer[]>
+  inspect(names: string[]): Promise<ContainerDetails[]>
+  logs(project: ComposeProject, options: LogStreamOptions, onLine: (line: string) => void): Promise<void>
+  exec(project: ComposeProject, service: string, command: string[], options?: ExecOptions): Promise<ExecResult>
+  stats(): Promise<ContainerStats[]>
+}
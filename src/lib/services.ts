@@ -0,0 +1,102 @@
+import { prisma } from './db'
+import { SUPABASE_SERVICES, findService, parseEnabledServices } from './supabase-services'
+import { getContainerRuntime, composeProject, type ContainerDetails } from './runtime'
+
+export interface ServicePort {
+  hostPort: number
+  containerPort: number
+  protocol: string
+}
+
+export interface ServiceStatus {
+  key: string
+  label: string
+  containerName: string
+  state: string // running, exited, restarting, paused, created, missing
+  health: string | null // healthy, unhealthy, starting, or null when there is no health check
+  startedAt: string | null
+  uptimeSeconds: number | null
+  restartCount: number
+  ports: ServicePort[]
+}
+
+export async function getProjectServices(projectId: string) {
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+
+    const runtime = getContainerRuntime()
+    const containers = await runtime.ps(composeProject(project.slug))
+
+    // Restart counts and start times are only available through inspect
+    const inspected = new Map<string, ContainerDetails>()
+    if (containers.length > 0) {
+      try {
+        for (const entry of await runtime.inspect(containers.map((c) => c.name))) {
+          inspected.set(entry.name, entry)
+        }
+      } catch (e) {
+        console.warn('Could not inspect project containers:', e)
+      }
+    }
+
+    const enabled = parseEnabledServices(project.services)
+    const now = Date.now()
+    const services: ServiceStatus[] = SUPABASE_SERVICES.filter((service) => enabled.includes(service.key)).map((service) => {
+      const container = containers.find((c) => c.service === service.composeService)
+      const containerName = container?.name || service.containerName(project.slug)
+      const details = inspected.get(containerName)
+      const running = container?.state === 'running'
+      const startedAt = running && details?.startedAt ? details.startedAt : null
+
+      return {
+        key: service.key,
+        label: service.label,
+        containerName,
+        state: container?.state || 'missing',
+        health: container?.health || details?.health || null,
+        startedAt,
+        uptimeSeconds: startedAt ? Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000)) : null,
+        restartCount: details?.restartCount ?? 0,
+        ports: container?.ports || [],
+      }
+    })
+
+    return { success: true, services }
+  } catch (error) {
+    console.error('Failed to get project services:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+export async function restartProjectService(projectId: string, serviceKey: string) {
+  try {
+    const service = findService(serviceKey)
+    if (!service) {
+      throw new Error(`Unknown service: ${serviceKey}`)
+    }
+
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+
+    await getContainerRuntime().restart(composeProject(project.slug), {
+      services: [service.composeService],
+      timeout: 120000, // 2 minutes timeout
+    })
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to restart service:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
@@ -0,0 +1,110 @@
+// Static catalog of the Supabase services; kept free of server-only imports so pages can use it too
+
+export interface SupabaseService {
+  key: string
+  label: string
+  composeService: string
+  containerName: (slug: string) => string
+  // Optional services can be disabled per project; the rest are always deployed
+  optional: boolean
+  // Other services that must be enabled for this one to work
+  requires?: string[]
+  // Env vars only this service reads; dropped from the project when it is disabled
+  envKeys?: string[]
+}
+
+// Supabase services as defined in supabase-core/docker/docker-compose.yml, with the
+// container names createProject assigns to them
+export const SUPABASE_SERVICES: SupabaseService[] = [
+  {
+    key: 'studio', label: 'Studio', composeService: 'studio', containerName: (slug) => `${slug}-studio`,
+    optional: true, requires: ['meta'],
+    envKeys: ['STUDIO_DEFAULT_ORGANIZATION', 'STUDIO_DEFAULT_PROJECT', 'STUDIO_PORT', 'OPENAI_API_KEY'],
+  },
+  { key: 'kong', label: 'Kong (API Gateway)', composeService: 'kong', containerName: (slug) => `${slug}-kong`, optional: false },
+  { key: 'auth', label: 'Auth (GoTrue)', composeService: 'auth', containerName: (slug) => `${slug}-auth`, optional: false },
+  { key: 'rest', label: 'REST (PostgREST)', composeService: 'rest', containerName: (slug) => `${slug}-rest`, optional: false },
+  { key: 'realtime', label: 'Realtime', composeService: 'realtime', containerName: (slug) => `realtime-dev.${slug}-realtime`, optional: true },
+  { key: 'storage', label: 'Storage', composeService: 'storage', containerName: (slug) => `${slug}-storage`, optional: true },
+  {
+    key: 'imgproxy', label: 'ImgProxy', composeService: 'imgproxy', containerName: (slug) => `${slug}-imgproxy`,
+    optional: true, requires: ['storage'],
+    envKeys: ['IMGPROXY_ENABLE_WEBP_DETECTION'],
+  },
+  { key: 'meta', label: 'Postgres Meta', composeService: 'meta', containerName: (slug) => `${slug}-meta`, optional: true },
+  {
+    key: 'functions', label: 'Edge Functions', composeService: 'functions', containerName: (slug) => `${slug}-edge-functions`,
+    optional: true,
+    envKeys: ['FUNCTIONS_VERIFY_JWT'],
+  },
+  {
+    key: 'analytics', label: 'Analytics (Logflare)', composeService: 'analytics', containerName: (slug) => `${slug}-analytics`,
+    optional: true,
+    envKeys: ['ANALYTICS_PORT', 'LOGFLARE_PUBLIC_ACCESS_TOKEN', 'LOGFLARE_PRIVATE_ACCESS_TOKEN', 'GOOGLE_PROJECT_ID', 'GOOGLE_PROJECT_NUMBER'],
+  },
+  { key: 'db', label: 'Database (Postgres)', composeService: 'db', containerName: (slug) => `${slug}-db`, optional: false },
+  {
+    key: 'vector', label: 'Vector', composeService: 'vector', containerName: (slug) => `${slug}-vector`,
+    optional: true, requires: ['analytics'],
+    envKeys: ['DOCKER_SOCKET_LOCATION'],
+  },
+  {
+    key: 'pooler', label: 'Pooler (Supavisor)', composeService: 'supavisor', containerName: (slug) => `${slug}-pooler`,
+    optional: true,
+    envKeys: ['POOLER_PROXY_PORT_TRANSACTION', 'POOLER_DEFAULT_POOL_SIZE', 'POOLER_MAX_CLIENT_CONN', 'POOLER_TENANT_ID', 'POOLER_DB_POOL_SIZE'],
+  },
+]
+
+export const ALL_SERVICE_KEYS = SUPABASE_SERVICES.map((service) => service.key)
+
+export function findService(key: string): SupabaseService | undefined {
+  return SUPABASE_SERVICES.find((service) => service.key === key)
+}
+
+// Project.services holds a JSON array of enabled keys; projects created before it existed run everything
+export function parseEnabledServices(value: string | null | undefined): string[] {
+  if (!value) return ALL_SERVICE_KEYS
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed : ALL_SERVICE_KEYS
+  } catch {
+    return ALL_SERVICE_KEYS
+  }
+}
+
+// Normalizes a requested selection: adds the always-on services and everything the
+// selected ones depend on. Returns an error for unknown keys.
+export function resolveServiceSet(requested: string[]): { services?: string[]; error?: string } {
+  const unknown = requested.filter((key) => !findService(key))
+  if (unknown.length > 0) {
+    return { error: `Unknown services: ${unknown.join(', ')}` }
+  }
+
+  const enabled = new Set(requested)
+  for (const service of SUPABASE_SERVICES) {
+    if (!service.optional) enabled.add(service.key)
+  }
+
+  // Walk dependencies until nothing new is added
+  let added = true
+  while (added) {
+    added = false
+    for (const key of [...enabled]) {
+      for (const dependency of findService(key)?.requires || []) {
+        if (!enabled.has(dependency)) {
+          enabled.add(dependency)
+          added = true
+        }
+      }
+    }
+  }
+
+  return { services: ALL_SERVICE_KEYS.filter((key) => enabled.has(key)) }
+}
+
+// Env keys owned by services that are not enabled
+export function disabledEnvKeys(enabled: string[]): string[] {
+  return SUPABASE_SERVICES
+    .filter((service) => !enabled.includes(service.key))
+    .flatMap((service) => service.envKeys || [])
+}
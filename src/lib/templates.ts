@@ -0,0 +1,324 @@
+import { prisma } from './db'
+import { createProject, buildDefaultEnvVars, UNIQUE_ENV_KEYS } from './project'
+import { getProjectPorts } from './ports'
+import { getProjectEnvVars } from './env-vars'
+import { ALL_SERVICE_KEYS, parseEnabledServices, resolveServiceSet } from './supabase-services'
+import { ENV_KEY_PATTERN, isSecretEnvKey } from './env-catalog'
+
+// Env vars a template keeps as auth settings instead of plain overrides
+export const AUTH_SETTING_KEYS = [
+  'DISABLE_SIGNUP',
+  'ENABLE_EMAIL_SIGNUP',
+  'ENABLE_EMAIL_AUTOCONFIRM',
+  'ENABLE_PHONE_SIGNUP',
+  'ENABLE_PHONE_AUTOCONFIRM',
+  'ENABLE_ANONYMOUS_USERS',
+  'JWT_EXPIRY',
+  'ADDITIONAL_REDIRECT_URLS',
+]
+
+export interface TemplateDefinition {
+  name: string
+  description?: string
+  services: string[]
+  envOverrides?: Record<string, string>
+  authSettings?: Record<string, string>
+  seedSql?: string
+}
+
+export interface TemplateInfo {
+  id: string
+  name: string
+  description: string | null
+  builtIn: boolean
+  services: string[]
+  envOverrides: Record<string, string>
+  authSettings: Record<string, string>
+  seedSql: string | null
+  createdAt: Date
+}
+
+interface TemplateRow {
+  id: string
+  name: string
+  description: string | null
+  builtInKey: string | null
+  services: string
+  envOverrides: string
+  authSettings: string
+  seedSql: string | null
+  ownerId: string | null
+  createdAt: Date
+}
+
+const PROFILES_SEED_SQL = `create table public.profiles (
+  id uuid primary key references auth.users (id) on delete cascade,
+  username text unique,
+  avatar_url text,
+  updated_at timestamptz default now()
+);
+
+alter table public.profiles enable row level security;
+
+create policy "Profiles are viewable by everyone" on public.profiles
+  for select using (true);
+create policy "Users can insert their own profile" on public.profiles
+  for insert with check (auth.uid() = id);
+create policy "Users can update their own profile" on public.profiles
+  for update using (auth.uid() = id);
+
+create function public.handle_new_user()
+returns trigger
+language plpgsql
+security definer set search_path = ''
+as $$
+begin
+  insert into public.profiles (id) values (new.id);
+  return new;
+end;
+$$;
+
+create trigger on_auth_user_created
+  after insert on auth.users
+  for each row execute procedure public.handle_new_user();
+`
+
+// Kept in sync with the database on every listing, keyed by builtInKey
+const BUILT_IN_TEMPLATES: Record<string, TemplateDefinition> = {
+  'full-stack': {
+    name: 'Full stack',
+    description: 'Every Supabase service with the default configuration.',
+    services: ALL_SERVICE_KEYS,
+  },
+  'api-only': {
+    name: 'API only',
+    description: 'Database, auth and the REST API behind Kong; no Studio, storage, realtime or analytics.',
+    services: ['kong', 'auth', 'rest', 'db'],
+    envOverrides: {
+      PGRST_DB_SCHEMAS: 'public,graphql_public',
+    },
+  },
+  'auth-playground': {
+    name: 'Auth playground',
+    description: 'Studio plus auth with autoconfirmed email and anonymous sign-ins, and a profiles table filled by a trigger on new users.',
+    services: ['studio', 'meta', 'kong', 'auth', 'rest', 'db'],
+    authSettings: {
+      ENABLE_EMAIL_AUTOCONFIRM: 'true',
+      ENABLE_ANONYMOUS_USERS: 'true',
+      ENABLE_PHONE_SIGNUP: 'false',
+      ENABLE_PHONE_AUTOCONFIRM: 'false',
+    },
+    seedSql: PROFILES_SEED_SQL,
+  },
+}
+
+function parseObject(value: string): Record<string, string> {
+  try {
+    const parsed = JSON.parse(value)
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+function toTemplateInfo(row: TemplateRow): TemplateInfo {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    builtIn: row.builtInKey !== null,
+    services: parseEnabledServices(row.services),
+    envOverrides: parseObject(row.envOverrides),
+    authSettings: parseObject(row.authSettings),
+    seedSql: row.seedSql,
+    createdAt: row.createdAt,
+  }
+}
+
+// Checks a definition before it is stored; returns it with the service set normalized
+function validateDefinition(definition: TemplateDefinition): TemplateDefinition {
+  if (!definition.name.trim()) {
+    throw new Error('Template name is required')
+  }
+
+  const { services, error } = resolveServiceSet(definition.services)
+  if (!services) {
+    throw new Error(error)
+  }
+
+  const envOverrides = definition.envOverrides ?? {}
+  const authSettings = definition.authSettings ?? {}
+  for (const [key, value] of Object.entries({ ...envOverrides, ...authSettings })) {
+    if (!ENV_KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid env var name: ${key}`)
+    }
+    if (typeof value !== 'string') {
+      throw new Error(`Value of ${key} must be a string`)
+    }
+    if (UNIQUE_ENV_KEYS.includes(key)) {
+      throw new Error(`${key} is generated per project and cannot be part of a template`)
+    }
+  }
+  const misplaced = Object.keys(authSettings).filter((key) => !AUTH_SETTING_KEYS.includes(key))
+  if (misplaced.length > 0) {
+    throw new Error(`Not an auth setting: ${misplaced.join(', ')}`)
+  }
+
+  return {
+    name: definition.name.trim(),
+    description: definition.description?.trim() || undefined,
+    services,
+    envOverrides,
+    authSettings,
+    seedSql: definition.seedSql?.trim() || undefined,
+  }
+}
+
+function templateData(definition: TemplateDefinition) {
+  return {
+    name: definition.name,
+    description: definition.description ?? null,
+    services: JSON.stringify(definition.services),
+    envOverrides: JSON.stringify(definition.envOverrides ?? {}),
+    authSettings: JSON.stringify(definition.authSettings ?? {}),
+    seedSql: definition.seedSql ?? null,
+  }
+}
+
+export async function ensureBuiltInTemplates() {
+  for (const [builtInKey, definition] of Object.entries(BUILT_IN_TEMPLATES)) {
+    const data = templateData(validateDefinition(definition))
+    await prisma.projectTemplate.upsert({
+      where: { builtInKey },
+      update: data,
+      create: { ...data, builtInKey },
+    })
+  }
+}
+
+// Built-in templates first, then the user's own
+export async function listTemplates(userId: string): Promise<TemplateInfo[]> {
+  await ensureBuiltInTemplates()
+  const rows: TemplateRow[] = await prisma.projectTemplate.findMany({
+    where: { OR: [{ builtInKey: { not: null } }, { ownerId: userId }] },
+    orderBy: { createdAt: 'asc' },
+  })
+  return [
+    ...rows.filter((row) => row.builtInKey !== null),
+    ...rows.filter((row) => row.builtInKey === null),
+  ].map(toTemplateInfo)
+}
+
+async function findTemplate(id: string, userId: string): Promise<TemplateRow | null> {
+  const row: TemplateRow | null = await prisma.projectTemplate.findUnique({
+    where: { id },
+  })
+  if (!row || (row.builtInKey === null && row.ownerId !== userId)) return null
+  return row
+}
+
+// Creates a project with the template's env overrides, auth settings and seed SQL. The services
+// default to the template's but can be adjusted by the caller.
+export async function createProjectFromTemplate(
+  templateId: string,
+  name: string,
+  userId: string,
+  description?: string,
+  options: { services?: string[]; coreVersionId?: string } = {}
+): Promise<Awaited<ReturnType<typeof createProject>>> {
+  const row = await findTemplate(templateId, userId)
+  if (!row) {
+    return { success: false, error: 'Template not found' }
+  }
+
+  const template = toTemplateInfo(row)
+  return createProject(name, userId, description, {
+    services: options.services ?? template.services,
+    coreVersionId: options.coreVersionId,
+    envOverrides: { ...template.envOverrides, ...template.authSettings },
+    seedSql: template.seedSql ?? undefined,
+  })
+}
+
+// Captures a project's services and every env var that differs from what a new project gets.
+// Secrets, ports and URLs pointing at the project itself are left out.
+export async function saveProjectAsTemplate(
+  projectId: string,
+  userId: string,
+  options: { name: string; description?: string; seedSql?: string }
+) {
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+
+    const ports = await getProjectPorts(projectId)
+    if (!ports) {
+      throw new Error('Project has no port block; repair its ports first')
+    }
+    const defaults = buildDefaultEnvVars(Date.now(), ports)
+
+    const envVars = await getProjectEnvVars(projectId)
+    const envOverrides: Record<string, string> = {}
+    const authSettings: Record<string, string> = {}
+    // Secrets such as SMTP_PASS or OPENAI_API_KEY stay with the project; templates are stored in
+    // plain text and shared with everyone who can create projects from them
+    const skipped: string[] = []
+    for (const [key, value] of Object.entries(envVars)) {
+      if (UNIQUE_ENV_KEYS.includes(key) || defaults[key] === value) continue
+      if (isSecretEnvKey(key)) {
+        skipped.push(key)
+        continue
+      }
+      if (AUTH_SETTING_KEYS.includes(key)) {
+        authSettings[key] = value
+      } else {
+        envOverrides[key] = value
+      }
+    }
+
+    const definition = validateDefinition({
+      name: options.name,
+      description: options.description,
+      services: parseEnabledServices(project.services),
+      envOverrides,
+      authSettings,
+      seedSql: options.seedSql,
+    })
+
+    const template: TemplateRow = await prisma.projectTemplate.create({
+      data: { ...templateData(definition), ownerId: userId },
+    })
+
+    return { success: true, template: toTemplateInfo(template), skipped }
+  } catch (error) {
+    console.error('Failed to save project as template:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+// Only the owner can delete a template; built-ins cannot be deleted
+export async function deleteTemplate(id: string, userId: string) {
+  try {
+    const row = await findTemplate(id, userId)
+    if (!row) {
+      throw new Error('Template not found')
+    }
+    if (row.builtInKey !== null) {
+      throw new Error('Built-in templates cannot be deleted')
+    }
+
+    await prisma.projectTemplate.delete({
+      where: { id },
+    })
+
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to delete template:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
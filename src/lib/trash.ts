@@ -0,0 +1,171 @@
+import { prisma } from './db'
+import { cleanupProjectExposure } from './cloudflared'
+import { transitionProject, InvalidTransitionError } from './lifecycle'
+import { getContainerRuntime, composeProject } from './runtime'
+import { deleteProject, publishProject } from './project'
+
+const DEFAULT_GRACE_DAYS = 7
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Days a trashed project can be restored before the purger deletes it (TRASH_GRACE_DAYS, 0 purges on the next pass)
+export function trashGraceDays() {
+  const days = parseInt(process.env.TRASH_GRACE_DAYS || '', 10)
+  return Number.isNaN(days) || days < 0 ? DEFAULT_GRACE_DAYS : days
+}
+
+export class DeleteConfirmationError extends Error {
+  constructor() {
+    super('Type the project name to confirm permanent deletion')
+    this.name = 'DeleteConfirmationError'
+  }
+}
+
+// Moves a project to the trash: containers are stopped and its hostname unpublished, while
+// files, volumes, env vars and the port block are kept so the project can be restored.
+export async function trashProject(projectId: string) {
+  try {
+    const project = await transitionProject(projectId, 'trashed', 'Moved to trash')
+
+    const deletedAt = new Date()
+    const purgeAfter = new Date(deletedAt.getTime() + trashGraceDays() * DAY_MS)
+    await prisma.project.update({
+      where: { id: projectId },
+      data: { deletedAt, purgeAfter },
+    })
+
+    try {
+      await getContainerRuntime().stop(composeProject(project.slug), {
+        timeout: 120000, // 2 minutes timeout
+      })
+    } catch (dockerError) {
+      console.warn('Failed to stop Docker containers (they may not be running):', dockerError)
+    }
+
+    try {
+      await cleanupProjectExposure({ projectSlug: project.slug, projectName: project.name })
+    } catch (exposureError) {
+      console.warn('Failed to cleanup Cloudflare/cloudflared:', exposureError)
+    }
+
+    return { success: true, purgeAfter }
+  } catch (error) {
+    console.error('Failed to move project to trash:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof InvalidTransitionError ? 'invalid_transition' : undefined,
+    }
+  }
+}
+
+// Takes a project out of the trash. Deployed projects come back paused with their hostname
+// published again; start them to bring the containers up.
+export async function restoreProject(projectId: string) {
+  try {
+    const deployed = await prisma.deployment.findFirst({
+      where: { projectId, status: 'succeeded' },
+    })
+
+    const project = await transitionProject(projectId, deployed ? 'paused' : 'provisioning', 'Restored from trash')
+    await prisma.project.update({
+      where: { id: projectId },
+      data: { deletedAt: null, purgeAfter: null },
+    })
+
+    const warnings: string[] = []
+    if (deployed) {
+      try {
+        await publishProject(project)
+      } catch (exposureError) {
+        console.warn('Failed to publish restored project:', exposureError)
+        warnings.push(`The public hostname could not be published again; redeploy the project to retry (${exposureError instanceof Error ? exposureError.message : 'unknown error'})`)
+      }
+    }
+
+    return { success: true, status: project.status, warnings }
+  } catch (error) {
+    console.error('Failed to restore project:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof InvalidTransitionError ? 'invalid_transition' : undefined,
+    }
+  }
+}
+
+// Deletes a project for good, bypassing the trash. The caller must repeat the project's name.
+export async function hardDeleteProject(projectId: string, confirmName: string | null) {
+  try {
+    const project = await prisma.project.findUnique({
+      where: { id: projectId },
+    })
+
+    if (!project) {
+      throw new Error('Project not found')
+    }
+    if (confirmName !== project.name) {
+      throw new DeleteConfirmationError()
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof DeleteConfirmationError ? 'confirmation_required' : undefined,
+    }
+  }
+
+  return deleteProject(projectId)
+}
+
+export async function listTrash(userId: string) {
+  return prisma.project.findMany({
+    where: { ownerId: userId, status: 'trashed' },
+    orderBy: { deletedAt: 'desc' },
+    select: { id: true, name: true, slug: true, description: true, deletedAt: true, purgeAfter: true },
+  })
+}
+
+// Runs the destructive cleanup for trashed projects whose grace period is over
+export async function purgeExpiredProjects() {
+  const expired: { id: string; slug: string }[] = await prisma.project.findMany({
+    where: { status: 'trashed', purgeAfter: { lte: new Date() } },
+    select: { id: true, slug: true },
+  })
+
+  let purged = 0
+  for (const project of expired) {
+    const result = await deleteProject(project.id)
+    if (result.success) {
+      purged++
+    } else {
+      console.warn(`Purging ${project.slug} from the trash failed:`, result.error)
+    }
+  }
+  return purged
+}
+
+const globalForTrash = globalThis as unknown as {
+  trashPurger: NodeJS.Timeout | undefined
+}
+
+// Starts the trash purger once per server process. Disabled with TRASH_PURGE_ENABLED=false.
+export function startTrashPurger() {
+  if (globalForTrash.trashPurger || process.env.TRASH_PURGE_ENABLED === 'false') return
+
+  const interval = parseInt(process.env.TRASH_PURGE_INTERVAL_MS || '', 10) || DEFAULT_INTERVAL_MS
+
+  let running = false
+  globalForTrash.trashPurger = setInterval(() => {
+    // Tearing down several projects can outlast the interval; never run two passes at once
+    if (running) return
+    running = true
+    purgeExpiredProjects()
+      .catch((e) => console.warn('Trash purge failed:', e instanceof Error ? e.message : e))
+      .finally(() => {
+        running = false
+      })
+  }, interval)
+
+  console.log(`Trash purger started (every ${Math.round(interval / 1000)}s, grace period ${trashGraceDays()} days)`)
+}
@@ -0,0 +1,336 @@
+import { promises as fs } from 'fs'
+import * as path from 'path'
+import { createHash } from 'crypto'
+import { prisma } from './db'
+import { unifiedDiff } from './diff'
+import { transformCompose } from './compose'
+import { coreDockerDir, projectBaseDir } from './core-versions'
+import { canTransition, InvalidTransitionError } from './lifecycle'
+import { queueDeployProject, writeProjectEnvFile } from './project'
+import { getProjectEnvVars, setProjectEnvVars, deleteProjectEnvVars, recordEnvVersion } from './env-vars'
+import { parseEnabledServices, disabledEnvKeys } from './supabase-services'
+import { findEnvVarSpec, isSecretEnvKey } from './env-catalog'
+import { randomSecret } from './keys'
+
+// Moves a project to another Supabase core version. Files and env vars are merged three ways:
+// the version the project was created from is the base, the target version is "theirs" and the
+// project's current files and env vars are "ours". Local changes win over upstream defaults.
+
+export type FileAction = 'add' | 'update' | 'delete' | 'conflict'
+export type EnvAction = 'add' | 'generate' | 'update' | 'remove' | 'conflict'
+
+export interface FileChange {
+  path: string
+  action: FileAction
+  diff: string // unified diff from the project's file to the upgraded one; empty for binary files
+}
+
+export interface EnvChange {
+  key: string
+  action: EnvAction
+  current: string | null
+  upstream: string | null // value in the target .env.example
+  value: string | null // value after the upgrade; null when removed or generated on apply
+}
+
+export interface UpgradePlan {
+  from: { ref: string | null; commit: string | null }
+  to: { id: string; ref: string; commit: string | null }
+  files: FileChange[]
+  env: EnvChange[]
+  warnings: string[]
+  token: string // fingerprint of the plan; applying requires the same token
+}
+
+export class PlanChangedError extends Error {
+  constructor() {
+    super('The upgrade plan changed since it was reviewed; review it again')
+    this.name = 'PlanChangedError'
+  }
+}
+
+// Never copied or diffed: runtime data, and files the console renders itself
+const SKIPPED_PATHS = ['volumes/db/data', 'volumes/storage', '.env', 'docker-compose.yml']
+
+const MAX_DIFF_BYTES = 512 * 1024
+
+// Length of secrets that are new upstream, unless the env catalog asks for more
+const GENERATED_SECRET_LENGTH = 32
+
+function isSkipped(relative: string) {
+  return SKIPPED_PATHS.some((skipped) => relative === skipped || relative.startsWith(`${skipped}/`))
+}
+
+async function listFiles(root: string, relative = ''): Promise<string[]> {
+  const entries = await fs.readdir(path.join(root, relative), { withFileTypes: true }).catch(() => [])
+  const files: string[] = []
+  for (const entry of entries) {
+    const child = relative ? `${relative}/${entry.name}` : entry.name
+    if (isSkipped(child)) continue
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(root, child))
+    } else if (entry.isFile()) {
+      files.push(child)
+    }
+  }
+  return files
+}
+
+async function readFileOrNull(file: string) {
+  return fs.readFile(file).catch(() => null)
+}
+
+function isText(content: Buffer) {
+  return content.length <= MAX_DIFF_BYTES && !content.includes(0)
+}
+
+function parseEnvExample(content: string | null) {
+  const values: Record<string, string> = {}
+  for (const line of (content || '').split('\n')) {
+    const match = line.match(/^\s*([A-Za-z_][A-Za-z0-9_]*)=(.*)$/)
+    if (match) values[match[1]] = match[2].trim()
+  }
+  return values
+}
+
+async function loadUpgradeContext(projectId: string, targetVersionId: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    include: { coreVersion: true },
+  })
+  if (!project) {
+    throw new Error('Project not found')
+  }
+
+  const target = await prisma.coreVersion.findUnique({ where: { id: targetVersionId } })
+  if (!target) {
+    throw new Error('Target version not found')
+  }
+  if (target.status !== 'ready') {
+    throw new Error(`Version ${target.ref} is not checked out yet`)
+  }
+
+  const projectDir = path.join(process.cwd(), 'supabase-projects', project.slug, 'docker')
+  const targetDir = coreDockerDir(target)
+  const baseDir = await projectBaseDir(project)
+
+  return { project, target, projectDir, targetDir, baseDir }
+}
+
+async function planFiles(projectDir: string, targetDir: string, baseDir: string | null) {
+  const changes: Array<FileChange & { source: string | null }> = []
+  const targetFiles = await listFiles(targetDir)
+  const baseFiles = baseDir ? await listFiles(baseDir) : []
+  const paths = [...new Set([...targetFiles, ...baseFiles])].sort()
+
+  for (const relative of paths) {
+    const ours = await readFileOrNull(path.join(projectDir, relative))
+    const theirs = targetFiles.includes(relative) ? await readFileOrNull(path.join(targetDir, relative)) : null
+    const base = baseDir ? await readFileOrNull(path.join(baseDir, relative)) : null
+
+    if (theirs && ours && theirs.equals(ours)) continue
+    if (!theirs && !ours) continue
+
+    const diffOf = (from: Buffer | null, to: Buffer | null) =>
+      (!from || isText(from)) && (!to || isText(to))
+        ? unifiedDiff(from?.toString() ?? '', to?.toString() ?? '', { oldLabel: `project/${relative}`, newLabel: `upstream/${relative}` })
+        : ''
+
+    let action: FileAction
+    if (!theirs) {
+      // Removed upstream: only delete files the project never changed
+      action = ours && base && ours.equals(base) ? 'delete' : 'conflict'
+    } else if (!ours) {
+      // Deleted locally but still shipped upstream: bring it back only if it is new upstream
+      action = base ? 'conflict' : 'add'
+    } else if (base && ours.equals(base)) {
+      action = 'update'
+    } else if (base && theirs.equals(base)) {
+      // Changed locally only
+      continue
+    } else {
+      action = 'conflict'
+    }
+
+    changes.push({
+      path: relative,
+      action,
+      diff: diffOf(ours, theirs),
+      source: theirs ? path.join(targetDir, relative) : null,
+    })
+  }
+  return changes
+}
+
+async function planEnv(projectId: string, targetDir: string, baseDir: string | null, enabledServices: string[]) {
+  const ours = await getProjectEnvVars(projectId)
+
+  const theirs = parseEnvExample(await fs.readFile(path.join(targetDir, '.env.example'), 'utf8').catch(() => null))
+  const base = baseDir
+    ? parseEnvExample(await fs.readFile(path.join(baseDir, '.env.example'), 'utf8').catch(() => null))
+    : null
+  const disabled = disabledEnvKeys(enabledServices)
+
+  const changes: EnvChange[] = []
+  const keys = [...new Set([...Object.keys(theirs), ...Object.keys(base || {})])].sort()
+  for (const key of keys) {
+    if (disabled.includes(key)) continue
+    const current = key in ours ? ours[key] : null
+    const upstream = key in theirs ? theirs[key] : null
+    const previous = base && key in base ? base[key] : null
+
+    if (upstream !== null && current === null) {
+      // New upstream key, or one the project never had. The template's secrets are public
+      // placeholders, so secrets get a random value when the plan is applied instead.
+      changes.push(isSecretEnvKey(key)
+        ? { key, action: 'generate', current, upstream, value: null }
+        : { key, action: 'add', current, upstream, value: upstream })
+    } else if (upstream === null && current !== null && base) {
+      // Dropped upstream; keep it when the project set its own value
+      changes.push(current === previous
+        ? { key, action: 'remove', current, upstream, value: null }
+        : { key, action: 'conflict', current, upstream, value: current })
+    } else if (upstream !== null && current !== null && base && previous !== null && previous !== upstream) {
+      // Upstream changed its default; follow it unless the project overrode the old one
+      changes.push(current === previous
+        ? { key, action: 'update', current, upstream, value: upstream }
+        : { key, action: 'conflict', current, upstream, value: current })
+    }
+  }
+  return changes
+}
+
+function fingerprint(plan: Omit<UpgradePlan, 'token'>) {
+  return createHash('sha256').update(JSON.stringify(plan)).digest('hex').slice(0, 32)
+}
+
+async function buildPlan(projectId: string, targetVersionId: string) {
+  const { project, target, projectDir, targetDir, baseDir } = await loadUpgradeContext(projectId, targetVersionId)
+  const enabledServices = parseEnabledServices(project.services)
+  const warnings: string[] = []
+
+  if (!baseDir) {
+    warnings.push('The version this project was created from is no longer checked out; every local difference is treated as a conflict and kept')
+  }
+
+  const fileChanges = await planFiles(projectDir, targetDir, baseDir)
+
+  // docker-compose.yml is always re-rendered from the target with the project's customizations
+  const composeFile = path.join(projectDir, 'docker-compose.yml')
+  const currentCompose = await fs.readFile(composeFile, 'utf8').catch(() => '')
+  const rendered = transformCompose(await fs.readFile(path.join(targetDir, 'docker-compose.yml'), 'utf8'), {
+    slug: project.slug,
+    enabledServices,
+  })
+  warnings.push(...rendered.warnings)
+  if (baseDir) {
+    const baseCompose = await fs.readFile(path.join(baseDir, 'docker-compose.yml'), 'utf8').catch(() => null)
+    const renderedBase = baseCompose === null ? null : transformCompose(baseCompose, { slug: project.slug, enabledServices }).content
+    if (renderedBase !== null && renderedBase !== currentCompose) {
+      warnings.push('docker-compose.yml was edited by hand; those edits are replaced by the upgraded file')
+    }
+  }
+  const composeDiff = unifiedDiff(currentCompose, rendered.content, {
+    oldLabel: 'project/docker-compose.yml',
+    newLabel: 'upstream/docker-compose.yml',
+  })
+  if (composeDiff) {
+    fileChanges.push({ path: 'docker-compose.yml', action: 'update', diff: composeDiff, source: null })
+  }
+
+  const env = await planEnv(projectId, targetDir, baseDir, enabledServices)
+
+  const body = {
+    from: { ref: project.coreVersion?.ref ?? null, commit: project.coreCommit },
+    to: { id: target.id, ref: target.ref, commit: target.commit },
+    files: fileChanges.map(({ path, action, diff }) => ({ path, action, diff })),
+    env,
+    warnings,
+  }
+  const plan: UpgradePlan = { ...body, token: fingerprint(body) }
+
+  return { plan, project, target, projectDir, fileChanges, compose: rendered.content }
+}
+
+// Secret values are masked so plans can be shown in the browser
+function redactPlan(plan: UpgradePlan): UpgradePlan {
+  const mask = (key: string, value: string | null) => (value !== null && isSecretEnvKey(key) ? '••••••••' : value)
+  return {
+    ...plan,
+    env: plan.env.map((change) => ({
+      ...change,
+      current: mask(change.key, change.current),
+      upstream: mask(change.key, change.upstream),
+      value: mask(change.key, change.value),
+    })),
+  }
+}
+
+export async function planProjectUpgrade(projectId: string, targetVersionId: string) {
+  try {
+    const { plan } = await buildPlan(projectId, targetVersionId)
+    return { success: true, plan: redactPlan(plan) }
+  } catch (error) {
+    console.error('Failed to plan project upgrade:', error)
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
+// Applies a reviewed plan and queues a redeploy. The token must match the plan as it is now,
+// so nothing is applied that was not shown for approval.
+export async function applyProjectUpgrade(projectId: string, targetVersionId: string, token: string) {
+  try {
+    const { plan, project, target, projectDir, fileChanges, compose } = await buildPlan(projectId, targetVersionId)
+    if (plan.token !== token) {
+      throw new PlanChangedError()
+    }
+    if (!canTransition(project.status, 'starting')) {
+      throw new InvalidTransitionError(project.status, 'starting')
+    }
+
+    for (const change of fileChanges) {
+      const destination = path.join(projectDir, change.path)
+      if (change.action === 'delete') {
+        await fs.rm(destination, { force: true })
+      } else if ((change.action === 'add' || change.action === 'update') && change.source) {
+        await fs.mkdir(path.dirname(destination), { recursive: true })
+        await fs.copyFile(change.source, destination)
+      }
+    }
+    await fs.writeFile(path.join(projectDir, 'docker-compose.yml'), compose, 'utf8')
+
+    for (const change of plan.env) {
+      if (change.action === 'remove') {
+        await deleteProjectEnvVars(projectId, [change.key])
+      } else if (change.action === 'generate') {
+        const length = Math.max(GENERATED_SECRET_LENGTH, findEnvVarSpec(change.key)?.minLength ?? 0)
+        await setProjectEnvVars(projectId, { [change.key]: randomSecret(length) })
+      } else if ((change.action === 'add' || change.action === 'update') && change.value !== null) {
+        await setProjectEnvVars(projectId, { [change.key]: change.value })
+      }
+    }
+    await recordEnvVersion(projectId, 'upgrade')
+    await writeProjectEnvFile(projectId, project.slug)
+
+    await prisma.project.update({
+      where: { id: projectId },
+      data: { coreVersionId: target.id, coreCommit: target.commit },
+    })
+
+    const deploy = await queueDeployProject(projectId)
+    if (!deploy.success) {
+      throw new Error(`Upgrade applied but the redeploy could not start: ${deploy.error}`)
+    }
+
+    return { success: true, job: deploy.job }
+  } catch (error) {
+    console.error('Failed to apply project upgrade:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      code: error instanceof PlanChangedError
+        ? 'plan_changed'
+        : error instanceof InvalidTransitionError ? 'invalid_transition' : undefined,
+    }
+  }
+}